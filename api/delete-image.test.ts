@@ -0,0 +1,242 @@
+import { createServer, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+/**
+ * The handler runs against one local HTTP server standing in for the Identity Toolkit
+ * token lookup, the Firestore users/{uid} document and the Cloudinary destroy API
+ */
+
+const PROJECT_ID = "demo-safay";
+const CLOUD_NAME = "demo-cloud";
+
+// ID token -> uid, and uid -> users/{uid} profile
+const TOKENS: Record<string, string> = {
+  "owner-token": "owner",
+  "supervisor-token": "supervisor",
+  "inactive-token": "inactive",
+};
+const PROFILES: Record<string, { role: string; active: boolean }> = {
+  owner: { role: "owner", active: true },
+  supervisor: { role: "supervisor", active: true },
+  inactive: { role: "owner", active: false },
+};
+
+// public_id -> what the Cloudinary stub answers; anything else is deleted
+const CLOUDINARY_ANSWERS: Record<string, { status: number; body: unknown }> = {
+  "employees/photos/missing": { status: 200, body: { result: "not found" } },
+  "employees/photos/broken": { status: 500, body: { error: { message: "Internal server error" } } },
+  "employees/photos/bad-signature": { status: 401, body: { error: { message: "Invalid Signature" } } },
+};
+
+let server: Server;
+let destroyed: string[] = [];
+let handler: typeof import("./delete-image").default;
+const savedEnv = { ...process.env };
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+  });
+
+const send = (res: import("node:http").ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const startStub = () =>
+  new Promise<number>((resolve) => {
+    server = createServer(async (req, res) => {
+      const url = req.url || "";
+      const body = await readBody(req);
+
+      if (url.startsWith("/identitytoolkit.googleapis.com/v1/accounts:lookup")) {
+        const uid = TOKENS[JSON.parse(body).idToken];
+        return uid
+          ? send(res, 200, { users: [{ localId: uid }] })
+          : send(res, 400, { error: { message: "INVALID_ID_TOKEN" } });
+      }
+
+      const userPath = `/v1/projects/${PROJECT_ID}/databases/(default)/documents/users/`;
+      if (decodeURIComponent(url).startsWith(userPath)) {
+        const profile = PROFILES[decodeURIComponent(url).slice(userPath.length)];
+        return profile
+          ? send(res, 200, {
+              fields: { role: { stringValue: profile.role }, active: { booleanValue: profile.active } },
+            })
+          : send(res, 404, { error: { message: "Not found" } });
+      }
+
+      if (url === `/v1_1/${CLOUD_NAME}/image/destroy`) {
+        // The SDK posts multipart/form-data
+        const publicId = body.match(/name="public_id"\r\n\r\n(.*?)\r\n/)?.[1] || "";
+        const answer = CLOUDINARY_ANSWERS[publicId];
+        if (answer) return send(res, answer.status, answer.body);
+        destroyed.push(publicId);
+        return send(res, 200, { result: "ok" });
+      }
+
+      send(res, 404, { error: { message: `No stub for ${req.method} ${url}` } });
+    });
+    server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port));
+  });
+
+const call = async (options: { token?: string; body?: unknown; method?: string }) => {
+  const res = {
+    statusCode: 0,
+    body: undefined as unknown,
+    headers: {} as Record<string, string>,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+    },
+    setHeader(name: string, value: string) {
+      this.headers[name] = value;
+    },
+  };
+  await handler(
+    {
+      method: options.method || "POST",
+      headers: options.token ? { authorization: `Bearer ${options.token}` } : {},
+      body: options.body,
+    },
+    res
+  );
+  return res as typeof res & { body: { error?: string; results?: unknown[] } };
+};
+
+describe("POST /api/delete-image", () => {
+  beforeAll(async () => {
+    const port = await startStub();
+    const host = `127.0.0.1:${port}`;
+
+    // The Cloudinary SDK reads CLOUDINARY_URL when it loads, so set everything before importing the handler
+    process.env.CLOUDINARY_URL = `cloudinary://test-key:test-secret@${CLOUD_NAME}?upload_prefix=http://${host}`;
+    process.env.CLOUDINARY_CLOUD_NAME = CLOUD_NAME;
+    process.env.CLOUDINARY_API_KEY = "test-key";
+    process.env.CLOUDINARY_API_SECRET = "test-secret";
+    process.env.FIREBASE_API_KEY = "test-api-key";
+    process.env.FIREBASE_PROJECT_ID = PROJECT_ID;
+    process.env.FIREBASE_AUTH_EMULATOR_HOST = host;
+    process.env.FIRESTORE_EMULATOR_HOST = host;
+
+    handler = (await import("./delete-image")).default;
+  });
+
+  afterAll(async () => {
+    process.env = savedEnv;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    destroyed = [];
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  describe("auth check", () => {
+    it("only accepts POST", async () => {
+      const res = await call({ method: "GET", token: "owner-token" });
+      expect(res.statusCode).toBe(405);
+      expect(res.headers.Allow).toBe("POST");
+    });
+
+    it("rejects a request without a token", async () => {
+      const res = await call({ body: { publicIds: ["employees/photos/1"] } });
+      expect(res.statusCode).toBe(401);
+      expect(res.body.error).toBe("Missing authentication token");
+    });
+
+    it("rejects a token the Identity Toolkit doesn't recognise", async () => {
+      const res = await call({ token: "forged-token", body: { publicIds: ["employees/photos/1"] } });
+      expect(res.statusCode).toBe(401);
+      expect(res.body.error).toBe("Invalid authentication token");
+    });
+
+    it("rejects a role without employees.delete", async () => {
+      const res = await call({ token: "supervisor-token", body: { publicIds: ["employees/photos/1"] } });
+      expect(res.statusCode).toBe(403);
+      expect(destroyed).toEqual([]);
+    });
+
+    it("rejects a deactivated owner", async () => {
+      const res = await call({ token: "inactive-token", body: { publicIds: ["employees/photos/1"] } });
+      expect(res.statusCode).toBe(403);
+      expect(destroyed).toEqual([]);
+    });
+
+    it("lets the owner delete", async () => {
+      const res = await call({ token: "owner-token", body: { publicIds: ["employees/photos/1"] } });
+      expect(res.statusCode).toBe(200);
+      expect(res.body.results).toEqual([{ publicId: "employees/photos/1", deleted: true }]);
+      expect(destroyed).toEqual(["employees/photos/1"]);
+    });
+  });
+
+  describe("request body", () => {
+    it("accepts a JSON string body", async () => {
+      const res = await call({ token: "owner-token", body: JSON.stringify({ publicIds: ["employees/photos/2"] }) });
+      expect(res.statusCode).toBe(200);
+      expect(destroyed).toEqual(["employees/photos/2"]);
+    });
+
+    it("rejects a body that isn't JSON", async () => {
+      const res = await call({ token: "owner-token", body: "{not json" });
+      expect(res.statusCode).toBe(400);
+    });
+
+    it("rejects an empty or oversized list", async () => {
+      expect((await call({ token: "owner-token", body: { publicIds: [] } })).statusCode).toBe(400);
+      const tooMany = Array.from({ length: 21 }, (_, i) => `employees/photos/${i}`);
+      expect((await call({ token: "owner-token", body: { publicIds: tooMany } })).statusCode).toBe(400);
+      expect(destroyed).toEqual([]);
+    });
+
+    it("never sends a URL or path to Cloudinary as a public_id", async () => {
+      const res = await call({
+        token: "owner-token",
+        body: {
+          publicIds: [
+            "https://example.com/image/upload/v1/employees/photos/1.jpg",
+            "/employees/photos/1",
+            "employees/../../photos/1",
+          ],
+        },
+      });
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body.results).toHaveLength(3);
+      res.body.results?.forEach((result) =>
+        expect(result).toMatchObject({ deleted: false, error: "Not a Cloudinary public_id" })
+      );
+      expect(destroyed).toEqual([]);
+    });
+  });
+
+  describe("Cloudinary responses", () => {
+    it("reports an image Cloudinary didn't find as not deleted", async () => {
+      const res = await call({ token: "owner-token", body: { publicIds: ["employees/photos/missing"] } });
+      expect(res.statusCode).toBe(200);
+      expect(res.body.results).toEqual([{ publicId: "employees/photos/missing", deleted: false, error: "not found" }]);
+    });
+
+    it("reports Cloudinary error responses per image and still deletes the rest", async () => {
+      const res = await call({
+        token: "owner-token",
+        body: { publicIds: ["employees/photos/broken", "employees/photos/bad-signature", "employees/photos/3"] },
+      });
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body.results).toEqual([
+        { publicId: "employees/photos/broken", deleted: false, error: "Internal server error" },
+        { publicId: "employees/photos/bad-signature", deleted: false, error: "Invalid Signature" },
+        { publicId: "employees/photos/3", deleted: true },
+      ]);
+      expect(destroyed).toEqual(["employees/photos/3"]);
+    });
+  });
+});
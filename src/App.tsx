@@ -9,6 +9,7 @@ import Dashboard from "./pages/Dashboard";
 import ContactForm from "./pages/ContactForm";
 import PendingWorks from "./pages/PendingWorks";
 import MembershipMembers from "./pages/MembershipMembers";
+import CustomerProfile from "./pages/CustomerProfile";
 import CompletedWorks from "./pages/CompletedWorks";
 import AddEmployee from "./pages/AddEmployee";
 import AllWorkers from "./pages/AllWorkers";
@@ -17,7 +18,20 @@ import Expense from "./pages/Expense";
 import NotFound from "./pages/NotFound";
 import FirebaseTest from "./pages/FirebaseTest";
 import Login from "./pages/Login";
+import Users from "./pages/Users";
+import Services from "./pages/Services";
+import Quotations from "./pages/Quotations";
+import Settings from "./pages/Settings";
+import Dues from "./pages/Dues";
+import Payroll from "./pages/Payroll";
+import Leaves from "./pages/Leaves";
+import Holidays from "./pages/Holidays";
+import MusterRoll from "./pages/MusterRoll";
+import CheckIn from "./pages/CheckIn";
 import ProtectedRoute from "./components/ProtectedRoute";
+import { AuthProvider } from "./components/AuthProvider";
+import { MigrationRunner } from "./components/MigrationRunner";
+import { VisitScheduler } from "./components/VisitScheduler";
 import { useEffect } from "react";
 import { clearLocalStorage, needsMigration } from "./lib/localStorage";
 
@@ -38,46 +52,61 @@ const App = () => {
       <TooltipProvider>
         <Toaster />
         <Sonner />
-        <BrowserRouter>
-          <Routes>
-            {/* Public route */}
-            <Route path="/login" element={<Login />} />
+        <AuthProvider>
+          <BrowserRouter>
+            <Routes>
+              {/* Public route */}
+              <Route path="/login" element={<Login />} />
             
-            {/* Protected routes */}
-            <Route
-              path="/*"
-              element={
-                <ProtectedRoute>
-                  <SidebarProvider>
-                    <div className="min-h-screen flex w-full">
-                      <AppSidebar />
-                      <div className="flex-1 flex flex-col">
-                        <header className="h-14 border-b bg-card flex items-center px-4">
-                          <SidebarTrigger />
-                        </header>
-                        <main className="flex-1 p-6 overflow-auto">
-                          <Routes>
-                            <Route path="/" element={<Dashboard />} />
-                            <Route path="/test" element={<FirebaseTest />} />
-                            <Route path="/contact-form" element={<ContactForm />} />
-                            <Route path="/pending-works" element={<PendingWorks />} />
-                            <Route path="/completed-works" element={<CompletedWorks />} />
-                            <Route path="/membership-members" element={<MembershipMembers />} />
-                            <Route path="/add-employee" element={<AddEmployee />} />
-                            <Route path="/all-workers" element={<AllWorkers />} />
-                            <Route path="/attendance" element={<Attendance />} />
-                            <Route path="/expense" element={<Expense />} />
-                            <Route path="*" element={<NotFound />} />
-                          </Routes>
-                        </main>
+              {/* Protected routes */}
+              <Route
+                path="/*"
+                element={
+                  <ProtectedRoute>
+                    <SidebarProvider>
+                      <MigrationRunner />
+                      <VisitScheduler />
+                      <div className="min-h-screen flex w-full">
+                        <AppSidebar />
+                        <div className="flex-1 flex flex-col">
+                          <header className="h-14 border-b bg-card flex items-center px-4">
+                            <SidebarTrigger />
+                          </header>
+                          <main className="flex-1 p-6 overflow-auto">
+                            <Routes>
+                              <Route path="/" element={<ProtectedRoute permission="dashboard.view"><Dashboard /></ProtectedRoute>} />
+                              <Route path="/test" element={<ProtectedRoute permission="system.test"><FirebaseTest /></ProtectedRoute>} />
+                              <Route path="/contact-form" element={<ProtectedRoute permission="works.create"><ContactForm /></ProtectedRoute>} />
+                              <Route path="/quotations" element={<ProtectedRoute permission="quotes.manage"><Quotations /></ProtectedRoute>} />
+                              <Route path="/pending-works" element={<ProtectedRoute permission="works.view"><PendingWorks /></ProtectedRoute>} />
+                              <Route path="/completed-works" element={<ProtectedRoute permission="works.view"><CompletedWorks /></ProtectedRoute>} />
+                              <Route path="/membership-members" element={<ProtectedRoute permission="members.view"><MembershipMembers /></ProtectedRoute>} />
+                              <Route path="/customers/:id" element={<ProtectedRoute permission="customers.view"><CustomerProfile /></ProtectedRoute>} />
+                              <Route path="/dues" element={<ProtectedRoute permission="payments.view"><Dues /></ProtectedRoute>} />
+                              <Route path="/add-employee" element={<ProtectedRoute permission="employees.create"><AddEmployee /></ProtectedRoute>} />
+                              <Route path="/all-workers" element={<ProtectedRoute permission="employees.view"><AllWorkers /></ProtectedRoute>} />
+                              <Route path="/attendance" element={<ProtectedRoute permission="attendance.view"><Attendance /></ProtectedRoute>} />
+                              <Route path="/holidays" element={<ProtectedRoute permission="attendance.view"><Holidays /></ProtectedRoute>} />
+                              <Route path="/check-in" element={<ProtectedRoute permission="attendance.self"><CheckIn /></ProtectedRoute>} />
+                              <Route path="/muster-roll" element={<ProtectedRoute permission="attendance.view"><MusterRoll /></ProtectedRoute>} />
+                              <Route path="/leaves" element={<ProtectedRoute permission="leaves.view"><Leaves /></ProtectedRoute>} />
+                              <Route path="/payroll" element={<ProtectedRoute permission="payroll.manage"><Payroll /></ProtectedRoute>} />
+                              <Route path="/expense" element={<ProtectedRoute permission="expense.view"><Expense /></ProtectedRoute>} />
+                              <Route path="/services" element={<ProtectedRoute permission="services.manage"><Services /></ProtectedRoute>} />
+                              <Route path="/settings" element={<ProtectedRoute permission="settings.manage"><Settings /></ProtectedRoute>} />
+                              <Route path="/users" element={<ProtectedRoute permission="users.manage"><Users /></ProtectedRoute>} />
+                              <Route path="*" element={<NotFound />} />
+                            </Routes>
+                          </main>
+                        </div>
                       </div>
-                    </div>
-                  </SidebarProvider>
-                </ProtectedRoute>
-              }
-            />
-          </Routes>
-        </BrowserRouter>
+                    </SidebarProvider>
+                  </ProtectedRoute>
+                }
+              />
+            </Routes>
+          </BrowserRouter>
+        </AuthProvider>
       </TooltipProvider>
     </QueryClientProvider>
   );
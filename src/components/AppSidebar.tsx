@@ -11,26 +11,51 @@ import {
   ChevronLeft,
   Menu,
   DollarSign,
-  LogOut
+  LogOut,
+  ShieldCheck,
+  Tags,
+  FileSpreadsheet,
+  Settings,
+  Wallet,
+  Banknote,
+  CalendarOff,
+  PartyPopper,
+  Grid3x3,
+  MapPin
 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { Permission } from "@/lib/permissions";
 
-const menuItems = [
-  { title: "Dashboard", url: "/", icon: LayoutDashboard },
-  { title: "Contact Form", url: "/contact-form", icon: FileText },
-  { title: "Pending Works", url: "/pending-works", icon: Clock },
-  { title: "Membership Members", url: "/membership-members", icon: Users },
-  { title: "Completed Works", url: "/completed-works", icon: FileText },
-  { title: "Add Employee", url: "/add-employee", icon: UserPlus },
-  { title: "All Workers", url: "/all-workers", icon: Briefcase },
-  { title: "Employee Attendance", url: "/attendance", icon: ClipboardCheck },
-  { title: "Expense", url: "/expense", icon: DollarSign },
+const menuItems: { title: string; url: string; icon: typeof LayoutDashboard; permission: Permission }[] = [
+  { title: "Dashboard", url: "/", icon: LayoutDashboard, permission: "dashboard.view" },
+  { title: "Contact Form", url: "/contact-form", icon: FileText, permission: "works.create" },
+  { title: "Quotations", url: "/quotations", icon: FileSpreadsheet, permission: "quotes.manage" },
+  { title: "Pending Works", url: "/pending-works", icon: Clock, permission: "works.view" },
+  { title: "Membership Members", url: "/membership-members", icon: Users, permission: "members.view" },
+  { title: "Completed Works", url: "/completed-works", icon: FileText, permission: "works.view" },
+  { title: "Outstanding Dues", url: "/dues", icon: Wallet, permission: "payments.view" },
+  { title: "Add Employee", url: "/add-employee", icon: UserPlus, permission: "employees.create" },
+  { title: "All Workers", url: "/all-workers", icon: Briefcase, permission: "employees.view" },
+  { title: "Check In", url: "/check-in", icon: MapPin, permission: "attendance.self" },
+  { title: "Employee Attendance", url: "/attendance", icon: ClipboardCheck, permission: "attendance.view" },
+  { title: "Muster Roll", url: "/muster-roll", icon: Grid3x3, permission: "attendance.view" },
+  { title: "Holidays", url: "/holidays", icon: PartyPopper, permission: "attendance.view" },
+  { title: "Leave Requests", url: "/leaves", icon: CalendarOff, permission: "leaves.view" },
+  { title: "Payroll", url: "/payroll", icon: Banknote, permission: "payroll.manage" },
+  { title: "Expense", url: "/expense", icon: DollarSign, permission: "expense.view" },
+  { title: "Services", url: "/services", icon: Tags, permission: "services.manage" },
+  { title: "Settings", url: "/settings", icon: Settings, permission: "settings.manage" },
+  { title: "Users & Roles", url: "/users", icon: ShieldCheck, permission: "users.manage" },
 ];
 
 export function AppSidebar() {
   const location = useLocation();
   const navigate = useNavigate();
+  const { signOut, can } = useAuth();
+  // Only show pages the current role is allowed to open
+  const visibleItems = menuItems.filter((item) => can(item.permission));
   const [isExpanded, setIsExpanded] = useState(true);
   // track active item by url so clicking (or routing) highlights correctly
   const [activeGroup, setActiveGroup] = useState(location.pathname);
@@ -40,15 +65,20 @@ export function AppSidebar() {
     setActiveGroup(location.pathname);
   }, [location.pathname]);
 
-  const handleLogout = () => {
-    // Clear session storage for secure logout
-    sessionStorage.removeItem("isAuthenticated");
-    sessionStorage.removeItem("loginTime");
-    // Also clear any localStorage items if they exist
-    localStorage.removeItem("isAuthenticated");
-    localStorage.removeItem("loginTime");
-    toast.success("Logged out successfully");
-    navigate("/login");
+  const handleLogout = async () => {
+    try {
+      await signOut();
+      // Clear flags left behind by the old session-based login
+      sessionStorage.removeItem("isAuthenticated");
+      sessionStorage.removeItem("loginTime");
+      localStorage.removeItem("isAuthenticated");
+      localStorage.removeItem("loginTime");
+      toast.success("Logged out successfully");
+      navigate("/login");
+    } catch (error) {
+      console.error("Error logging out:", error);
+      toast.error("Failed to logout. Please try again.");
+    }
   };
 
   return (
@@ -95,7 +125,7 @@ export function AppSidebar() {
         className="flex-1 py-6 px-3 space-y-1 overflow-hidden"
         initial={false}
       >
-        {menuItems.map((item, index) => (
+        {visibleItems.map((item, index) => (
           <NavLink
             key={item.url}
             to={item.url}
@@ -0,0 +1,127 @@
+// @vitest-environment jsdom
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import { act, cleanup, render, screen, waitFor } from "@testing-library/react";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import { AuthContextValue, useAuth } from "@/hooks/useAuth";
+import { clearEmulators, createAuthUser, emulatorsRunning, setUserProfile } from "@/test/emulators";
+import { AuthProvider } from "./AuthProvider";
+import ProtectedRoute from "./ProtectedRoute";
+
+const PASSWORD = "secret-password";
+const SUPERVISOR = "supervisor@example.com";
+const NO_PROFILE = "no-profile@example.com";
+const INACTIVE = "inactive@example.com";
+
+let auth: AuthContextValue;
+
+const AuthProbe = () => {
+  auth = useAuth();
+  return null;
+};
+
+const renderApp = (path: string) =>
+  render(
+    <AuthProvider>
+      <AuthProbe />
+      <MemoryRouter initialEntries={[path]}>
+        <Routes>
+          <Route path="/login" element={<p>Login page</p>} />
+          <Route
+            path="/attendance"
+            element={
+              <ProtectedRoute permission="attendance.view">
+                <p>Attendance page</p>
+              </ProtectedRoute>
+            }
+          />
+        </Routes>
+      </MemoryRouter>
+    </AuthProvider>
+  );
+
+const signIn = async (email: string) => {
+  await act(async () => {
+    await auth.signIn(email, PASSWORD);
+  });
+};
+
+describe.skipIf(!emulatorsRunning)("AuthProvider with the Firebase Auth emulator", () => {
+  beforeAll(async () => {
+    await clearEmulators();
+    const supervisorUid = await createAuthUser(SUPERVISOR, PASSWORD);
+    await setUserProfile(supervisorUid, { email: SUPERVISOR, name: "Supervisor", role: "supervisor" });
+    await createAuthUser(NO_PROFILE, PASSWORD);
+    const inactiveUid = await createAuthUser(INACTIVE, PASSWORD);
+    await setUserProfile(inactiveUid, { email: INACTIVE, name: "Inactive", role: "owner", active: false });
+  });
+
+  afterEach(async () => {
+    if (auth?.user) {
+      await act(async () => {
+        await auth.signOut();
+      });
+    }
+    cleanup();
+  });
+
+  it("redirects a signed-out visitor to the login page", async () => {
+    renderApp("/attendance");
+    expect(await screen.findByText("Login page")).toBeTruthy();
+    expect(auth.user).toBeNull();
+  });
+
+  it("signs in and loads the role from the user's profile", async () => {
+    renderApp("/attendance");
+    await screen.findByText("Login page");
+
+    await signIn(SUPERVISOR);
+
+    await waitFor(() => expect(auth.role).toBe("supervisor"));
+    expect(auth.user?.email).toBe(SUPERVISOR);
+    expect(auth.profile?.name).toBe("Supervisor");
+    expect(auth.can("attendance.edit")).toBe(true);
+    expect(auth.can("payroll.manage")).toBe(false);
+  });
+
+  it("opens a protected page after sign-in and leaves it after sign-out", async () => {
+    renderApp("/attendance");
+    await signIn(SUPERVISOR);
+    expect(await screen.findByText("Attendance page")).toBeTruthy();
+
+    await act(async () => {
+      await auth.signOut();
+    });
+
+    await waitFor(() => expect(auth.user).toBeNull());
+    expect(auth.role).toBeNull();
+  });
+
+  it("rejects a wrong password", async () => {
+    renderApp("/attendance");
+    await screen.findByText("Login page");
+
+    await expect(auth.signIn(SUPERVISOR, "wrong-password")).rejects.toMatchObject({
+      code: "auth/invalid-credential",
+    });
+    expect(auth.user).toBeNull();
+  });
+
+  it("signs in a user without a profile but gives them no role", async () => {
+    renderApp("/attendance");
+    await signIn(NO_PROFILE);
+
+    expect(await screen.findByText(/no role assigned yet/)).toBeTruthy();
+    expect(auth.user?.email).toBe(NO_PROFILE);
+    expect(auth.profile).toBeNull();
+    expect(auth.role).toBeNull();
+    expect(auth.loading).toBe(false);
+  });
+
+  it("treats a deactivated profile like a missing one", async () => {
+    renderApp("/attendance");
+    await signIn(INACTIVE);
+
+    expect(await screen.findByText(/no role assigned yet/)).toBeTruthy();
+    expect(auth.role).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import {
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  signOut as firebaseSignOut,
+  User,
+} from "firebase/auth";
+import { doc, onSnapshot } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import { hasPermission, isRole, Permission } from "@/lib/permissions";
+import { AuthContext, UserProfile } from "@/hooks/useAuth";
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Keeps track of the Firebase Auth user and their role profile,
+ * and exposes both through AuthContext
+ */
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [user, setUser] = useState<User | null>(auth.currentUser);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [authLoading, setAuthLoading] = useState(true);
+  const [profileLoading, setProfileLoading] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (firebaseUser) => {
+      setUser(firebaseUser);
+      setProfileLoading(!!firebaseUser);
+      setAuthLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  // Listen to the user's profile so role changes apply without logging out
+  useEffect(() => {
+    if (!user) {
+      setProfile(null);
+      setProfileLoading(false);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      doc(db, "users", user.uid),
+      (snapshot) => {
+        const data = snapshot.data();
+        if (snapshot.exists() && data && isRole(data.role) && data.active !== false) {
+          setProfile({ id: snapshot.id, ...data } as UserProfile);
+        } else {
+          setProfile(null);
+        }
+        setProfileLoading(false);
+      },
+      (err) => {
+        console.error("Error loading user profile:", err);
+        setProfile(null);
+        setProfileLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [user]);
+
+  const signIn = async (email: string, password: string) => {
+    const credential = await signInWithEmailAndPassword(auth, email.trim(), password);
+    return credential.user;
+  };
+
+  const signOut = async () => {
+    await firebaseSignOut(auth);
+  };
+
+  const role = profile?.role ?? null;
+  const can = (permission: Permission) => hasPermission(role, permission);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user,
+        profile,
+        role,
+        loading: authLoading || profileLoading,
+        can,
+        signIn,
+        signOut,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
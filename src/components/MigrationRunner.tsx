@@ -0,0 +1,29 @@
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { runPendingMigrations } from "@/lib/migrations";
+
+/**
+ * Runs pending data migrations once the owner is logged in
+ * Other roles can't write to every collection, so they never run migrations
+ */
+export function MigrationRunner() {
+  const { role } = useAuth();
+
+  useEffect(() => {
+    if (role !== "owner") return;
+
+    runPendingMigrations()
+      .then((ran) => {
+        if (ran.length > 0) {
+          toast.success(`Data updated (${ran.length} migration${ran.length > 1 ? "s" : ""})`);
+        }
+      })
+      .catch((error) => {
+        console.error("Error running migrations:", error);
+        toast.error("Failed to update existing data. It will be retried on next login.");
+      });
+  }, [role]);
+
+  return null;
+}
@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge";
+import { getAmountDue, getPaymentStatus, getWorkTotal, PayableWork } from "@/lib/payments";
+
+/**
+ * Paid / partly paid / unpaid badge for a work (nothing for works without an amount)
+ */
+export function PaymentStatusBadge({ work }: { work: PayableWork }) {
+  if (getWorkTotal(work) <= 0) return null;
+
+  const status = getPaymentStatus(work);
+  if (status === "paid") {
+    return (
+      <Badge variant="outline" className="text-xs border-green-600 text-green-600">
+        PAID
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="outline" className="text-xs border-orange-500 text-orange-600">
+      {status === "partial" ? "PARTLY PAID" : "UNPAID"} · ₹{getAmountDue(work).toLocaleString()} due
+    </Badge>
+  );
+}
@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from "vitest";
+import { cleanup, render, screen } from "@testing-library/react";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import type { User } from "firebase/auth";
+import { AuthContext, AuthContextValue } from "@/hooks/useAuth";
+import { hasPermission, Role } from "@/lib/permissions";
+import ProtectedRoute from "./ProtectedRoute";
+
+const authValue = (overrides: Partial<AuthContextValue> & { role?: Role | null }): AuthContextValue => {
+  const role = overrides.role ?? null;
+  return {
+    user: null,
+    profile: null,
+    loading: false,
+    signIn: async () => ({}) as User,
+    signOut: async () => {},
+    ...overrides,
+    role,
+    can: (permission) => hasPermission(role, permission),
+  };
+};
+
+const renderRoute = (path: string, value: AuthContextValue) =>
+  render(
+    <AuthContext.Provider value={value}>
+      <MemoryRouter initialEntries={[path]}>
+        <Routes>
+          <Route path="/login" element={<p>Login page</p>} />
+          <Route path="/pending-works" element={<p>Pending works</p>} />
+          <Route
+            path="/payroll"
+            element={
+              <ProtectedRoute permission="payroll.manage">
+                <p>Payroll page</p>
+              </ProtectedRoute>
+            }
+          />
+        </Routes>
+      </MemoryRouter>
+    </AuthContext.Provider>
+  );
+
+const signedIn = { uid: "uid-1", email: "someone@example.com" } as User;
+
+describe("ProtectedRoute", () => {
+  afterEach(cleanup);
+
+  it("redirects to the login page without a Firebase user, even with the old session flag set", () => {
+    sessionStorage.setItem("isAuthenticated", "true");
+    renderRoute("/payroll", authValue({}));
+    expect(screen.getByText("Login page")).toBeTruthy();
+    sessionStorage.clear();
+  });
+
+  it("waits while the auth state is loading", () => {
+    renderRoute("/payroll", authValue({ loading: true }));
+    expect(screen.queryByText("Login page")).toBeNull();
+    expect(screen.queryByText("Payroll page")).toBeNull();
+  });
+
+  it("shows the page when the role has the permission", () => {
+    renderRoute("/payroll", authValue({ user: signedIn, role: "accountant" }));
+    expect(screen.getByText("Payroll page")).toBeTruthy();
+  });
+
+  it("sends a role without the permission to its home page", () => {
+    renderRoute("/payroll", authValue({ user: signedIn, role: "field-worker" }));
+    expect(screen.getByText("Pending works")).toBeTruthy();
+  });
+
+  it("explains when the account has no role", () => {
+    renderRoute("/payroll", authValue({ user: signedIn, role: null }));
+    expect(screen.getByText(/no role assigned yet/)).toBeTruthy();
+  });
+});
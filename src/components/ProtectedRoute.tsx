@@ -1,16 +1,52 @@
-import { Navigate } from "react-router-dom";
+import { Navigate, useLocation } from "react-router-dom";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { useAuth } from "@/hooks/useAuth";
+import { getHomeRoute, Permission } from "@/lib/permissions";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Permission the user's role needs to open this route (omit to only require login)
+  permission?: Permission;
 }
 
-const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  // Use sessionStorage instead of localStorage for session-based authentication
-  // This ensures users must login each time they open the website
-  const isAuthenticated = sessionStorage.getItem("isAuthenticated") === "true";
+const ProtectedRoute = ({ children, permission }: ProtectedRouteProps) => {
+  const location = useLocation();
+  // Trust the Firebase Auth state only - a session flag can be set by anyone from devtools
+  const { user, role, loading, can } = useAuth();
 
-  if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+  if (loading) {
+    return (
+      <div className="min-h-screen flex justify-center items-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (permission && !can(permission)) {
+    // Send the user to a page their role can use, if there is one
+    const home = getHomeRoute(role);
+    if (home && home !== location.pathname) {
+      return <Navigate to={home} replace />;
+    }
+
+    return (
+      <Card>
+        <CardContent className="py-10 text-center">
+          <ShieldAlert className="h-10 w-10 mx-auto text-destructive mb-3" />
+          <p className="font-medium">You don't have access to this page</p>
+          <p className="text-sm text-muted-foreground mt-2">
+            {role
+              ? "Ask the owner to change your role if you need access."
+              : "Your account has no role assigned yet. Ask the owner to set one up."}
+          </p>
+        </CardContent>
+      </Card>
+    );
   }
 
   return <>{children}</>;
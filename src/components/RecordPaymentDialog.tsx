@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { format, parseISO } from "date-fns";
+import { IndianRupee, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { db } from "@/lib/firebase";
+import {
+  getAmountDue,
+  getPaymentMethodLabel,
+  getWorkTotal,
+  PayableWork,
+  Payment,
+  PAYMENT_METHODS,
+  PaymentMethod,
+  recordPayment,
+} from "@/lib/payments";
+
+interface RecordPaymentDialogProps {
+  work: PayableWork | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Record a (full or partial) payment for a work
+ * Open it by passing a work; it closes itself once the payment is saved.
+ */
+export function RecordPaymentDialog({ work, onOpenChange }: RecordPaymentDialogProps) {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    amount: "",
+    method: "cash" as PaymentMethod,
+    date: "",
+    reference: "",
+    note: "",
+  });
+
+  useEffect(() => {
+    if (!work) return;
+
+    setFormData({
+      amount: String(getAmountDue(work) || ""),
+      method: "cash",
+      date: format(new Date(), "yyyy-MM-dd"),
+      reference: "",
+      note: "",
+    });
+
+    getDocs(query(collection(db, "payments"), where("workId", "==", work.id)))
+      .then((snapshot) =>
+        setPayments(
+          snapshot.docs
+            .map((d) => ({ id: d.id, ...d.data() }) as Payment)
+            .sort((a, b) => b.date.localeCompare(a.date))
+        )
+      )
+      .catch((error) => {
+        console.error("Error loading payments:", error);
+        setPayments([]);
+      });
+  }, [work]);
+
+  const due = work ? getAmountDue(work) : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!work) return;
+
+    const amount = Number(formData.amount);
+    if (!amount || amount <= 0) {
+      toast.error("Please enter the amount received");
+      return;
+    }
+    if (amount > due) {
+      toast.error(`Amount is more than the ₹${due.toLocaleString()} due`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await recordPayment(work, {
+        amount,
+        method: formData.method,
+        date: formData.date,
+        reference: formData.reference.trim(),
+        note: formData.note.trim(),
+      });
+      toast.success(`₹${amount.toLocaleString()} received from ${work.customerName}`, {
+        description: amount < due ? `₹${(due - amount).toLocaleString()} still due` : "Fully paid",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      toast.error("Failed to record payment");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!work} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>
+            {work?.customerName} - Total ₹{work ? getWorkTotal(work).toLocaleString() : 0}, due ₹
+            {due.toLocaleString()}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="paymentAmount">Amount (₹)</Label>
+              <Input
+                id="paymentAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paymentMethod">Method</Label>
+              <Select
+                value={formData.method}
+                onValueChange={(value) => setFormData({ ...formData, method: value as PaymentMethod })}
+              >
+                <SelectTrigger id="paymentMethod">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paymentDate">Date</Label>
+              <Input
+                id="paymentDate"
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                required
+              />
+            </div>
+            {formData.method !== "cash" && (
+              <div className="space-y-2">
+                <Label htmlFor="paymentReference">
+                  {formData.method === "cheque" ? "Cheque No." : "Transaction ID"}
+                </Label>
+                <Input
+                  id="paymentReference"
+                  value={formData.reference}
+                  onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="paymentNote">Note (Optional)</Label>
+            <Input
+              id="paymentNote"
+              value={formData.note}
+              onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+            />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <IndianRupee className="h-4 w-4 mr-2" />}
+            Record Payment
+          </Button>
+        </form>
+
+        {payments.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <p className="text-sm font-medium">Payments received</p>
+            {payments.map((payment) => (
+              <div key={payment.id} className="flex justify-between text-sm text-muted-foreground">
+                <span>
+                  {format(parseISO(payment.date), "dd/MM/yyyy")} · {getPaymentMethodLabel(payment.method)}
+                  {payment.reference ? ` (${payment.reference})` : ""}
+                </span>
+                <span>₹{Number(payment.amount || 0).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
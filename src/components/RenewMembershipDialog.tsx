@@ -0,0 +1,253 @@
+import { useEffect, useState } from "react";
+import { collection, getDocs, orderBy, query } from "firebase/firestore";
+import { addDays, format, parseISO } from "date-fns";
+import { Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { useFirestore } from "@/hooks/useFirestore";
+import { db } from "@/lib/firebase";
+import {
+  calculateEndDate,
+  getDaysRemaining,
+  getEndDate,
+  MEMBERSHIP_DURATIONS,
+  parseRate,
+  renewMembership,
+  RenewableMember,
+} from "@/lib/membership";
+import { generateVisitsForMember, VISIT_FREQUENCIES } from "@/lib/visits";
+
+interface Employee {
+  id: string;
+  name: string;
+}
+
+interface Renewal {
+  id: string;
+  startDate: string;
+  endDate: string | null;
+  membershipDuration: string;
+  rate: string;
+}
+
+interface RenewMembershipDialogProps {
+  member: RenewableMember | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NO_WORKER = "none";
+
+/**
+ * Renew a membership for another period
+ * Open it by passing a member; it closes itself once the renewal is saved.
+ */
+export function RenewMembershipDialog({ member, onOpenChange }: RenewMembershipDialogProps) {
+  const { data: employees } = useFirestore<Employee>("employees");
+  const [renewals, setRenewals] = useState<Renewal[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    membershipDuration: "",
+    rate: "",
+    startDate: "",
+    visitFrequency: "once",
+    assignedTo: NO_WORKER,
+    secondWorker: NO_WORKER,
+  });
+
+  useEffect(() => {
+    if (!member) return;
+
+    // A running membership continues the day after it ends; an expired one restarts today
+    const endDate = getEndDate(member);
+    const startDate =
+      endDate && getDaysRemaining(endDate) >= 0
+        ? format(addDays(parseISO(endDate), 1), "yyyy-MM-dd")
+        : format(new Date(), "yyyy-MM-dd");
+
+    setFormData({
+      membershipDuration: member.membershipDuration || "",
+      rate: String(parseRate(member.rate) || ""),
+      startDate,
+      visitFrequency: member.visitFrequency || "once",
+      assignedTo: NO_WORKER,
+      secondWorker: NO_WORKER,
+    });
+
+    const renewalsRef = collection(db, "membershipMembers", member.id, "renewals");
+    getDocs(query(renewalsRef, orderBy("renewedAt", "desc")))
+      .then((snapshot) => setRenewals(snapshot.docs.map((d) => ({ id: d.id, ...d.data() }) as Renewal)))
+      .catch((error) => {
+        console.error("Error loading renewal history:", error);
+        setRenewals([]);
+      });
+  }, [member]);
+
+  const newEndDate = calculateEndDate(formData.startDate, formData.membershipDuration);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!member) return;
+
+    if (!formData.membershipDuration) {
+      toast.error("Please select membership duration");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const endDate = await renewMembership(member, {
+        membershipDuration: formData.membershipDuration,
+        rate: formData.rate,
+        startDate: formData.startDate,
+        visitFrequency: formData.visitFrequency,
+        assignedTo: formData.assignedTo === NO_WORKER ? "" : formData.assignedTo,
+        secondWorker: formData.secondWorker === NO_WORKER ? "" : formData.secondWorker,
+      });
+      await generateVisitsForMember({
+        ...member,
+        periodStart: formData.startDate,
+        membershipDuration: formData.membershipDuration,
+        visitFrequency: formData.visitFrequency,
+        endDate,
+        status: undefined,
+      });
+      toast.success(`${member.name}'s membership renewed`, {
+        description: `Valid until ${format(parseISO(endDate), "dd MMM yyyy")}. A pending work has been created.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error renewing membership:", error);
+      toast.error("Failed to renew membership");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderWorkerSelect = (field: "assignedTo" | "secondWorker", label: string) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={formData[field]} onValueChange={(value) => setFormData({ ...formData, [field]: value })}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_WORKER}>Not assigned</SelectItem>
+          {employees.map((employee) => (
+            <SelectItem key={employee.id} value={employee.id}>
+              {employee.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={!!member} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Renew Membership</DialogTitle>
+          <DialogDescription>
+            {member?.name} - {member?.membershipType}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="renewDuration">Duration</Label>
+              <Select
+                value={formData.membershipDuration}
+                onValueChange={(value) => setFormData({ ...formData, membershipDuration: value })}
+              >
+                <SelectTrigger id="renewDuration">
+                  <SelectValue placeholder="Select duration" />
+                </SelectTrigger>
+                <SelectContent>
+                  {MEMBERSHIP_DURATIONS.map((duration) => (
+                    <SelectItem key={duration.value} value={duration.value}>
+                      {duration.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="renewRate">Rate (₹)</Label>
+              <Input
+                id="renewRate"
+                type="number"
+                value={formData.rate}
+                onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="renewFrequency">Visit Frequency</Label>
+            <Select
+              value={formData.visitFrequency}
+              onValueChange={(value) => setFormData({ ...formData, visitFrequency: value })}
+            >
+              <SelectTrigger id="renewFrequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VISIT_FREQUENCIES.map((frequency) => (
+                  <SelectItem key={frequency.value} value={frequency.value}>
+                    {frequency.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="renewStart">Start Date</Label>
+            <Input
+              id="renewStart"
+              type="date"
+              value={formData.startDate}
+              onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+              required
+            />
+            {newEndDate && (
+              <p className="text-xs text-muted-foreground">
+                New period ends on {format(parseISO(newEndDate), "dd MMM yyyy")}
+              </p>
+            )}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            {renderWorkerSelect("assignedTo", "First Worker (Optional)")}
+            {renderWorkerSelect("secondWorker", "Second Worker (Optional)")}
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Renew Membership
+          </Button>
+        </form>
+
+        {renewals.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <p className="text-sm font-medium">Previous periods</p>
+            {renewals.map((renewal) => (
+              <div key={renewal.id} className="flex justify-between text-sm text-muted-foreground">
+                <span>
+                  {renewal.startDate} → {renewal.endDate || "-"}
+                </span>
+                <span>{renewal.rate}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
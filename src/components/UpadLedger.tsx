@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Ban, Edit, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { editUpad, getBalanceChange, getUpadLedger, UPAD_TYPE_LABELS, UpadEntry, voidUpad } from "@/lib/upads";
+import { getLockedMonthMessage, isMonthLocked, MonthLock } from "@/lib/monthLocks";
+
+interface UpadLedgerProps {
+  employeeId: string;
+  month: string; // yyyy-MM
+  entries: UpadEntry[];
+  canEdit: boolean;
+  monthLocks: MonthLock[];
+}
+
+const formatBalance = (amount: number) => `${amount < 0 ? "-" : ""}₹${Math.abs(amount).toLocaleString()}`;
+
+/**
+ * A worker's advance ledger for one month with a running balance
+ * Entries can be corrected or voided with a reason; payroll deductions and entries in locked months are fixed.
+ */
+export function UpadLedger({ employeeId, month, entries, canEdit, monthLocks }: UpadLedgerProps) {
+  const [editing, setEditing] = useState<{ id: string; amount: string; date: string; note: string; reason: string } | null>(
+    null
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { opening, rows, given, recovered, closing } = getUpadLedger(entries, employeeId, month);
+
+  const startEdit = (entry: UpadEntry) => {
+    setEditing({ id: entry.id, amount: String(entry.amount), date: entry.date, note: entry.note || "", reason: "" });
+  };
+
+  const handleSaveEdit = async (entry: UpadEntry) => {
+    if (!editing) return;
+
+    const amount = parseFloat(editing.amount);
+    if (isNaN(amount) || amount <= 0) {
+      toast.error("Please enter a valid amount greater than 0");
+      return;
+    }
+    if (!editing.date) {
+      toast.error("Please select a date");
+      return;
+    }
+    if (!editing.reason.trim()) {
+      toast.error("Please enter the reason for this correction");
+      return;
+    }
+    if (isMonthLocked(monthLocks, editing.date)) {
+      toast.error(getLockedMonthMessage(editing.date));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await editUpad(entry, { amount, date: editing.date, note: editing.note.trim() }, editing.reason.trim());
+      setEditing(null);
+      toast.success("Entry corrected");
+    } catch (error) {
+      console.error("Error correcting upad:", error);
+      toast.error("Failed to correct entry");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleVoid = async (entry: UpadEntry) => {
+    const reason = prompt(`Why is this ${UPAD_TYPE_LABELS[entry.type || "advance"].toLowerCase()} of ₹${entry.amount} being voided?`);
+    if (reason === null) return;
+    if (!reason.trim()) {
+      toast.error("A reason is required to void an entry");
+      return;
+    }
+
+    try {
+      await voidUpad(entry, reason.trim());
+      toast.success("Entry voided");
+    } catch (error) {
+      console.error("Error voiding upad:", error);
+      toast.error("Failed to void entry");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm border-b pb-1">
+        <span className="text-muted-foreground">Balance brought forward</span>
+        <span className="font-medium">{formatBalance(opening)}</span>
+      </div>
+
+      {rows.length === 0 && <div className="text-sm text-muted-foreground">No entries this month</div>}
+
+      {rows.map(({ entry, balance }) => {
+        const change = getBalanceChange(entry);
+        const isEditing = editing?.id === entry.id;
+
+        if (isEditing && editing) {
+          return (
+            <div key={entry.id} className="space-y-2 rounded border p-2">
+              <div className="grid gap-2 md:grid-cols-3">
+                <Input
+                  type="number"
+                  min="0"
+                  value={editing.amount}
+                  onChange={(e) => setEditing({ ...editing, amount: e.target.value })}
+                  placeholder="Amount (₹)"
+                />
+                <Input type="date" value={editing.date} onChange={(e) => setEditing({ ...editing, date: e.target.value })} />
+                <Input
+                  value={editing.note}
+                  onChange={(e) => setEditing({ ...editing, note: e.target.value })}
+                  placeholder="Note (optional)"
+                />
+              </div>
+              <Input
+                value={editing.reason}
+                onChange={(e) => setEditing({ ...editing, reason: e.target.value })}
+                placeholder="Reason for correction"
+              />
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={() => handleSaveEdit(entry)} disabled={isSaving}>
+                  {isSaving && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          );
+        }
+
+        return (
+          <div key={entry.id} className="flex justify-between gap-2 text-sm">
+            <div>
+              <div className={entry.voided ? "text-muted-foreground line-through" : ""}>
+                {format(parseISO(entry.date), "dd/MM/yyyy")} · {UPAD_TYPE_LABELS[entry.type || "advance"]}
+              </div>
+              {entry.note && <div className="text-xs text-muted-foreground">{entry.note}</div>}
+              {entry.voided && <div className="text-xs text-red-600">Voided: {entry.voidReason}</div>}
+              {!entry.voided && entry.edits?.length ? (
+                <div className="text-xs text-muted-foreground">
+                  Corrected: {entry.edits[entry.edits.length - 1].reason}
+                </div>
+              ) : null}
+            </div>
+            <div className="flex items-start gap-3">
+              <div className={`font-medium ${entry.voided ? "text-muted-foreground line-through" : change > 0 ? "text-red-600" : "text-green-600"}`}>
+                {entry.voided ? `₹${entry.amount.toLocaleString()}` : `${change > 0 ? "+" : "-"}₹${Math.abs(change).toLocaleString()}`}
+              </div>
+              <div className="w-20 text-right text-muted-foreground">{formatBalance(balance)}</div>
+              {canEdit && !entry.voided && !entry.payrollMonth && !isMonthLocked(monthLocks, entry.date) && (
+                <div className="flex gap-1">
+                  <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => startEdit(entry)} title="Correct">
+                    <Edit className="h-3 w-3" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => handleVoid(entry)} title="Void">
+                    <Ban className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="border-t pt-2 space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Given this month</span>
+          <span className="font-medium">₹{given.toLocaleString()}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Recovered this month</span>
+          <span className="font-medium">₹{recovered.toLocaleString()}</span>
+        </div>
+        <div className="flex justify-between font-bold">
+          <span>Balance carried forward</span>
+          <span className={closing > 0 ? "text-red-600" : ""}>{formatBalance(closing)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { syncAllMembershipStatuses } from "@/lib/membership";
+import { generateMembershipVisits } from "@/lib/visits";
+
+/**
+ * Refreshes membership statuses and creates the upcoming membership visits
+ * once someone who can schedule works logs in
+ */
+export function VisitScheduler() {
+  const { can } = useAuth();
+  const canSchedule = can("members.edit") && can("works.create");
+
+  useEffect(() => {
+    if (!canSchedule) return;
+
+    syncAllMembershipStatuses()
+      .catch((error) => {
+        console.error("Error syncing membership statuses:", error);
+      })
+      .then(() => generateMembershipVisits())
+      .then((created) => {
+        if (created > 0) {
+          toast.success(`Scheduled ${created} upcoming membership visit${created > 1 ? "s" : ""}`);
+        }
+      })
+      .catch((error) => {
+        console.error("Error scheduling membership visits:", error);
+      });
+  }, [canSchedule]);
+
+  return null;
+}
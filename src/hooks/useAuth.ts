@@ -0,0 +1,39 @@
+import { createContext, useContext } from "react";
+import type { User } from "firebase/auth";
+import type { Permission, Role } from "@/lib/permissions";
+
+/**
+ * Profile stored in `users/{uid}` next to the Firebase Auth account
+ */
+export interface UserProfile {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+  employeeId?: string; // linked employee for field workers
+  active?: boolean;
+}
+
+export interface AuthContextValue {
+  user: User | null;
+  profile: UserProfile | null;
+  role: Role | null;
+  loading: boolean;
+  can: (permission: Permission) => boolean;
+  signIn: (email: string, password: string) => Promise<User>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+/**
+ * Access the current Firebase user, their role and auth actions
+ * Must be used inside <AuthProvider>
+ */
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
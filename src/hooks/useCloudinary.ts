@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { toast } from "sonner";
+import { deleteCloudinaryImage } from "@/lib/cloudinaryDelete";
 
 export interface CloudinaryUploadProgress {
   progress: number;
@@ -151,14 +152,17 @@ export function useCloudinary() {
 
   /**
    * Delete an image from Cloudinary
-   * Note: This requires a backend endpoint as deletion requires authentication
-   * For now, this is a placeholder that returns success
+   * Goes through the /api/delete-image endpoint since deletion needs the API secret
+   * @returns true if Cloudinary confirmed the deletion
    */
-  const deleteImage = async (imageUrl: string): Promise<void> => {
-    console.log("Delete image:", imageUrl);
-    // Note: Actual deletion requires server-side implementation
-    // Cloudinary doesn't support unsigned deletion for security reasons
-    toast.info("Image marked for deletion");
+  const deleteImage = async (imageUrl: string): Promise<boolean> => {
+    const deleted = await deleteCloudinaryImage(imageUrl);
+    if (deleted) {
+      toast.success("Image deleted");
+    } else {
+      toast.error("Failed to delete image from Cloudinary");
+    }
+    return deleted;
   };
 
   /**
@@ -12,6 +12,8 @@ import {
   Timestamp,
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { canDeleteFromCollection } from "@/lib/permissions";
+import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
 
 export interface FirestoreDocument extends DocumentData {
@@ -29,6 +31,7 @@ export function useFirestore<T extends FirestoreDocument>(
   collectionName: string,
   ...queryConstraints: QueryConstraint[]
 ) {
+  const { role } = useAuth();
   const [data, setData] = useState<T[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
@@ -102,6 +105,13 @@ export function useFirestore<T extends FirestoreDocument>(
   };
 
   const deleteDocument = async (id: string) => {
+    // Refuse destructive actions the role isn't allowed to do (rules enforce this server-side too)
+    if (!canDeleteFromCollection(role, collectionName)) {
+      const err = new Error(`Permission denied: cannot delete from ${collectionName}`);
+      toast.error("You don't have permission to delete this");
+      throw err;
+    }
+
     try {
       const docRef = doc(db, collectionName, id);
       await deleteDoc(docRef);
@@ -0,0 +1,18 @@
+import { orderBy } from "firebase/firestore";
+import { useFirestore } from "@/hooks/useFirestore";
+import { DEFAULT_SERVICES, Service } from "@/lib/services";
+
+/**
+ * Active services from the catalog, for pickers in forms
+ * Falls back to the built-in list until the catalog has been created.
+ */
+export function useServices() {
+  const { data, loading } = useFirestore<Service>("services", orderBy("nameEn"));
+
+  const services: Service[] =
+    !loading && data.length === 0
+      ? DEFAULT_SERVICES.map((service) => ({ ...service, id: service.nameGu }))
+      : data.filter((service) => service.active !== false);
+
+  return { services, loading };
+}
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getDocs, runTransaction } from "firebase/firestore";
+import { attendanceDocId, getAttendanceTimeFields, saveAttendanceRecords } from "./attendance";
+
+vi.mock("./firebase", () => ({ db: {} }));
+vi.mock("firebase/firestore", () => ({
+  collection: (_db: unknown, name: string) => ({ name }),
+  query: (ref: unknown, filter: unknown) => ({ ref, filter }),
+  where: (field: string, _op: string, value: string) => ({ field, value }),
+  doc: (_db: unknown, name: string, id: string) => ({ name, id }),
+  getDocs: vi.fn(),
+  runTransaction: vi.fn(),
+  Timestamp: { now: () => "now" },
+}));
+
+const SHIFT = { shiftStart: "09:00", shiftHours: 8, overtimeRate: 1.5 };
+
+// Server state: records found by the date query, and ids that exist when the transaction reads them
+let byDate: { employeeId: string; date: string }[] = [];
+let existingIds = new Set<string>();
+let written: Record<string, Record<string, unknown>> = {};
+let transactionSizes: number[] = [];
+
+const record = (employeeId: string, date = "2024-03-05") => ({
+  employeeId,
+  employeeName: employeeId,
+  date,
+  status: "present",
+});
+
+describe("getAttendanceTimeFields", () => {
+  it("works out hours and overtime for a full day, keeping the shift in force", () => {
+    expect(getAttendanceTimeFields("present", { checkIn: "09:00", checkOut: "19:30" }, SHIFT)).toEqual({
+      checkIn: "09:00",
+      checkOut: "19:30",
+      workHours: 10.5,
+      overtimeHours: 2.5,
+      shiftHours: 8,
+      overtimeRate: 1.5,
+    });
+  });
+
+  it("gives no overtime for a half day and no hours for a day off", () => {
+    expect(getAttendanceTimeFields("half-day", { checkIn: "09:00", checkOut: "19:00" }, SHIFT).overtimeHours).toBe(0);
+    expect(getAttendanceTimeFields("absent", { checkIn: "09:00", checkOut: "19:00" }, SHIFT)).toEqual({
+      checkIn: "",
+      checkOut: "",
+      workHours: 0,
+      overtimeHours: 0,
+    });
+  });
+});
+
+describe("saveAttendanceRecords", () => {
+  beforeEach(() => {
+    byDate = [];
+    existingIds = new Set();
+    written = {};
+    transactionSizes = [];
+
+    vi.mocked(getDocs).mockImplementation((async (q: { filter: { value: string } }) => ({
+      docs: byDate.filter((r) => r.date === q.filter.value).map((r) => ({ data: () => r })),
+    })) as unknown as typeof getDocs);
+
+    vi.mocked(runTransaction).mockImplementation((async (
+      _db: unknown,
+      update: (transaction: unknown) => Promise<unknown>
+    ) => {
+      const writes: Record<string, Record<string, unknown>> = {};
+      const outcome = await update({
+        get: async (ref: { id: string }) => ({ exists: () => existingIds.has(ref.id) }),
+        set: (ref: { id: string }, data: Record<string, unknown>) => {
+          writes[ref.id] = data;
+        },
+      });
+      transactionSizes.push(Object.keys(writes).length);
+      Object.assign(written, writes);
+      return outcome;
+    }) as unknown as typeof runTransaction);
+  });
+
+  it("creates each record under its worker-and-day id", async () => {
+    const result = await saveAttendanceRecords([record("w1"), record("w2")]);
+
+    expect(result.saved).toHaveLength(2);
+    expect(result.skipped).toEqual([]);
+    expect(Object.keys(written)).toEqual(["w1_2024-03-05", "w2_2024-03-05"]);
+    expect(written["w1_2024-03-05"]).toMatchObject({ status: "present", createdAt: "now" });
+  });
+
+  it("skips a record created after the page loaded instead of overwriting it", async () => {
+    existingIds.add(attendanceDocId("w2", "2024-03-05")); // e.g. the worker's own self check-in
+
+    const result = await saveAttendanceRecords([record("w1"), record("w2")]);
+
+    expect(result.saved.map((r) => r.employeeId)).toEqual(["w1"]);
+    expect(result.skipped.map((r) => r.employeeId)).toEqual(["w2"]);
+    expect(Object.keys(written)).toEqual(["w1_2024-03-05"]);
+  });
+
+  it("skips workers who already have an older random-id record for the day", async () => {
+    byDate = [{ employeeId: "w1", date: "2024-03-05" }];
+
+    const result = await saveAttendanceRecords([record("w1"), record("w2"), record("w1", "2024-03-06")]);
+
+    expect(result.skipped.map((r) => `${r.employeeId}_${r.date}`)).toEqual(["w1_2024-03-05"]);
+    expect(Object.keys(written).sort()).toEqual(["w1_2024-03-06", "w2_2024-03-05"]);
+  });
+
+  it("never saves the same worker and day twice from one call", async () => {
+    const result = await saveAttendanceRecords([record("w1"), record("w1")]);
+
+    expect(result.saved).toHaveLength(1);
+    expect(result.skipped).toHaveLength(1);
+  });
+
+  it("writes at most 500 records per transaction", async () => {
+    const records = Array.from({ length: 1200 }, (_, i) => record(`w${i}`));
+
+    const result = await saveAttendanceRecords(records);
+
+    expect(result.saved).toHaveLength(1200);
+    expect(transactionSizes).toEqual([500, 500, 200]);
+  });
+});
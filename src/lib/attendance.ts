@@ -0,0 +1,159 @@
+import { collection, doc, getDocs, query, runTransaction, Timestamp, where } from "firebase/firestore";
+import { db } from "./firebase";
+
+/**
+ * Attendance times and overtime
+ * Check-in and check-out are "HH:mm" strings on the attendance record. Work hours and overtime
+ * are worked out from them when the record is saved, and the record keeps the shift length and
+ * overtime rate in force that day so changing the settings later doesn't change past pay.
+ * Each worker has one record per day, stored as `attendance/{employeeId}_{date}`.
+ */
+
+export type AttendanceStatus = "present" | "absent" | "half-day" | "leave" | "holiday" | "week-off";
+
+export interface ShiftSettings {
+  shiftStart: string; // HH:mm
+  shiftHours: number;
+  overtimeRate: number;
+}
+
+export type NewAttendanceRecord = { employeeId: string; date: string } & Record<string, unknown>;
+
+export interface AttendanceTimes {
+  checkIn: string;
+  checkOut: string;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const toTime = (minutes: number) => {
+  const clamped = Math.min(Math.max(Math.round(minutes), 0), 23 * 60 + 59);
+  return `${String(Math.floor(clamped / 60)).padStart(2, "0")}:${String(clamped % 60).padStart(2, "0")}`;
+};
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+/**
+ * Whether the status means the worker came in (and so has check-in/check-out times)
+ */
+export const isWorkingStatus = (status: AttendanceStatus) => status === "present" || status === "half-day";
+
+/**
+ * Hours between check-in and check-out (0 if either is missing)
+ */
+export const getWorkHours = (checkIn: string | undefined, checkOut: string | undefined) => {
+  if (!checkIn || !checkOut) return 0;
+  return Math.max(roundHours((toMinutes(checkOut) - toMinutes(checkIn)) / 60), 0);
+};
+
+/**
+ * Times to pre-fill for a status: a full or half shift from the usual start time
+ */
+export const getDefaultTimes = (status: AttendanceStatus, shift: ShiftSettings): AttendanceTimes => {
+  if (!isWorkingStatus(status)) return { checkIn: "", checkOut: "" };
+  const hours = status === "half-day" ? shift.shiftHours / 2 : shift.shiftHours;
+  return { checkIn: shift.shiftStart, checkOut: toTime(toMinutes(shift.shiftStart) + hours * 60) };
+};
+
+/**
+ * Check the entered times, returning an error message or null
+ */
+export const validateAttendanceTimes = (status: AttendanceStatus, times: AttendanceTimes): string | null => {
+  if (!isWorkingStatus(status)) return null;
+  if (!times.checkIn) return "Please enter the check-in time";
+  if (times.checkOut && toMinutes(times.checkOut) <= toMinutes(times.checkIn)) {
+    return "Check-out must be after check-in";
+  }
+  return null;
+};
+
+/**
+ * Time, work hour and overtime fields to save on an attendance record
+ * Only a full day (present) earns overtime; a record without check-out has no hours yet.
+ */
+export const getAttendanceTimeFields = (status: AttendanceStatus, times: AttendanceTimes, shift: ShiftSettings) => {
+  if (!isWorkingStatus(status)) {
+    return { checkIn: "", checkOut: "", workHours: 0, overtimeHours: 0 };
+  }
+
+  const workHours = getWorkHours(times.checkIn, times.checkOut);
+  const overtimeHours = status === "present" ? Math.max(roundHours(workHours - shift.shiftHours), 0) : 0;
+
+  return {
+    checkIn: times.checkIn,
+    checkOut: times.checkOut,
+    workHours,
+    overtimeHours,
+    shiftHours: shift.shiftHours,
+    overtimeRate: shift.overtimeRate,
+  };
+};
+
+/**
+ * Id of a worker's attendance record for a day (older records may still have random ids)
+ */
+export const attendanceDocId = (employeeId: string, date: string) => `${employeeId}_${date}`;
+
+export interface SaveAttendanceResult {
+  saved: NewAttendanceRecord[];
+  skipped: NewAttendanceRecord[]; // the worker already had a record for that day
+}
+
+// A transaction holds at most 500 writes
+const TRANSACTION_LIMIT = 500;
+
+/**
+ * Create new attendance records without touching any that already exist
+ * Records go to their `attendanceDocId` and are created in transactions that read those ids first,
+ * so a record saved after the page loaded (another supervisor's marking, a worker's self check-in)
+ * is skipped and reported instead of overwritten. Older records with random ids are found by date
+ * beforehand. Each transaction saves all of its records or none of them.
+ */
+export const saveAttendanceRecords = async (records: NewAttendanceRecord[]): Promise<SaveAttendanceResult> => {
+  const result: SaveAttendanceResult = { saved: [], skipped: [] };
+
+  const dates = [...new Set(records.map((record) => record.date))];
+  const snapshots = await Promise.all(
+    dates.map((date) => getDocs(query(collection(db, "attendance"), where("date", "==", date))))
+  );
+  const taken = new Set(
+    snapshots.flatMap((snapshot) => snapshot.docs.map((d) => attendanceDocId(d.data().employeeId, d.data().date)))
+  );
+
+  const pending = records.filter((record) => {
+    const id = attendanceDocId(record.employeeId, record.date);
+    if (taken.has(id)) {
+      result.skipped.push(record);
+      return false;
+    }
+    taken.add(id);
+    return true;
+  });
+
+  for (let i = 0; i < pending.length; i += TRANSACTION_LIMIT) {
+    const chunk = pending.slice(i, i + TRANSACTION_LIMIT);
+    const outcome = await runTransaction(db, async (transaction) => {
+      const refs = chunk.map((record) => doc(db, "attendance", attendanceDocId(record.employeeId, record.date)));
+      const existing = await Promise.all(refs.map((ref) => transaction.get(ref)));
+      const saved: NewAttendanceRecord[] = [];
+      const skipped: NewAttendanceRecord[] = [];
+
+      chunk.forEach((record, index) => {
+        if (existing[index].exists()) {
+          skipped.push(record);
+          return;
+        }
+        transaction.set(refs[index], { ...record, createdAt: Timestamp.now(), updatedAt: Timestamp.now() });
+        saved.push(record);
+      });
+      return { saved, skipped };
+    });
+    result.saved.push(...outcome.saved);
+    result.skipped.push(...outcome.skipped);
+  }
+
+  return result;
+};
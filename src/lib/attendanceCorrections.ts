@@ -0,0 +1,93 @@
+import { arrayUnion, doc, Timestamp, writeBatch } from "firebase/firestore";
+import { db } from "./firebase";
+import { AttendanceStatus, getAttendanceTimeFields, ShiftSettings } from "./attendance";
+
+/**
+ * Attendance corrections
+ * A past attendance record is not edited directly: a correction request in `attendanceCorrections`
+ * keeps the old and new values, the reason and who asked. Approving it updates the record and
+ * appends the change to the record's `corrections` list, so the history stays on the record.
+ */
+
+export type CorrectionStatus = "pending" | "approved" | "rejected";
+
+export interface AttendanceValue {
+  status: AttendanceStatus;
+  checkIn: string;
+  checkOut: string;
+}
+
+export interface AttendanceCorrection {
+  id: string;
+  recordId: string;
+  employeeId: string;
+  employeeName: string;
+  date: string; // yyyy-MM-dd of the attendance record
+  previous: AttendanceValue;
+  requested: AttendanceValue;
+  reason: string;
+  requestedBy: string;
+  status: CorrectionStatus;
+  decidedBy?: string;
+  decidedAt?: Timestamp;
+  rejectionReason?: string;
+  createdAt?: Timestamp;
+}
+
+// Kept on the attendance record for each approved correction
+export interface CorrectionHistoryEntry {
+  correctionId: string;
+  previous: AttendanceValue;
+  requested: AttendanceValue;
+  reason: string;
+  requestedBy: string;
+  approvedBy: string;
+  approvedAt: Timestamp;
+}
+
+/**
+ * Short description of an attendance value, e.g. "present 09:00-19:30"
+ */
+export const describeAttendanceValue = (value: AttendanceValue) =>
+  value.checkIn ? `${value.status} ${value.checkIn}-${value.checkOut || "?"}` : value.status;
+
+/**
+ * Apply an approved correction to its attendance record, in one batch with the approval
+ * Work hours and overtime are worked out again with the shift length and rate the record was saved with.
+ */
+export const approveAttendanceCorrection = async (
+  correction: AttendanceCorrection,
+  record: { shiftHours?: number; overtimeRate?: number },
+  shift: ShiftSettings,
+  approvedBy: string
+) => {
+  const batch = writeBatch(db);
+  const history: CorrectionHistoryEntry = {
+    correctionId: correction.id,
+    previous: correction.previous,
+    requested: correction.requested,
+    reason: correction.reason,
+    requestedBy: correction.requestedBy,
+    approvedBy,
+    approvedAt: Timestamp.now(),
+  };
+
+  batch.update(doc(db, "attendance", correction.recordId), {
+    status: correction.requested.status,
+    ...getAttendanceTimeFields(correction.requested.status, correction.requested, {
+      ...shift,
+      shiftHours: record.shiftHours ?? shift.shiftHours,
+      overtimeRate: record.overtimeRate ?? shift.overtimeRate,
+    }),
+    corrections: arrayUnion(history),
+    updatedAt: Timestamp.now(),
+  });
+  batch.update(doc(db, "attendanceCorrections", correction.id), {
+    status: "approved",
+    decidedBy: approvedBy,
+    decidedAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+
+  await batch.commit();
+};
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { deleteDoc, getDoc, getDocs } from "firebase/firestore";
+import { deleteMultipleCloudinaryImages } from "./cloudinaryDelete";
+import { cascadeDeleteEmployee, getRelatedDataCounts } from "./cascadeDelete";
+
+vi.mock("./firebase", () => ({ db: {} }));
+vi.mock("./cloudinaryDelete", () => ({ deleteMultipleCloudinaryImages: vi.fn(async () => []) }));
+vi.mock("firebase/firestore", () => ({
+  collection: (_db: unknown, name: string) => ({ name }),
+  query: (ref: { name: string }) => ref,
+  where: vi.fn(),
+  doc: (_db: unknown, name: string, id: string) => ({ name, id }),
+  getDoc: vi.fn(),
+  getDocs: vi.fn(),
+  deleteDoc: vi.fn(async () => undefined),
+}));
+
+const snapshot = (docs: { id: string; data: Record<string, unknown> }[]) => ({
+  empty: docs.length === 0,
+  size: docs.length,
+  docs: docs.map((d) => ({ id: d.id, ref: { id: d.id }, data: () => d.data })),
+});
+
+// Collections as the mocked getDocs returns them
+let collections: Record<string, { id: string; data: Record<string, unknown> }[]> = {};
+
+describe("cascadeDeleteEmployee", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    collections = {
+      attendance: [
+        { id: "w1_2024-01-15", data: { employeeId: "w1", date: "2024-01-15" } },
+        { id: "w1_2024-02-10", data: { employeeId: "w1", date: "2024-02-10" } },
+      ],
+      monthLocks: [],
+    };
+    vi.mocked(getDocs).mockImplementation((async (ref: { name: string }) =>
+      snapshot(collections[ref.name] || [])) as unknown as typeof getDocs);
+    vi.mocked(getDoc).mockResolvedValue({
+      exists: () => true,
+      data: () => ({ photoUrl: "https://res.cloudinary.com/demo/image/upload/v1/employees/photos/w1.jpg" }),
+    } as unknown as Awaited<ReturnType<typeof getDoc>>);
+  });
+
+  it("deletes images and attendance when no month is locked", async () => {
+    const results = await cascadeDeleteEmployee("w1");
+
+    expect(deleteMultipleCloudinaryImages).toHaveBeenCalledTimes(1);
+    expect(deleteDoc).toHaveBeenCalledTimes(2);
+    expect(results.attendance).toBe(2);
+  });
+
+  it("refuses before touching images or attendance when the worker has a locked month", async () => {
+    collections.monthLocks = [{ id: "2024-01", data: { month: "2024-01", locked: true } }];
+
+    await expect(cascadeDeleteEmployee("w1")).rejects.toThrow("locked months (Jan 2024)");
+    expect(deleteMultipleCloudinaryImages).not.toHaveBeenCalled();
+    expect(deleteDoc).not.toHaveBeenCalled();
+  });
+
+  it("ignores reopened months", async () => {
+    collections.monthLocks = [{ id: "2024-01", data: { month: "2024-01", locked: false } }];
+
+    await cascadeDeleteEmployee("w1");
+    expect(deleteDoc).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports locked months in the counts shown before confirming", async () => {
+    collections.monthLocks = [
+      { id: "2024-01", data: { month: "2024-01", locked: true } },
+      { id: "2024-03", data: { month: "2024-03", locked: true } },
+    ];
+
+    const counts = await getRelatedDataCounts("w1");
+    expect(counts).toEqual({ attendance: 2, images: 1, lockedMonths: ["2024-01"] });
+  });
+});
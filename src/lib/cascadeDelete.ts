@@ -1,6 +1,8 @@
 import { collection, query, where, getDocs, deleteDoc, doc, getDoc } from "firebase/firestore";
+import { format, parseISO } from "date-fns";
 import { db } from "./firebase";
 import { deleteMultipleCloudinaryImages } from "./cloudinaryDelete";
+import { isMonthLocked, MonthLock } from "./monthLocks";
 
 /**
  * Delete all documents in a collection that match a field value
@@ -34,8 +36,31 @@ export const deleteRelatedDocuments = async (
   }
 };
 
+/**
+ * Locked months (yyyy-MM) in which the employee has attendance
+ * Attendance in a locked month can't be deleted, so neither can an employee with settled salaries
+ */
+export const getLockedAttendanceMonths = async (employeeId: string): Promise<string[]> => {
+  const [attendanceSnapshot, locksSnapshot] = await Promise.all([
+    getDocs(query(collection(db, "attendance"), where("employeeId", "==", employeeId))),
+    getDocs(collection(db, "monthLocks")),
+  ]);
+  const locks = locksSnapshot.docs.map((d) => ({ id: d.id, ...d.data() }) as MonthLock);
+  const months = new Set(attendanceSnapshot.docs.map((d) => String(d.data().date || "").slice(0, 7)));
+  return [...months].filter((month) => month && isMonthLocked(locks, month)).sort();
+};
+
+/**
+ * Message to show when an employee can't be deleted because of their locked months
+ */
+export const getLockedEmployeeMessage = (lockedMonths: string[]) =>
+  `This worker has attendance in locked months (${lockedMonths
+    .map((month) => format(parseISO(`${month}-01`), "MMM yyyy"))
+    .join(", ")}) and can't be deleted`;
+
 /**
  * Delete an employee and all their related data (cascade delete)
+ * Refuses before anything is deleted if the employee has attendance in a locked month.
  * @param employeeId - The employee ID to delete
  * @returns Object with deletion counts
  */
@@ -43,13 +68,20 @@ export const cascadeDeleteEmployee = async (employeeId: string) => {
   const results = {
     attendance: 0,
     images: 0,
+    imagesFailed: 0,
     // Add more collections here as needed in the future
     // payments: 0,
     // leaves: 0,
   };
 
   try {
-    // First, get the employee document to retrieve image URLs
+    // Check locks first: images can't be restored once the attendance delete fails halfway
+    const lockedMonths = await getLockedAttendanceMonths(employeeId);
+    if (lockedMonths.length > 0) {
+      throw new Error(getLockedEmployeeMessage(lockedMonths));
+    }
+
+    // Then get the employee document to retrieve image URLs
     const employeeRef = doc(db, "employees", employeeId);
     const employeeDoc = await getDoc(employeeRef);
     
@@ -68,7 +100,9 @@ export const cascadeDeleteEmployee = async (employeeId: string) => {
       // Delete images from Cloudinary
       if (imageUrls.length > 0) {
         console.log(`Deleting ${imageUrls.length} images from Cloudinary...`);
-        results.images = await deleteMultipleCloudinaryImages(imageUrls);
+        const imageResults = await deleteMultipleCloudinaryImages(imageUrls);
+        results.images = imageResults.filter(r => r.deleted).length;
+        results.imagesFailed = imageResults.filter(r => !r.deleted).length;
       }
     }
     
@@ -95,6 +129,7 @@ export const getRelatedDataCounts = async (employeeId: string) => {
   const counts = {
     attendance: 0,
     images: 0,
+    lockedMonths: [] as string[],
   };
 
   try {
@@ -103,6 +138,7 @@ export const getRelatedDataCounts = async (employeeId: string) => {
     const attendanceQuery = query(attendanceRef, where("employeeId", "==", employeeId));
     const attendanceSnapshot = await getDocs(attendanceQuery);
     counts.attendance = attendanceSnapshot.size;
+    counts.lockedMonths = await getLockedAttendanceMonths(employeeId);
 
     // Count images
     const employeeRef = doc(db, "employees", employeeId);
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { deleteCloudinaryImage, deleteMultipleCloudinaryImages, extractPublicId } from "./cloudinaryDelete";
+
+vi.mock("./firebase", () => ({
+  auth: { currentUser: { getIdToken: async () => "id-token" } },
+}));
+
+const PHOTO_URL = "https://res.cloudinary.com/demo/image/upload/v1700000000/employees/photos/123_photo.jpg";
+
+describe("extractPublicId", () => {
+  it("returns the public_id of a Cloudinary image URL", () => {
+    expect(extractPublicId(PHOTO_URL)).toBe("employees/photos/123_photo");
+  });
+
+  it("drops transformations from the public_id", () => {
+    expect(
+      extractPublicId("https://res.cloudinary.com/demo/image/upload/q_auto,f_auto/employees/photos/123_photo.jpg")
+    ).toBe("employees/photos/123_photo");
+  });
+
+  it("returns null for a non-Cloudinary URL, even if its path looks like one", () => {
+    expect(extractPublicId("https://example.com/demo/image/upload/v1/employees/photos/123_photo.jpg")).toBeNull();
+    expect(extractPublicId("https://firebasestorage.googleapis.com/v0/b/demo/o/photo.jpg")).toBeNull();
+  });
+
+  it("returns null when the public_id can't be parsed", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(extractPublicId("")).toBeNull();
+    expect(extractPublicId("not a url")).toBeNull();
+    expect(extractPublicId("https://res.cloudinary.com/demo/image/upload/v1700000000/")).toBeNull();
+    expect(extractPublicId("https://res.cloudinary.com/demo/image/upload/employees/photos/no_extension")).toBeNull();
+  });
+});
+
+describe("deleteMultipleCloudinaryImages", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("never sends URLs it can't map to a public_id", async () => {
+    const results = await deleteMultipleCloudinaryImages([
+      "https://example.com/image/upload/v1/employees/photos/123_photo.jpg",
+      "https://res.cloudinary.com/demo/image/upload/v1700000000/",
+    ]);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(results).toHaveLength(2);
+    results.forEach((result) => {
+      expect(result.deleted).toBe(false);
+      expect(result.error).toBe("Could not extract public_id from URL");
+    });
+  });
+
+  it("sends the caller's token and only the parsed public_ids", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ results: [{ publicId: "employees/photos/123_photo", deleted: true }] }), {
+        status: 200,
+      })
+    );
+
+    const results = await deleteMultipleCloudinaryImages([PHOTO_URL, "https://example.com/photo.jpg"]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [endpoint, init] = fetchMock.mock.calls[0];
+    expect(endpoint).toBe("/api/delete-image");
+    expect(init.headers.Authorization).toBe("Bearer id-token");
+    expect(JSON.parse(init.body)).toEqual({ publicIds: ["employees/photos/123_photo"] });
+    expect(results.map((r) => r.deleted)).toEqual([true, false]);
+  });
+
+  it("reports Cloudinary's answer for images it did not delete", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(
+        JSON.stringify({ results: [{ publicId: "employees/photos/123_photo", deleted: false, error: "not found" }] }),
+        { status: 200 }
+      )
+    );
+
+    const [result] = await deleteMultipleCloudinaryImages([PHOTO_URL]);
+
+    expect(result).toMatchObject({ deleted: false, error: "not found" });
+  });
+
+  it("reports the server's error on every image when the request is refused", async () => {
+    fetchMock.mockImplementation(
+      async () => new Response(JSON.stringify({ error: "You don't have permission to delete images" }), { status: 403 })
+    );
+
+    expect(await deleteCloudinaryImage(PHOTO_URL)).toBe(false);
+    const [result] = await deleteMultipleCloudinaryImages([PHOTO_URL]);
+    expect(result.error).toBe("You don't have permission to delete images");
+  });
+});
@@ -1,18 +1,25 @@
+import { auth } from "./firebase";
+
 /**
  * Utility functions for deleting images from Cloudinary
+ * Deletion needs the API secret, so it goes through the /api/delete-image serverless function
  */
 
 /**
  * Extract the public_id from a Cloudinary URL
  * Example: https://res.cloudinary.com/dcnw6lrcq/image/upload/v1234567890/employees/photos/1234567890_photo.jpg
  * Returns: employees/photos/1234567890_photo
+ * Returns null for URLs that aren't Cloudinary image URLs, so we never delete an image by a look-alike path
  */
 export const extractPublicId = (url: string): string | null => {
   if (!url) return null;
   
   try {
-    // Cloudinary URL pattern: .../upload/[version]/[public_id].[extension]
-    const matches = url.match(/\/upload\/(?:v\d+\/)?(.+)\.\w+$/);
+    const { hostname, pathname } = new URL(url);
+    if (hostname !== "res.cloudinary.com") return null;
+
+    // Cloudinary URL pattern: /[cloud_name]/image/upload/[version]/[public_id].[extension]
+    const matches = pathname.match(/^\/[^/]+\/image\/upload\/(?:v\d+\/)?(.+)\.\w+$/);
     if (matches && matches[1]) {
       // Remove any transformations from the public_id
       const publicId = matches[1].split('/').filter(part => !part.startsWith('q_') && !part.startsWith('f_') && !part.startsWith('w_') && !part.startsWith('h_') && !part.startsWith('c_')).join('/');
@@ -25,75 +32,103 @@ export const extractPublicId = (url: string): string | null => {
   }
 };
 
+export interface CloudinaryDeleteResult {
+  url: string;
+  publicId: string | null;
+  deleted: boolean;
+  error?: string;
+}
+
+// Serverless function that performs the signed destroy call (see api/delete-image.ts)
+const DELETE_IMAGE_ENDPOINT = "/api/delete-image";
+
 /**
- * Delete an image from Cloudinary
- * Note: This uses the unsigned destroy endpoint which may be restricted
- * For production, you should implement a backend endpoint that handles authenticated deletion
- * 
- * @param imageUrl - The full Cloudinary URL
- * @returns Promise that resolves when deletion is complete
+ * Delete multiple images from Cloudinary through the server-side endpoint
+ * @param imageUrls - Array of Cloudinary URLs
+ * @returns Promise with a result per valid URL, reporting whether it was really deleted
  */
-export const deleteCloudinaryImage = async (imageUrl: string): Promise<boolean> => {
-  if (!imageUrl) {
-    console.log("No image URL provided for deletion");
-    return false;
+export const deleteMultipleCloudinaryImages = async (imageUrls: string[]): Promise<CloudinaryDeleteResult[]> => {
+  const validUrls = imageUrls.filter(url => url && url.trim() !== "");
+
+  if (validUrls.length === 0) {
+    console.log("No valid image URLs provided for deletion");
+    return [];
   }
 
-  const cloudName = import.meta.env.VITE_CLOUDINARY_CLOUD_NAME;
-  const publicId = extractPublicId(imageUrl);
+  const results: CloudinaryDeleteResult[] = validUrls.map(url => ({
+    url,
+    publicId: extractPublicId(url),
+    deleted: false,
+  }));
 
-  if (!publicId) {
-    console.error("Could not extract public_id from URL:", imageUrl);
-    return false;
+  // URLs we can't map to a public_id can't be deleted
+  results
+    .filter(result => !result.publicId)
+    .forEach(result => {
+      result.error = "Could not extract public_id from URL";
+    });
+
+  const pending = results.filter(result => result.publicId);
+  if (pending.length === 0) {
+    return results;
   }
 
   try {
-    console.log(`Attempting to delete image: ${publicId}`);
-    
-    // Note: Cloudinary requires authentication for deletion
-    // This is a client-side attempt that will likely fail without proper setup
-    // For production, implement a backend endpoint that uses your API secret
-    
-    // For now, we'll just log the deletion attempt
-    // In production, you would call your backend endpoint here:
-    // const response = await fetch('/api/delete-image', {
-    //   method: 'POST',
-    //   headers: { 'Content-Type': 'application/json' },
-    //   body: JSON.stringify({ publicId })
-    // });
-    
-    console.log(`Image marked for deletion: ${publicId}`);
-    console.log("Note: Actual deletion requires backend implementation with Cloudinary API secret");
-    
-    return true;
+    const idToken = await auth.currentUser?.getIdToken();
+    if (!idToken) {
+      throw new Error("You must be logged in to delete images");
+    }
+
+    const response = await fetch(DELETE_IMAGE_ENDPOINT, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${idToken}`,
+      },
+      body: JSON.stringify({ publicIds: pending.map(result => result.publicId) }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Delete request failed with status ${response.status}`);
+    }
+
+    const serverResults: { publicId: string; deleted: boolean; error?: string }[] = data.results || [];
+    pending.forEach(result => {
+      const serverResult = serverResults.find(r => r.publicId === result.publicId);
+      result.deleted = serverResult?.deleted === true;
+      if (!result.deleted) {
+        result.error = serverResult?.error || "No result returned for this image";
+      }
+    });
   } catch (error) {
-    console.error("Error deleting image from Cloudinary:", error);
-    return false;
+    console.error("Error deleting images from Cloudinary:", error);
+    const message = error instanceof Error ? error.message : "Delete request failed";
+    pending.forEach(result => {
+      result.error = message;
+    });
   }
+
+  const successCount = results.filter(result => result.deleted).length;
+  console.log(`Deleted ${successCount} out of ${results.length} images from Cloudinary`);
+  results
+    .filter(result => !result.deleted)
+    .forEach(result => console.warn(`Failed to delete ${result.publicId || result.url}: ${result.error}`));
+
+  return results;
 };
 
 /**
- * Delete multiple images from Cloudinary
- * @param imageUrls - Array of Cloudinary URLs
- * @returns Promise that resolves with count of successfully deleted images
+ * Delete a single image from Cloudinary
+ * @param imageUrl - The full Cloudinary URL
+ * @returns Promise that resolves to true only if Cloudinary confirmed the deletion
  */
-export const deleteMultipleCloudinaryImages = async (imageUrls: string[]): Promise<number> => {
-  const validUrls = imageUrls.filter(url => url && url.trim() !== "");
-  
-  if (validUrls.length === 0) {
-    console.log("No valid image URLs provided for deletion");
-    return 0;
+export const deleteCloudinaryImage = async (imageUrl: string): Promise<boolean> => {
+  if (!imageUrl) {
+    console.log("No image URL provided for deletion");
+    return false;
   }
 
-  try {
-    const deletionPromises = validUrls.map(url => deleteCloudinaryImage(url));
-    const results = await Promise.all(deletionPromises);
-    const successCount = results.filter(result => result === true).length;
-    
-    console.log(`Deleted ${successCount} out of ${validUrls.length} images from Cloudinary`);
-    return successCount;
-  } catch (error) {
-    console.error("Error deleting multiple images:", error);
-    return 0;
-  }
+  const [result] = await deleteMultipleCloudinaryImages([imageUrl]);
+  return result?.deleted === true;
 };
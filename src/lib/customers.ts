@@ -0,0 +1,206 @@
+import { collection, doc, getDoc, getDocs, setDoc, Timestamp, writeBatch } from "firebase/firestore";
+import { db } from "./firebase";
+
+/**
+ * Customer master records
+ * Each customer is stored in `customers/{normalizedPhone}`, so the same phone number
+ * typed as "+91 97147 19906", "097147-19906" or "9714719906" always maps to one customer.
+ */
+
+export interface Customer {
+  id: string; // normalized phone number
+  name: string;
+  phone: string; // normalized phone number
+  contact: string; // phone as last typed, for display
+  address: string;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export interface CustomerDetails {
+  name: string;
+  contact: string;
+  address: string;
+}
+
+/**
+ * Normalize a phone number so it can be used as the customer key
+ * Strips spaces/dashes, the +91 country code and a leading 0 (trunk prefix)
+ * @returns The normalized number, or null if it doesn't look like a phone number
+ */
+export const normalizePhone = (raw: string | null | undefined): string | null => {
+  if (!raw) return null;
+
+  let digits = raw.replace(/\D/g, "");
+  if (digits.length === 12 && digits.startsWith("91")) {
+    digits = digits.slice(2);
+  } else if (digits.length === 11 && digits.startsWith("0")) {
+    digits = digits.slice(1);
+  }
+
+  // Indian mobile numbers are 10 digits; allow longer numbers for landlines/foreign numbers
+  if (digits.length < 10 || digits.length > 15) {
+    return null;
+  }
+  return digits;
+};
+
+/**
+ * Load a customer by id
+ * @param customerId - The customer document id (normalized phone number)
+ */
+export const getCustomer = async (customerId: string): Promise<Customer | null> => {
+  try {
+    const snapshot = await getDoc(doc(db, "customers", customerId));
+    if (!snapshot.exists()) return null;
+    return { id: snapshot.id, ...snapshot.data() } as Customer;
+  } catch (error) {
+    console.error("Error loading customer:", error);
+    return null;
+  }
+};
+
+/**
+ * Find a customer by phone number
+ * @param contact - Phone number as typed by the user
+ * @returns The customer, or null if no customer has this number
+ */
+export const getCustomerByPhone = async (contact: string): Promise<Customer | null> => {
+  const phone = normalizePhone(contact);
+  if (!phone) return null;
+  return getCustomer(phone);
+};
+
+/**
+ * Create the customer for this phone number, or update their name/address
+ * @param details - Customer details from the form
+ * @returns The customer id (normalized phone), or null if the phone number is invalid
+ */
+export const upsertCustomer = async (details: CustomerDetails): Promise<string | null> => {
+  const phone = normalizePhone(details.contact);
+  if (!phone) return null;
+
+  try {
+    const customerRef = doc(db, "customers", phone);
+    const existing = await getDoc(customerRef);
+
+    await setDoc(
+      customerRef,
+      {
+        name: details.name.trim(),
+        phone,
+        contact: details.contact.trim(),
+        address: details.address.trim(),
+        updatedAt: Timestamp.now(),
+        ...(existing.exists() ? {} : { createdAt: Timestamp.now() }),
+      },
+      { merge: true }
+    );
+
+    return phone;
+  } catch (error) {
+    console.error("Error saving customer:", error);
+    throw error;
+  }
+};
+
+// Firestore batches are limited to 500 writes
+const BATCH_LIMIT = 400;
+
+/**
+ * Migration: create customers from existing works and members, and link them by customerId
+ * Works are processed oldest first, so the latest name/address for a phone number wins.
+ * Safe to run more than once - already linked documents are skipped.
+ * @returns Counts of customers written and documents linked
+ */
+export const backfillCustomers = async () => {
+  const results = {
+    customers: 0,
+    works: 0,
+    members: 0,
+    skipped: 0,
+  };
+
+  const [worksSnapshot, membersSnapshot] = await Promise.all([
+    getDocs(collection(db, "pendingWorks")),
+    getDocs(collection(db, "membershipMembers")),
+  ]);
+
+  const customers = new Map<string, CustomerDetails & { phone: string }>();
+  const links: { collectionName: string; id: string; customerId: string }[] = [];
+
+  const works = worksSnapshot.docs
+    .map((d) => ({ id: d.id, ...d.data() }) as { id: string; customerName?: string; contact?: string; address?: string; customerId?: string; date?: string })
+    .sort((a, b) => (a.date || "").localeCompare(b.date || ""));
+
+  works.forEach((work) => {
+    const phone = normalizePhone(work.contact);
+    if (!phone) {
+      results.skipped++;
+      return;
+    }
+    customers.set(phone, {
+      phone,
+      name: work.customerName || customers.get(phone)?.name || "",
+      contact: work.contact || "",
+      address: work.address || customers.get(phone)?.address || "",
+    });
+    if (work.customerId !== phone) {
+      links.push({ collectionName: "pendingWorks", id: work.id, customerId: phone });
+    }
+  });
+
+  membersSnapshot.docs.forEach((memberDoc) => {
+    const member = memberDoc.data();
+    const phone = normalizePhone(member.contact);
+    if (!phone) {
+      results.skipped++;
+      return;
+    }
+    if (!customers.has(phone)) {
+      customers.set(phone, {
+        phone,
+        name: member.name || "",
+        contact: member.contact || "",
+        address: member.address || "",
+      });
+    }
+    if (member.customerId !== phone) {
+      links.push({ collectionName: "membershipMembers", id: memberDoc.id, customerId: phone });
+    }
+  });
+
+  // Queue all writes, then commit them in chunks
+  const writes: ((batch: ReturnType<typeof writeBatch>) => void)[] = [];
+  customers.forEach((customer) => {
+    writes.push((batch) =>
+      batch.set(
+        doc(db, "customers", customer.phone),
+        {
+          name: customer.name.trim(),
+          phone: customer.phone,
+          contact: customer.contact.trim(),
+          address: customer.address.trim(),
+          updatedAt: Timestamp.now(),
+        },
+        { merge: true }
+      )
+    );
+  });
+  links.forEach((link) => {
+    writes.push((batch) =>
+      batch.update(doc(db, link.collectionName, link.id), { customerId: link.customerId })
+    );
+  });
+
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + BATCH_LIMIT).forEach((write) => write(batch));
+    await batch.commit();
+  }
+
+  results.customers = customers.size;
+  results.works = links.filter((l) => l.collectionName === "pendingWorks").length;
+  results.members = links.filter((l) => l.collectionName === "membershipMembers").length;
+  return results;
+};
@@ -1,10 +1,10 @@
 import { initializeApp } from "firebase/app";
-import { getAuth } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import { browserSessionPersistence, connectAuthEmulator, initializeAuth } from "firebase/auth";
+import { connectFirestoreEmulator, getFirestore } from "firebase/firestore";
 import { getStorage } from "firebase/storage";
 
 // Firebase configuration from environment variables
-const firebaseConfig = {
+export const firebaseConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
   authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
   projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
@@ -18,8 +18,24 @@ const firebaseConfig = {
 const app = initializeApp(firebaseConfig);
 
 // Initialize Firebase services
-export const auth = getAuth(app);
+// Session persistence keeps the old behaviour: users must login again
+// each time they open the website in a new tab/browser session
+export const auth = initializeAuth(app, {
+  persistence: browserSessionPersistence,
+});
 export const db = getFirestore(app);
 export const storage = getStorage(app);
 
+// Local development / tests: talk to the Firebase emulators instead of production
+export const emulatorsEnabled = import.meta.env.VITE_USE_FIREBASE_EMULATORS === "true";
+export const authEmulatorUrl = import.meta.env.VITE_FIREBASE_AUTH_EMULATOR_URL || "http://127.0.0.1:9099";
+
+if (emulatorsEnabled) {
+  const firestoreHost = import.meta.env.VITE_FIRESTORE_EMULATOR_HOST || "127.0.0.1:8081";
+  const [host, port] = firestoreHost.split(":");
+  connectAuthEmulator(auth, authEmulatorUrl, { disableWarnings: true });
+  connectFirestoreEmulator(db, host, Number(port));
+  console.log(`🧪 Using Firebase emulators (auth: ${authEmulatorUrl}, firestore: ${firestoreHost})`);
+}
+
 export default app;
@@ -0,0 +1,47 @@
+import { eachDayOfInterval, format, getDay, parseISO } from "date-fns";
+
+/**
+ * Holidays and weekly offs
+ * Holidays (Diwali, Uttarayan, ...) are kept in `holidays`, one document per date. Each worker
+ * may also have a weekly off day (`weeklyOff`, 0 = Sunday ... 6 = Saturday). Bulk marking
+ * records these days as "holiday" or "week-off"; a paid holiday is paid at the daily wage.
+ */
+
+export interface Holiday {
+  id: string;
+  date: string; // yyyy-MM-dd
+  name: string;
+  paid: boolean;
+}
+
+export interface WeeklyOffEmployee {
+  weeklyOff?: number | null;
+}
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/**
+ * The holiday on a date, if any
+ */
+export const getHoliday = (holidays: Holiday[], date: string) => holidays.find((h) => h.date === date);
+
+/**
+ * Whether a date is the worker's weekly off
+ */
+export const isWeeklyOff = (employee: WeeklyOffEmployee | undefined, date: string) =>
+  employee?.weeklyOff !== undefined && employee?.weeklyOff !== null && getDay(parseISO(date)) === employee.weeklyOff;
+
+/**
+ * Days a worker is expected to work between two dates (inclusive): holidays and their weekly off excluded
+ */
+export const getWorkingDays = (
+  fromDate: string,
+  toDate: string,
+  holidays: Holiday[],
+  employee?: WeeklyOffEmployee
+): string[] => {
+  if (toDate < fromDate) return [];
+  return eachDayOfInterval({ start: parseISO(fromDate), end: parseISO(toDate) })
+    .map((d) => format(d, "yyyy-MM-dd"))
+    .filter((date) => !getHoliday(holidays, date) && !isWeeklyOff(employee, date));
+};
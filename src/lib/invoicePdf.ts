@@ -0,0 +1,260 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
+import { drawBusinessHeader, drawSignatureBox, toFileName } from "./pdf";
+import { Invoice, InvoiceTax } from "./invoices";
+import { buildUpiLink, getUpiQrDataUrl } from "./upi";
+
+const formatDateTime = (value?: string) => {
+  try {
+    return value ? format(new Date(value), "dd/MM/yyyy HH:mm:ss") : "-";
+  } catch (e) {
+    console.error("Date formatting error:", e);
+    return "-";
+  }
+};
+
+/**
+ * Draw a work's type, description and timings on a canvas (the description is usually Gujarati)
+ */
+const renderLineImage = (invoice: Invoice, line: Invoice["lines"][number]) => {
+  const descCanvas = document.createElement("canvas");
+  descCanvas.width = 1000;
+  descCanvas.height = 300;
+  const descCtx = descCanvas.getContext("2d");
+  if (!descCtx) return "";
+
+  descCtx.fillStyle = "#FFFFFF";
+  descCtx.fillRect(0, 0, descCanvas.width, descCanvas.height);
+  descCtx.fillStyle = "#000000";
+  descCtx.textBaseline = "top";
+  descCtx.textAlign = "left";
+
+  descCtx.font = 'bold 24px "Nirmala UI", "Shruti", Arial';
+  descCtx.fillText(line.description, 10, 20);
+
+  descCtx.font = '20px "Nirmala UI", "Shruti", Arial';
+  descCtx.fillText(line.detail || "-", 10, 60);
+
+  descCtx.font = "18px Arial";
+  descCtx.fillText(`Start: ${formatDateTime(invoice.startTime)}`, 10, 100);
+  descCtx.fillText(`Completed: ${formatDateTime(invoice.completedTime)}`, 10, 130);
+
+  return descCanvas.toDataURL("image/png");
+};
+
+const money = (value: number) =>
+  Number(value || 0).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Footer rows of a tax invoice: taxable value, the GST split and the total
+ */
+const taxFooterRows = (invoice: Invoice, tax: InvoiceTax) => {
+  const rows = [["Taxable Value:", "", "", money(tax.taxableValue)]];
+  if (tax.interState) {
+    rows.push([`IGST @ ${tax.gstRate}%:`, "", "", money(tax.igst)]);
+  } else {
+    rows.push([`CGST @ ${tax.gstRate / 2}%:`, "", "", money(tax.cgst)]);
+    rows.push([`SGST @ ${tax.gstRate / 2}%:`, "", "", money(tax.sgst)]);
+  }
+  rows.push(["Total Amount:", "", "", `${money(invoice.total)} /-`]);
+  return rows;
+};
+
+/**
+ * Draw the "scan to pay" UPI QR code for the invoice total at the bottom left of the bill
+ */
+const drawUpiQr = async (pdf: jsPDF, invoice: Invoice, vpa: string, y: number) => {
+  const link = buildUpiLink({
+    vpa,
+    payeeName: invoice.upiPayeeName || "",
+    amount: invoice.total,
+    note: `Invoice ${invoice.invoiceNumber}`,
+  });
+  const qrSize = 30;
+
+  pdf.addImage(await getUpiQrDataUrl(link), "PNG", 15, y, qrSize, qrSize);
+  pdf.setFontSize(9);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(`Scan to pay Rs. ${invoice.total.toLocaleString("en-IN")} via UPI`, 15, y + qrSize + 5);
+  pdf.setFont("helvetica", "normal");
+  pdf.text(`UPI ID: ${vpa}`, 15, y + qrSize + 10);
+};
+
+/**
+ * Build the bill PDF for a saved invoice
+ * Only uses the invoice snapshot, so the same invoice always produces the same bill.
+ * Invoices issued while we had a GSTIN are printed as GST tax invoices, and those issued
+ * while a UPI id was set up get a QR code to pay the total.
+ */
+export const buildInvoicePdf = async (invoice: Invoice): Promise<jsPDF> => {
+  const pdf = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const pageWidth = pdf.internal.pageSize.width;
+  const { tax } = invoice;
+
+  await drawBusinessHeader(pdf, invoice.sellerGstin);
+
+  pdf.line(10, 60, pageWidth - 10, 60);
+  pdf.setFontSize(12);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(tax ? "TAX INVOICE" : "BILL", pageWidth / 2, 68, { align: "center" });
+
+  // Customer details
+  pdf.setFontSize(10);
+  pdf.setFont("helvetica", "bold");
+  const customerY = 85;
+  pdf.text("Bill To:", 15, customerY);
+  pdf.setFont("helvetica", "normal");
+  pdf.text(invoice.customerName || "-", 15, customerY + 7);
+  pdf.text(`Contact: ${invoice.contact || "-"}`, 15, customerY + 14);
+  pdf.text(`Address: ${invoice.address || "-"}`, 15, customerY + 21);
+  if (tax?.buyerGstin) {
+    pdf.text(`GSTIN: ${tax.buyerGstin}`, 15, customerY + 28);
+  }
+
+  // Invoice number and dates
+  const dateY = 78;
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Invoice No:", pageWidth - 75, dateY);
+  pdf.text("Bill Date:", pageWidth - 75, dateY + 7);
+  pdf.text("Work Date:", pageWidth - 75, dateY + 14);
+  pdf.setFont("helvetica", "normal");
+  pdf.text(invoice.invoiceNumber, pageWidth - 15, dateY, { align: "right" });
+  pdf.text(format(new Date(invoice.invoiceDate), "dd/MM/yyyy"), pageWidth - 15, dateY + 7, { align: "right" });
+  pdf.text(invoice.workDate ? format(new Date(invoice.workDate), "dd/MM/yyyy") : "-", pageWidth - 15, dateY + 14, {
+    align: "right",
+  });
+  if (tax) {
+    const placeOfSupply =
+      !tax.interState && invoice.sellerStateName ? `${invoice.sellerStateName} (${tax.placeOfSupply})` : tax.placeOfSupply;
+    pdf.setFont("helvetica", "bold");
+    pdf.text("Place of Supply:", pageWidth - 75, dateY + 21);
+    pdf.setFont("helvetica", "normal");
+    pdf.text(placeOfSupply, pageWidth - 15, dateY + 21, { align: "right" });
+  }
+
+  const lineImages = invoice.lines.map((line) => renderLineImage(invoice, line));
+  const total = Number(invoice.total || 0).toLocaleString();
+
+  autoTable(pdf, {
+    startY: tax?.buyerGstin ? 122 : 115,
+    head: [tax ? ["Description", "SAC", "Workers", "Amount "] : ["Description", "Workers", "Amount "]],
+    body: invoice.lines.map((line) => [
+      {
+        content: "",
+        styles: {
+          cellWidth: 90,
+          cellPadding: { top: 5, bottom: 5, left: 5, right: 5 },
+          minCellHeight: 35,
+        },
+      },
+      ...(tax
+        ? [
+            {
+              content: line.sacCode || "-",
+              styles: {
+                cellWidth: 20,
+                cellPadding: { top: 5, bottom: 5, left: 3, right: 3 },
+              },
+            },
+          ]
+        : []),
+      {
+        content: line.workers.length > 0 ? line.workers.join("\n") : "-",
+        styles: {
+          cellWidth: tax ? 30 : 40,
+          cellPadding: { top: 5, bottom: 5, left: 5, right: 5 },
+        },
+      },
+      {
+        content: tax ? money(line.amount) : Number(line.amount || 0).toLocaleString(),
+        styles: {
+          halign: "right",
+          cellWidth: tax ? 30 : 40,
+          cellPadding: { top: 5, bottom: 5, left: 5, right: 5 },
+        },
+      },
+    ]),
+    foot: tax ? taxFooterRows(invoice, tax) : [["Total Amount:", "", `${total} /-`]],
+    theme: "striped",
+    styles: {
+      fontSize: 10,
+      lineWidth: 0.1,
+      lineColor: [0, 0, 0],
+      textColor: [0, 0, 0],
+      valign: "middle",
+    },
+    headStyles: {
+      fillColor: [240, 240, 240],
+      textColor: [0, 0, 0],
+      fontStyle: "bold",
+      halign: "left",
+    },
+    footStyles: {
+      fontStyle: "bold",
+      halign: "right",
+    },
+    didDrawCell: (data) => {
+      // Add the description image to the first cell of each line
+      const image = lineImages[data.row.index];
+      if (data.section === "body" && data.column.index === 0 && image) {
+        pdf.addImage(image, "PNG", data.cell.x + 2, data.cell.y + 2, 86, 32);
+      }
+    },
+  });
+
+  let tableEnd = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+  if (invoice.amountInWords) {
+    pdf.setFontSize(10);
+    pdf.setFont("helvetica", "bold");
+    pdf.text("Amount in Words:", 15, tableEnd);
+    pdf.setFont("helvetica", "normal");
+    const words = pdf.splitTextToSize(invoice.amountInWords, pageWidth - 75);
+    pdf.text(words, 50, tableEnd);
+    tableEnd += words.length * 5 + 5;
+  }
+
+  // Notes
+  pdf.setFontSize(10);
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Notes:", 15, tableEnd);
+  pdf.setFont("helvetica", "normal");
+
+  if (invoice.workKind !== "membership") {
+    // Gujarati text has to go through a canvas
+    const gujaratiCanvas = document.createElement("canvas");
+    gujaratiCanvas.width = 600;
+    gujaratiCanvas.height = 80;
+    const gCtx = gujaratiCanvas.getContext("2d");
+    if (gCtx) {
+      gCtx.fillStyle = "#FFFFFF";
+      gCtx.fillRect(0, 0, gujaratiCanvas.width, gujaratiCanvas.height);
+      gCtx.fillStyle = "#000000";
+      gCtx.textBaseline = "middle";
+      gCtx.textAlign = "left";
+      gCtx.font = '18px "Nirmala UI", "Shruti", sans-serif';
+      gCtx.fillText("Inquiry Type: વ્યક્તિગત કામ", 10, 40);
+      pdf.addImage(gujaratiCanvas.toDataURL("image/png"), "PNG", 15, tableEnd + 2, 100, 10);
+    }
+  } else {
+    pdf.text("Inquiry Type: Membership work", 15, tableEnd + 7);
+  }
+
+  if (invoice.upiVpa && invoice.total > 0) {
+    await drawUpiQr(pdf, invoice, invoice.upiVpa, tableEnd + 18);
+  }
+
+  drawSignatureBox(pdf, tableEnd + 20);
+
+  return pdf;
+};
+
+/**
+ * Download the bill PDF for a saved invoice
+ */
+export const downloadInvoicePdf = async (invoice: Invoice) => {
+  const pdf = await buildInvoicePdf(invoice);
+  const fileNumber = invoice.invoiceNumber.replace(/\//g, "-");
+  pdf.save(`bill-${toFileName(invoice.customerName)}-${fileNumber}.pdf`);
+};
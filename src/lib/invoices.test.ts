@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { runTransaction } from "firebase/firestore";
+import { issueInvoice } from "./invoices";
+
+vi.mock("./firebase", () => ({ db: {} }));
+vi.mock("./settings", () => ({
+  DEFAULT_SAC_CODE: "998533",
+  getGstinStateCode: () => "",
+  getBusinessSettings: async () => ({ gstin: "", stateName: "Gujarat", upiVpa: "", upiPayeeName: "" }),
+}));
+vi.mock("firebase/firestore", () => ({
+  collection: (_db: unknown, name: string) => ({ name }),
+  doc: (parent: { name?: string }, name?: string, id?: string) =>
+    name ? { name, id } : { name: parent.name, id: "invoice1" },
+  runTransaction: vi.fn(),
+  Timestamp: { now: () => "now" },
+}));
+
+// Documents as the transaction reads them
+let stored: Record<string, Record<string, unknown>>;
+
+describe("issueInvoice", () => {
+  beforeEach(() => {
+    stored = {
+      "pendingWorks/w1": {
+        customerName: "Asha Patel",
+        contact: "9876543210",
+        address: "Surat",
+        workType: "Tank",
+        description: "Two tanks",
+        estimatedCost: 1800,
+        date: "2024-03-05",
+        assignedTo: "e1",
+      },
+      "counters/invoices-2024-25": { lastNumber: 6 },
+    };
+    vi.mocked(runTransaction).mockImplementation((async (
+      _db: unknown,
+      update: (transaction: unknown) => Promise<unknown>
+    ) =>
+      update({
+        get: async (ref: { name: string; id: string }) => {
+          const data = stored[`${ref.name}/${ref.id}`];
+          return { id: ref.id, exists: () => !!data, data: () => data };
+        },
+        set: vi.fn(),
+        update: vi.fn(),
+      })) as unknown as typeof runTransaction);
+  });
+
+  it("bills the work as read in the transaction", async () => {
+    vi.useFakeTimers({ now: new Date(2024, 5, 1) });
+    const invoice = await issueInvoice({ id: "w1" }, (id) => (id === "e1" ? "Ramesh" : id));
+    vi.useRealTimers();
+
+    expect(invoice).toMatchObject({
+      invoiceNumber: "SM/2024-25/0007",
+      customerName: "Asha Patel",
+      workDate: "2024-03-05",
+      total: 1800,
+    });
+    expect(invoice.lines[0]).toMatchObject({ description: "Tank", amount: 1800, workers: ["Ramesh"] });
+  });
+
+  it("refuses to bill a work that was deleted meanwhile", async () => {
+    delete stored["pendingWorks/w1"];
+
+    await expect(issueInvoice({ id: "w1" }, (id) => id)).rejects.toThrow("no longer exists");
+  });
+});
@@ -0,0 +1,244 @@
+import { collection, doc, getDoc, getDocs, limit, query, runTransaction, Timestamp, where } from "firebase/firestore";
+import { format } from "date-fns";
+import { db } from "./firebase";
+import { amountInWords } from "./numberToWords";
+import { BusinessSettings, DEFAULT_SAC_CODE, getBusinessSettings, getGstinStateCode } from "./settings";
+
+/**
+ * Invoices
+ * Every bill issued for a work is saved in `invoices` with a sequential number per
+ * financial year (April-March), e.g. SM/2025-26/0001. The invoice keeps a snapshot of
+ * everything printed on it, so re-downloading it later gives the identical PDF even if
+ * the work, customer or employee names change.
+ */
+
+export const INVOICE_PREFIX = "SM";
+
+export interface InvoiceLine {
+  description: string; // work type
+  detail: string; // work description
+  sacCode?: string;
+  workers: string[];
+  amount: number; // taxable value on tax invoices
+}
+
+export interface InvoiceTax {
+  buyerGstin?: string;
+  placeOfSupply: string; // state code
+  interState: boolean; // IGST instead of CGST + SGST
+  gstRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface Invoice {
+  id: string;
+  invoiceNumber: string;
+  financialYear: string;
+  sequence: number;
+  workId: string;
+  customerId?: string;
+  customerName: string;
+  contact: string;
+  address: string;
+  invoiceDate: string; // yyyy-MM-dd
+  workDate: string;
+  startTime?: string;
+  completedTime?: string;
+  workKind?: string; // "membership" or "individual"
+  lines: InvoiceLine[];
+  total: number;
+  sellerGstin?: string;
+  sellerStateName?: string;
+  tax?: InvoiceTax; // only on tax invoices
+  amountInWords?: string;
+  upiVpa?: string; // UPI id printed on the bill as a QR code for the total
+  upiPayeeName?: string;
+  createdAt?: Timestamp;
+}
+
+export interface BillableWork {
+  id: string;
+  customerName: string;
+  contact: string;
+  address: string;
+  workType: string;
+  description: string;
+  estimatedCost: number;
+  date: string;
+  startTime?: string;
+  completedTime?: string;
+  type?: string;
+  customerId?: string;
+  customerGstin?: string;
+  invoiceId?: string;
+}
+
+/**
+ * Financial year a date falls in, e.g. 2025-26 for any date from 1 Apr 2025 to 31 Mar 2026
+ */
+export const getFinancialYear = (date: Date = new Date()): string => {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+};
+
+export const formatInvoiceNumber = (financialYear: string, sequence: number) =>
+  `${INVOICE_PREFIX}/${financialYear}/${String(sequence).padStart(4, "0")}`;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Split an amount into taxable value and GST
+ * Inside the state GST is split equally into CGST and SGST; across states it is all IGST.
+ * @param includesGst - Whether the amount already includes GST
+ */
+export const calculateGst = (amount: number, gstRate: number, includesGst: boolean, interState: boolean) => {
+  const taxableValue = roundMoney(includesGst ? amount / (1 + gstRate / 100) : amount);
+  const totalTax = roundMoney(includesGst ? amount - taxableValue : (amount * gstRate) / 100);
+  const cgst = interState ? 0 : roundMoney(totalTax / 2);
+  const sgst = interState ? 0 : roundMoney(totalTax - cgst);
+
+  return {
+    taxableValue,
+    cgst,
+    sgst,
+    igst: interState ? totalTax : 0,
+    total: roundMoney(taxableValue + totalTax),
+  };
+};
+
+/**
+ * SAC code of the catalog service a work was created for
+ */
+const getSacCode = async (workType: string): Promise<string> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, "services"), where("nameGu", "==", workType), limit(1)));
+    return (snapshot.docs[0]?.data().sacCode as string) || DEFAULT_SAC_CODE;
+  } catch (error) {
+    console.error("Error looking up SAC code:", error);
+    return DEFAULT_SAC_CODE;
+  }
+};
+
+/**
+ * Load a saved invoice
+ */
+export const getInvoice = async (invoiceId: string): Promise<Invoice | null> => {
+  const snapshot = await getDoc(doc(db, "invoices", invoiceId));
+  return snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as Invoice) : null;
+};
+
+/**
+ * Tax details for an invoice; none until we are GST registered
+ */
+const getInvoiceTax = async (work: BillableWork, settings: BusinessSettings) => {
+  const amount = Number(work.estimatedCost || 0);
+  if (!settings.gstin) return { total: amount, lineAmount: amount };
+
+  const buyerGstin = work.customerGstin?.trim().toUpperCase() || "";
+  const sellerStateCode = getGstinStateCode(settings.gstin) || settings.stateCode;
+  const placeOfSupply = getGstinStateCode(buyerGstin) || sellerStateCode;
+  const interState = placeOfSupply !== sellerStateCode;
+  const gst = calculateGst(amount, settings.gstRate, settings.pricesIncludeGst, interState);
+
+  const tax: InvoiceTax = {
+    ...(buyerGstin ? { buyerGstin } : {}),
+    placeOfSupply,
+    interState,
+    gstRate: settings.gstRate,
+    taxableValue: gst.taxableValue,
+    cgst: gst.cgst,
+    sgst: gst.sgst,
+    igst: gst.igst,
+  };
+  return { total: gst.total, lineAmount: gst.taxableValue, tax, sacCode: await getSacCode(work.workType) };
+};
+
+/**
+ * Issue the invoice for a work, or return the one already issued
+ * The number comes from `counters/invoices-{financialYear}` inside a transaction, so two
+ * people billing at the same moment can never get the same number. Everything printed is
+ * taken from the work as read in that transaction, not from the caller's copy.
+ * @param getWorkerName - Name of an assigned worker, as it should appear on the bill
+ */
+export const issueInvoice = async (
+  work: Pick<BillableWork, "id">,
+  getWorkerName: (employeeId: string) => string
+): Promise<Invoice> => {
+  const workRef = doc(db, "pendingWorks", work.id);
+  const invoiceRef = doc(collection(db, "invoices"));
+  const invoiceDate = new Date();
+  const financialYear = getFinancialYear(invoiceDate);
+  const counterRef = doc(db, "counters", `invoices-${financialYear}`);
+
+  // Once we are GST registered, every bill is a tax invoice
+  const settings = await getBusinessSettings();
+
+  return runTransaction(db, async (transaction) => {
+    const [workDoc, counterDoc] = await Promise.all([transaction.get(workRef), transaction.get(counterRef)]);
+    if (!workDoc.exists()) throw new Error("This work no longer exists");
+    const saved = { ...workDoc.data(), id: workDoc.id } as BillableWork & {
+      assignedTo?: string;
+      secondWorker?: string;
+    };
+
+    if (saved.invoiceId) {
+      const existing = await transaction.get(doc(db, "invoices", saved.invoiceId));
+      if (existing.exists()) {
+        return { id: existing.id, ...existing.data() } as Invoice;
+      }
+    }
+
+    const { total, lineAmount, tax, sacCode } = await getInvoiceTax(saved, settings);
+    const workers = [saved.assignedTo, saved.secondWorker].filter((id): id is string => !!id).map(getWorkerName);
+
+    const sequence = ((counterDoc.data()?.lastNumber as number) || 0) + 1;
+    const invoice: Omit<Invoice, "id"> = {
+      invoiceNumber: formatInvoiceNumber(financialYear, sequence),
+      financialYear,
+      sequence,
+      workId: saved.id,
+      ...(saved.customerId ? { customerId: saved.customerId } : {}),
+      customerName: saved.customerName || "",
+      contact: saved.contact || "",
+      address: saved.address || "",
+      invoiceDate: format(invoiceDate, "yyyy-MM-dd"),
+      workDate: saved.date || "",
+      ...(saved.startTime ? { startTime: saved.startTime } : {}),
+      ...(saved.completedTime ? { completedTime: saved.completedTime } : {}),
+      workKind: saved.type || "individual",
+      lines: [
+        {
+          description: saved.workType || "General Work",
+          detail: saved.description || "",
+          ...(sacCode ? { sacCode } : {}),
+          workers: workers.filter(Boolean),
+          amount: lineAmount,
+        },
+      ],
+      total,
+      sellerGstin: settings.gstin,
+      sellerStateName: settings.stateName,
+      ...(tax ? { tax } : {}),
+      amountInWords: amountInWords(total),
+      ...(settings.upiVpa ? { upiVpa: settings.upiVpa, upiPayeeName: settings.upiPayeeName } : {}),
+    };
+
+    transaction.set(
+      counterRef,
+      { lastNumber: sequence, lastInvoiceId: invoiceRef.id, updatedAt: Timestamp.now() },
+      { merge: true }
+    );
+    transaction.set(invoiceRef, { ...invoice, createdAt: Timestamp.now() });
+    transaction.update(workRef, {
+      invoiceId: invoiceRef.id,
+      invoiceNumber: invoice.invoiceNumber,
+      invoiceTotal: invoice.total,
+      updatedAt: Timestamp.now(),
+    });
+
+    return { id: invoiceRef.id, ...invoice };
+  });
+};
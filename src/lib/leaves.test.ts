@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from "vitest";
+import { getLeaveBalances, getLeaveDates, LeaveRequest } from "./leaves";
+import { Holiday } from "./holidays";
+
+vi.mock("./firebase", () => ({ db: {} }));
+
+// 2024-03-10 is a Sunday
+const SUNDAY_OFF = { id: "w1", weeklyOff: 0 };
+const HOLIDAYS: Holiday[] = [{ id: "h1", date: "2024-03-25", name: "Holi", paid: true }];
+
+const request = (fromDate: string, toDate: string, extra: Partial<LeaveRequest> = {}): LeaveRequest => ({
+  id: `${fromDate}_${toDate}`,
+  employeeId: "w1",
+  employeeName: "Ramesh",
+  type: "sick",
+  fromDate,
+  toDate,
+  days: 0,
+  status: "approved",
+  ...extra,
+});
+
+describe("getLeaveDates", () => {
+  it("leaves out the worker's weekly off", () => {
+    expect(getLeaveDates("2024-03-08", "2024-03-11", [], SUNDAY_OFF)).toEqual([
+      "2024-03-08",
+      "2024-03-09",
+      "2024-03-11",
+    ]);
+  });
+
+  it("leaves out holidays", () => {
+    expect(getLeaveDates("2024-03-25", "2024-03-26", HOLIDAYS, SUNDAY_OFF)).toEqual(["2024-03-26"]);
+  });
+
+  it("counts every day for a worker without a weekly off", () => {
+    expect(getLeaveDates("2024-03-09", "2024-03-11", [])).toHaveLength(3);
+  });
+
+  it("is empty for a range that ends before it starts", () => {
+    expect(getLeaveDates("2024-03-11", "2024-03-09", [])).toEqual([]);
+  });
+});
+
+describe("getLeaveBalances", () => {
+  const allowance = { sick: 6, casual: 6 };
+
+  it("doesn't use up allowance for holidays and weekly offs inside a leave", () => {
+    const requests = [
+      request("2024-03-08", "2024-03-11"), // Fri-Mon over a Sunday off: 3 days
+      request("2024-03-24", "2024-03-26", { type: "casual" }), // Sunday, Holi, Tuesday: 1 day
+    ];
+
+    const [sick, casual] = getLeaveBalances(requests, SUNDAY_OFF, "2024", allowance, HOLIDAYS);
+    expect(sick).toMatchObject({ used: 3, remaining: 3 });
+    expect(casual).toMatchObject({ used: 1, remaining: 5 });
+  });
+
+  it("only counts approved leave of the worker in the year", () => {
+    const requests = [
+      request("2024-03-04", "2024-03-05", { status: "pending" }),
+      request("2024-03-04", "2024-03-05", { employeeId: "w2" }),
+      request("2023-12-30", "2024-01-01"), // 2023-12-31 is a Sunday
+    ];
+
+    const [sick] = getLeaveBalances(requests, SUNDAY_OFF, "2024", allowance, HOLIDAYS);
+    expect(sick.used).toBe(1);
+  });
+});
@@ -0,0 +1,148 @@
+import { collection, doc, getDocs, query, Timestamp, where, writeBatch } from "firebase/firestore";
+import { db } from "./firebase";
+import { attendanceDocId } from "./attendance";
+import { getWorkingDays, Holiday, WeeklyOffEmployee } from "./holidays";
+
+/**
+ * Leave requests
+ * A request is entered for a worker in `leaveRequests` and waits for approval. Approving it marks
+ * attendance as "leave" for every working day it covers, with the leave type on the record. Holidays
+ * and the worker's weekly off inside the range stay as they are and don't use up any allowance.
+ * Sick and casual leave are paid and come out of the worker's yearly allowance; unpaid leave is not limited.
+ */
+
+export type LeaveType = "sick" | "casual" | "unpaid";
+export type LeaveStatus = "pending" | "approved" | "rejected";
+
+export const LEAVE_TYPES: { value: LeaveType; label: string }[] = [
+  { value: "sick", label: "Sick Leave" },
+  { value: "casual", label: "Casual Leave" },
+  { value: "unpaid", label: "Unpaid Leave" },
+];
+
+export const getLeaveTypeLabel = (type: LeaveType | undefined) =>
+  LEAVE_TYPES.find((t) => t.value === type)?.label || "Leave";
+
+/**
+ * Whether a day of this leave type is paid at the daily wage
+ */
+export const isPaidLeave = (type: LeaveType | undefined) => type === "sick" || type === "casual";
+
+export interface LeaveAllowance {
+  sick: number; // days per calendar year
+  casual: number;
+}
+
+export interface LeaveRequest {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+  type: LeaveType;
+  fromDate: string; // yyyy-MM-dd
+  toDate: string; // yyyy-MM-dd, inclusive
+  days: number;
+  reason?: string;
+  status: LeaveStatus;
+  requestedBy?: string;
+  decidedBy?: string;
+  decidedAt?: Timestamp;
+  rejectionReason?: string;
+  createdAt?: Timestamp;
+}
+
+export interface LeaveBalance {
+  type: LeaveType;
+  allowed: number;
+  used: number;
+  remaining: number;
+}
+
+export type LeaveEmployee = WeeklyOffEmployee & { id: string };
+
+/**
+ * Working days (yyyy-MM-dd) a leave covers: holidays and the worker's weekly off are left out
+ */
+export const getLeaveDates = (
+  fromDate: string,
+  toDate: string,
+  holidays: Holiday[],
+  employee?: WeeklyOffEmployee
+): string[] => {
+  if (!fromDate || !toDate) return [];
+  return getWorkingDays(fromDate, toDate, holidays, employee);
+};
+
+/**
+ * Paid leave a worker has used and has left in a year, from their approved requests
+ */
+export const getLeaveBalances = (
+  requests: LeaveRequest[],
+  employee: LeaveEmployee,
+  year: string,
+  allowance: LeaveAllowance,
+  holidays: Holiday[]
+): LeaveBalance[] =>
+  (["sick", "casual"] as const).map((type) => {
+    const used = requests
+      .filter((r) => r.employeeId === employee.id && r.type === type && r.status === "approved")
+      .reduce(
+        (sum, r) =>
+          sum + getLeaveDates(r.fromDate, r.toDate, holidays, employee).filter((d) => d.startsWith(year)).length,
+        0
+      );
+    return { type, allowed: allowance[type], used, remaining: allowance[type] - used };
+  });
+
+/**
+ * Approve a request and mark the worker on leave for each of its working days, in one batch
+ * Attendance already marked for those days is overwritten; holidays and weekly offs are not touched.
+ */
+export const approveLeaveRequest = async (
+  request: LeaveRequest,
+  decidedBy: string,
+  holidays: Holiday[],
+  employee?: WeeklyOffEmployee
+) => {
+  const dates = getLeaveDates(request.fromDate, request.toDate, holidays, employee);
+  // Filter dates here rather than in the query, so no composite index is needed
+  const snapshot = await getDocs(query(collection(db, "attendance"), where("employeeId", "==", request.employeeId)));
+  const existing = new Map(
+    snapshot.docs.filter((d) => dates.includes(d.data().date)).map((d) => [d.data().date as string, d.ref])
+  );
+
+  const batch = writeBatch(db);
+  batch.update(doc(db, "leaveRequests", request.id), {
+    status: "approved",
+    decidedBy,
+    decidedAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+
+  dates.forEach((date) => {
+    const leaveFields = {
+      status: "leave",
+      leaveType: request.type,
+      leaveRequestId: request.id,
+      checkIn: "",
+      checkOut: "",
+      workHours: 0,
+      overtimeHours: 0,
+      notes: request.reason ? `${getLeaveTypeLabel(request.type)}: ${request.reason}` : getLeaveTypeLabel(request.type),
+      updatedAt: Timestamp.now(),
+    };
+    const ref = existing.get(date);
+    if (ref) {
+      batch.update(ref, leaveFields);
+    } else {
+      batch.set(doc(db, "attendance", attendanceDocId(request.employeeId, date)), {
+        employeeId: request.employeeId,
+        employeeName: request.employeeName,
+        date,
+        ...leaveFields,
+        createdAt: Timestamp.now(),
+      });
+    }
+  });
+
+  await batch.commit();
+};
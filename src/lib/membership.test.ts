@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  calculateEndDate,
+  getEffectiveStatus,
+  getEndDate,
+  getMembersWithLateEndDates,
+  getMembershipStatus,
+} from "./membership";
+
+vi.mock("./firebase", () => ({ db: {} }));
+
+const TODAY = new Date(2024, 0, 10); // 2024-01-10
+
+describe("calculateEndDate", () => {
+  it("ends a day-based membership on its last day", () => {
+    expect(calculateEndDate("2024-01-01", "10days")).toBe("2024-01-10");
+    expect(calculateEndDate("2024-01-01", "1day")).toBe("2024-01-01");
+  });
+
+  it("ends a month-based membership the day before the same date next month", () => {
+    expect(calculateEndDate("2024-01-01", "1month")).toBe("2024-01-31");
+    expect(calculateEndDate("2024-01-15", "3month")).toBe("2024-04-14");
+    expect(calculateEndDate("2024-01-31", "1month")).toBe("2024-02-28");
+  });
+
+  it("is null for a missing or unrecognised duration", () => {
+    expect(calculateEndDate("2024-01-01", undefined)).toBeNull();
+    expect(calculateEndDate("2024-01-01", "weekly")).toBeNull();
+    expect(calculateEndDate("", "10days")).toBeNull();
+  });
+});
+
+describe("getEndDate", () => {
+  it("prefers the stored end date, then the current period", () => {
+    expect(getEndDate({ joinDate: "2024-01-01", membershipDuration: "10days", endDate: "2024-02-01" })).toBe(
+      "2024-02-01"
+    );
+    expect(getEndDate({ joinDate: "2023-01-01", periodStart: "2024-01-01", membershipDuration: "10days" })).toBe(
+      "2024-01-10"
+    );
+  });
+});
+
+describe("getMembershipStatus", () => {
+  it("keeps the membership active through its last day", () => {
+    expect(getMembershipStatus("2024-01-10", TODAY)).toBe("Expiring Soon");
+    expect(getMembershipStatus("2024-01-09", TODAY)).toBe("Expired");
+    expect(getMembershipStatus("2024-02-10", TODAY)).toBe("Active");
+  });
+
+  it("expires a 10 day membership after its tenth day", () => {
+    const member = { joinDate: "2024-01-01", membershipDuration: "10days" };
+    expect(getEffectiveStatus(member, TODAY)).toBe("Expiring Soon");
+    expect(getEffectiveStatus(member, new Date(2024, 0, 11))).toBe("Expired");
+  });
+
+  it("keeps statuses set by hand", () => {
+    const member = { joinDate: "2023-01-01", membershipDuration: "10days", status: "Inactive" };
+    expect(getEffectiveStatus(member, TODAY)).toBe("Inactive");
+  });
+});
+
+describe("getMembersWithLateEndDates", () => {
+  it("moves end dates saved by the old calculation back a day", () => {
+    const members = [
+      { id: "m1", joinDate: "2024-01-01", membershipDuration: "10days", endDate: "2024-01-11" },
+      { id: "m2", joinDate: "2024-01-01", membershipDuration: "1month", endDate: "2024-02-01" },
+      {
+        id: "m3",
+        joinDate: "2023-01-01",
+        periodStart: "2024-03-01",
+        membershipDuration: "1month",
+        endDate: "2024-04-01",
+      },
+    ];
+
+    expect(getMembersWithLateEndDates(members).map((m) => [m.id, m.endDate])).toEqual([
+      ["m1", "2024-01-10"],
+      ["m2", "2024-01-31"],
+      ["m3", "2024-03-31"],
+    ]);
+  });
+
+  it("leaves correct and hand-edited end dates alone", () => {
+    const members = [
+      { id: "m1", joinDate: "2024-01-01", membershipDuration: "10days", endDate: "2024-01-10" },
+      { id: "m2", joinDate: "2024-01-01", membershipDuration: "10days", endDate: "2024-03-01" },
+      { id: "m3", joinDate: "2024-01-01", membershipDuration: "10days" },
+    ];
+
+    expect(getMembersWithLateEndDates(members)).toEqual([]);
+  });
+});
@@ -0,0 +1,270 @@
+import { collection, doc, getDocs, Timestamp, writeBatch } from "firebase/firestore";
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO, startOfDay } from "date-fns";
+import { db } from "./firebase";
+import { buildPendingWork } from "./works";
+
+/**
+ * Membership period helpers
+ * `membershipDuration` is stored as a string like "10days" or "3month" (see ContactForm).
+ * `endDate` is the last valid day: a 10 day membership from Jan 1 ends on Jan 10.
+ */
+
+export type MembershipStatus = "Active" | "Expiring Soon" | "Expired";
+
+// Members whose end date is this close are shown as "Expiring Soon"
+export const EXPIRING_SOON_DAYS = 7;
+
+const COMPUTED_STATUSES: string[] = ["Active", "Expiring Soon", "Expired"];
+
+export const MEMBERSHIP_DURATIONS = [
+  { value: "10days", label: "10 days" },
+  { value: "15days", label: "15 days" },
+  { value: "20days", label: "20 days" },
+  { value: "30days", label: "30 days" },
+  { value: "60days", label: "60 days" },
+  { value: "3month", label: "3 months" },
+  { value: "4month", label: "4 months" },
+  { value: "5month", label: "5 months" },
+  { value: "6month", label: "6 months" },
+  { value: "7month", label: "7 months" },
+  { value: "8month", label: "8 months" },
+  { value: "9month", label: "9 months" },
+  { value: "10month", label: "10 months" },
+  { value: "11month", label: "11 months" },
+  { value: "12month", label: "12 months" },
+];
+
+export interface MembershipPeriod {
+  joinDate: string;
+  periodStart?: string; // start of the current period, set on renewal
+  membershipDuration?: string;
+  endDate?: string;
+  status?: string;
+}
+
+export interface RenewableMember extends MembershipPeriod {
+  id: string;
+  name: string;
+  contact: string;
+  address: string;
+  membershipType: string;
+  rate: string;
+  visitFrequency?: string;
+  customerId?: string;
+}
+
+export interface RenewalDetails {
+  membershipDuration: string;
+  rate: string;
+  startDate: string; // yyyy-MM-dd
+  visitFrequency?: string;
+  assignedTo?: string;
+  secondWorker?: string;
+}
+
+/**
+ * Members store the rate as display text, e.g. "₹1500"
+ */
+export const formatRate = (rate: string | number) => `₹${rate || 0}`;
+
+/**
+ * Read the number back out of a stored rate like "₹1,500"
+ */
+export const parseRate = (rate: string | null | undefined): number => Number((rate || "").replace(/[^\d.]/g, "")) || 0;
+
+/**
+ * Parse a stored duration like "10days" or "3month"
+ * @returns The amount and unit, or null if the duration is not recognised
+ */
+export const parseMembershipDuration = (
+  duration: string | null | undefined
+): { amount: number; unit: "days" | "months" } | null => {
+  const match = duration?.trim().toLowerCase().match(/^(\d+)\s*(days?|months?)$/);
+  if (!match) return null;
+
+  const amount = parseInt(match[1], 10);
+  if (!amount) return null;
+  return { amount, unit: match[2].startsWith("day") ? "days" : "months" };
+};
+
+/**
+ * Calculate the last day of a membership from its join date and duration
+ * e.g. "10days" from Jan 1 ends on Jan 10, "1month" from Jan 1 ends on Jan 31
+ * @returns End date as yyyy-MM-dd, or null if either value is missing/invalid
+ */
+export const calculateEndDate = (joinDate: string, duration: string | null | undefined): string | null => {
+  const parsed = parseMembershipDuration(duration);
+  if (!parsed || !joinDate) return null;
+
+  const join = parseISO(joinDate);
+  if (isNaN(join.getTime())) return null;
+
+  const end =
+    parsed.unit === "days" ? addDays(join, parsed.amount - 1) : addDays(addMonths(join, parsed.amount), -1);
+  return format(end, "yyyy-MM-dd");
+};
+
+/**
+ * End date for a member - the stored value, or calculated for members created before it was stored
+ */
+export const getEndDate = (member: MembershipPeriod): string | null =>
+  member.endDate || calculateEndDate(member.periodStart || member.joinDate, member.membershipDuration);
+
+/**
+ * Days left until the membership ends (0 on the last day, negative once expired)
+ */
+export const getDaysRemaining = (endDate: string, today: Date = new Date()): number =>
+  differenceInCalendarDays(parseISO(endDate), startOfDay(today));
+
+/**
+ * Status a member should have today, based on their end date
+ */
+export const getMembershipStatus = (endDate: string, today: Date = new Date()): MembershipStatus => {
+  const daysRemaining = getDaysRemaining(endDate, today);
+  if (daysRemaining < 0) return "Expired";
+  if (daysRemaining <= EXPIRING_SOON_DAYS) return "Expiring Soon";
+  return "Active";
+};
+
+/**
+ * Status to display for a member
+ * Statuses set by hand (e.g. "Inactive") are kept; only Active/Expiring Soon/Expired are computed.
+ */
+export const getEffectiveStatus = (member: MembershipPeriod, today: Date = new Date()): string => {
+  const endDate = getEndDate(member);
+  if (!endDate || (member.status && !COMPUTED_STATUSES.includes(member.status))) {
+    return member.status || "Active";
+  }
+  return getMembershipStatus(endDate, today);
+};
+
+const saveMemberPeriods = async (updates: { id: string; endDate?: string; status: string }[]) => {
+  // Firestore batches are limited to 500 writes
+  for (let i = 0; i < updates.length; i += 400) {
+    const batch = writeBatch(db);
+    updates.slice(i, i + 400).forEach(({ id, ...fields }) =>
+      batch.update(doc(db, "membershipMembers", id), { ...fields, updatedAt: Timestamp.now() })
+    );
+    await batch.commit();
+  }
+};
+
+/**
+ * Save the computed status, and the end date if it isn't stored yet, for members that are out of date
+ * @returns Number of members updated
+ */
+export const syncMembershipStatuses = async (
+  members: (MembershipPeriod & { id: string })[],
+  today: Date = new Date()
+): Promise<number> => {
+  const updates: { id: string; endDate?: string; status: string }[] = [];
+
+  members.forEach((member) => {
+    const endDate = getEndDate(member);
+    if (!endDate) return;
+
+    const status = getEffectiveStatus(member, today);
+    if (!member.endDate || member.status !== status) {
+      // A stored end date is never rewritten here, so this can't undo a change saved meanwhile
+      updates.push({ id: member.id, ...(member.endDate ? {} : { endDate }), status });
+    }
+  });
+
+  await saveMemberPeriods(updates);
+  return updates.length;
+};
+
+/**
+ * Sync the status of every member, so expiries show everywhere without opening the members page
+ * @returns Number of members updated
+ */
+export const syncAllMembershipStatuses = async (today: Date = new Date()): Promise<number> => {
+  const snapshot = await getDocs(collection(db, "membershipMembers"));
+  const members = snapshot.docs.map((d) => ({ id: d.id, ...d.data() }) as MembershipPeriod & { id: string });
+  return syncMembershipStatuses(members, today);
+};
+
+/**
+ * Members whose stored end date came from the old calculation, which saved the day after the last day
+ * End dates that don't match it exactly (e.g. edited by hand) are left alone.
+ * @returns The members with their corrected end date
+ */
+export const getMembersWithLateEndDates = <T extends MembershipPeriod>(members: T[]): T[] =>
+  members.flatMap((member) => {
+    const endDate = calculateEndDate(member.periodStart || member.joinDate, member.membershipDuration);
+    if (!endDate || member.endDate !== format(addDays(parseISO(endDate), 1), "yyyy-MM-dd")) return [];
+    return [{ ...member, endDate }];
+  });
+
+/**
+ * Move end dates saved by the old calculation back to the membership's last day
+ */
+export const fixMembershipEndDates = async (today: Date = new Date()) => {
+  const snapshot = await getDocs(collection(db, "membershipMembers"));
+  const members = snapshot.docs.map((d) => ({ id: d.id, ...d.data() }) as MembershipPeriod & { id: string });
+  const fixed = getMembersWithLateEndDates(members);
+
+  await saveMemberPeriods(
+    fixed.map((member) => ({ id: member.id, endDate: member.endDate, status: getEffectiveStatus(member, today) }))
+  );
+  return { members: fixed.length };
+};
+
+/**
+ * Extend a membership with a new period
+ * The period being replaced is kept in `membershipMembers/{id}/renewals`, and a pending work
+ * is created for the new period just like ContactForm does for new members.
+ * @returns End date of the new period
+ */
+export const renewMembership = async (member: RenewableMember, details: RenewalDetails): Promise<string> => {
+  const endDate = calculateEndDate(details.startDate, details.membershipDuration);
+  if (!endDate) {
+    throw new Error(`Invalid membership duration: ${details.membershipDuration}`);
+  }
+
+  const memberRef = doc(db, "membershipMembers", member.id);
+  const batch = writeBatch(db);
+
+  batch.set(doc(collection(memberRef, "renewals")), {
+    startDate: member.periodStart || member.joinDate,
+    endDate: getEndDate(member),
+    membershipDuration: member.membershipDuration || "",
+    rate: member.rate || "",
+    status: getEffectiveStatus(member),
+    renewedAt: Timestamp.now(),
+  });
+
+  batch.update(memberRef, {
+    periodStart: details.startDate,
+    membershipDuration: details.membershipDuration,
+    rate: formatRate(details.rate),
+    ...(details.visitFrequency ? { visitFrequency: details.visitFrequency } : {}),
+    endDate,
+    status: getMembershipStatus(endDate),
+    updatedAt: Timestamp.now(),
+  });
+
+  batch.set(doc(collection(db, "pendingWorks")), {
+    ...buildPendingWork({
+      customerName: member.name,
+      contact: member.contact,
+      address: member.address,
+      workType: member.membershipType,
+      type: "membership",
+      rate: details.rate,
+      date: details.startDate,
+      assignedTo: details.assignedTo,
+      secondWorker: details.secondWorker,
+      membershipDuration: details.membershipDuration,
+      customerId: member.customerId,
+      memberId: member.id,
+      membershipWork: "renewal",
+      description: `Membership Renewal - ${member.membershipType}`,
+    }),
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+
+  await batch.commit();
+  return endDate;
+};
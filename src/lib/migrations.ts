@@ -0,0 +1,64 @@
+import { doc, getDoc, setDoc, Timestamp } from "firebase/firestore";
+import { db } from "./firebase";
+import { backfillCustomers } from "./customers";
+import { seedDefaultServices } from "./services";
+import { settleLegacyUpads } from "./upads";
+import { fixMembershipEndDates } from "./membership";
+
+/**
+ * One-off Firestore data migrations
+ * Completed migrations are recorded in `meta/migrations` so each runs only once.
+ */
+
+interface Migration {
+  id: string;
+  description: string;
+  run: () => Promise<unknown>;
+}
+
+// Add new migrations at the end of the list - never reorder or remove them
+const MIGRATIONS: Migration[] = [
+  {
+    id: "customers-backfill",
+    description: "Create customers from existing works and members",
+    run: backfillCustomers,
+  },
+  {
+    id: "services-seed",
+    description: "Create the service catalog from the old inquiry types",
+    run: seedDefaultServices,
+  },
+  {
+    id: "upads-legacy-settlement",
+    description: "Record advances from before the upad ledger as already deducted from salary",
+    run: settleLegacyUpads,
+  },
+  {
+    id: "membership-end-dates",
+    description: "Store membership end dates as the last valid day",
+    run: fixMembershipEndDates,
+  },
+];
+
+/**
+ * Run every migration that hasn't been recorded as done yet
+ * @returns Ids of the migrations that ran
+ */
+export const runPendingMigrations = async (): Promise<string[]> => {
+  const metaRef = doc(db, "meta", "migrations");
+  const metaDoc = await getDoc(metaRef);
+  const completed: Record<string, unknown> = metaDoc.exists() ? metaDoc.data() : {};
+  const ran: string[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (completed[migration.id]) continue;
+
+    console.log(`🔄 Running migration: ${migration.description}...`);
+    const result = await migration.run();
+    await setDoc(metaRef, { [migration.id]: Timestamp.now() }, { merge: true });
+    console.log(`✅ Migration complete: ${migration.id}`, result);
+    ran.push(migration.id);
+  }
+
+  return ran;
+};
@@ -0,0 +1,76 @@
+import { arrayUnion, doc, setDoc, Timestamp, WriteBatch } from "firebase/firestore";
+import { format, parseISO } from "date-fns";
+import { db } from "./firebase";
+
+/**
+ * Month locks
+ * Once a month's salaries are settled the month is locked in `monthLocks/{yyyy-MM}`: attendance
+ * and upads dated in it can no longer be added, changed or deleted (firestore.rules enforce this
+ * too). Reopening needs a reason; every lock and reopen is added to `history`, which the rules
+ * only let grow by one event per write.
+ */
+
+export interface MonthLockEvent {
+  action: "lock" | "reopen";
+  by: string;
+  at: Timestamp;
+  reason?: string;
+}
+
+export interface MonthLock {
+  id: string; // yyyy-MM
+  month: string;
+  locked: boolean;
+  lockedBy?: string;
+  lockedAt?: Timestamp;
+  reopenReason?: string;
+  history?: MonthLockEvent[];
+}
+
+/**
+ * Whether the month a date (yyyy-MM-dd) or month (yyyy-MM) falls in is locked
+ */
+export const isMonthLocked = (locks: MonthLock[], date: string) =>
+  locks.some((lock) => lock.id === date.slice(0, 7) && lock.locked);
+
+/**
+ * Message to show when something dated in a locked month can't be changed
+ */
+export const getLockedMonthMessage = (date: string) =>
+  `${format(parseISO(`${date.slice(0, 7)}-01`), "MMMM yyyy")} is locked because its salaries are settled`;
+
+const lockData = (month: string, by: string) => {
+  const event: MonthLockEvent = { action: "lock", by, at: Timestamp.now() };
+  return {
+    month,
+    locked: true,
+    lockedBy: by,
+    lockedAt: Timestamp.now(),
+    history: arrayUnion(event),
+    updatedAt: Timestamp.now(),
+  };
+};
+
+/**
+ * Lock a month, optionally as part of another batch (e.g. finalizing its payroll)
+ */
+export const lockMonth = async (month: string, by: string, batch?: WriteBatch) => {
+  const ref = doc(db, "monthLocks", month);
+  if (batch) {
+    batch.set(ref, lockData(month, by), { merge: true });
+    return;
+  }
+  await setDoc(ref, lockData(month, by), { merge: true });
+};
+
+/**
+ * Reopen a locked month so its attendance and upads can be corrected
+ */
+export const reopenMonth = async (month: string, by: string, reason: string) => {
+  const event: MonthLockEvent = { action: "reopen", by, at: Timestamp.now(), reason };
+  await setDoc(
+    doc(db, "monthLocks", month),
+    { month, locked: false, reopenReason: reason, history: arrayUnion(event), updatedAt: Timestamp.now() },
+    { merge: true }
+  );
+};
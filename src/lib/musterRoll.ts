@@ -0,0 +1,116 @@
+import { eachDayOfInterval, endOfMonth, format, parseISO } from "date-fns";
+import { AttendanceStatus } from "./attendance";
+
+/**
+ * Muster roll
+ * A month of attendance as a grid of workers × days, with each worker's totals. Used by the
+ * muster roll page and its PDF/CSV exports; days without a record are left blank.
+ */
+
+export interface MusterAttendance {
+  id: string;
+  employeeId: string;
+  date: string; // yyyy-MM-dd
+  status: AttendanceStatus;
+  overtimeHours?: number;
+}
+
+export interface MusterEmployee {
+  id: string;
+  name: string;
+}
+
+export interface MusterTotals {
+  present: number;
+  halfDays: number;
+  absent: number;
+  leave: number;
+  off: number; // holidays and weekly offs
+  daysWorked: number; // a half day counts as 0.5
+  overtimeHours: number;
+}
+
+export interface MusterRow<E extends MusterEmployee, R extends MusterAttendance> {
+  employee: E;
+  cells: (R | undefined)[]; // one per day of the month
+  totals: MusterTotals;
+}
+
+// Short codes used in the grid and the exports
+export const MUSTER_CODES: Record<AttendanceStatus, string> = {
+  present: "P",
+  "half-day": "HD",
+  absent: "A",
+  leave: "L",
+  holiday: "HO",
+  "week-off": "WO",
+};
+
+/**
+ * Every date (yyyy-MM-dd) of a month (yyyy-MM)
+ */
+export const getMonthDates = (month: string) => {
+  const start = parseISO(`${month}-01`);
+  return eachDayOfInterval({ start, end: endOfMonth(start) }).map((d) => format(d, "yyyy-MM-dd"));
+};
+
+/**
+ * Day-wise attendance and totals for each worker in a month
+ */
+export const getMusterRoll = <E extends MusterEmployee, R extends MusterAttendance>(
+  employees: E[],
+  records: R[],
+  month: string
+): MusterRow<E, R>[] => {
+  const dates = getMonthDates(month);
+  const byKey = new Map(
+    records.filter((r) => r.date.startsWith(month)).map((r) => [`${r.employeeId}_${r.date}`, r] as const)
+  );
+
+  return employees.map((employee) => {
+    const cells = dates.map((date) => byKey.get(`${employee.id}_${date}`));
+    const count = (...statuses: AttendanceStatus[]) => cells.filter((c) => c && statuses.includes(c.status)).length;
+    const present = count("present");
+    const halfDays = count("half-day");
+    const overtimeHours = cells.reduce((sum, c) => sum + (c?.overtimeHours || 0), 0);
+
+    return {
+      employee,
+      cells,
+      totals: {
+        present,
+        halfDays,
+        absent: count("absent"),
+        leave: count("leave"),
+        off: count("holiday", "week-off"),
+        daysWorked: present + halfDays / 2,
+        overtimeHours: Math.round(overtimeHours * 100) / 100,
+      },
+    };
+  });
+};
+
+const csvValue = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Muster roll as CSV: one row per worker with a code for each day and their totals
+ */
+export const getMusterRollCsv = (rows: MusterRow<MusterEmployee, MusterAttendance>[], month: string) => {
+  const days = getMonthDates(month).map((date) => date.slice(8));
+  const headers = ["Worker", ...days, "Present", "Half Day", "Absent", "Leave", "Holiday/Off", "Days Worked", "OT Hours"];
+  const lines = rows.map(({ employee, cells, totals }) => [
+    employee.name,
+    ...cells.map((c) => (c ? MUSTER_CODES[c.status] : "")),
+    totals.present,
+    totals.halfDays,
+    totals.absent,
+    totals.leave,
+    totals.off,
+    totals.daysWorked,
+    totals.overtimeHours,
+  ]);
+  return [headers, ...lines].map((line) => line.map(csvValue).join(",")).join("\n");
+};
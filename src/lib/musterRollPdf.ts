@@ -0,0 +1,105 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format, parseISO } from "date-fns";
+import { drawBusinessHeader, drawSignatureBox, drawText } from "./pdf";
+import { AttendanceStatus } from "./attendance";
+import { getMonthDates, MUSTER_CODES, MusterAttendance, MusterEmployee, MusterRow } from "./musterRoll";
+
+const CELL_COLORS: Record<AttendanceStatus, [number, number, number]> = {
+  present: [220, 252, 231],
+  "half-day": [254, 249, 195],
+  absent: [254, 226, 226],
+  leave: [219, 234, 254],
+  holiday: [243, 232, 255],
+  "week-off": [243, 244, 246],
+};
+
+/**
+ * Build and download the muster roll for a month: workers × days with each worker's totals
+ */
+export const downloadMusterRollPdf = async (rows: MusterRow<MusterEmployee, MusterAttendance>[], month: string) => {
+  const pdf = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
+  const pageWidth = pdf.internal.pageSize.width;
+  const dates = getMonthDates(month);
+  const monthLabel = format(parseISO(`${month}-01`), "MMMM yyyy");
+
+  const headerEnd = await drawBusinessHeader(pdf);
+
+  pdf.setFontSize(12);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(`MUSTER ROLL - ${monthLabel.toUpperCase()}`, pageWidth / 2, headerEnd + 6, { align: "center" });
+  pdf.setFontSize(8);
+  pdf.setFont("helvetica", "normal");
+  pdf.text(
+    "P = Present, HD = Half Day, A = Absent, L = Leave, HO = Holiday, WO = Weekly Off",
+    pageWidth / 2,
+    headerEnd + 11,
+    { align: "center" }
+  );
+
+  autoTable(pdf, {
+    startY: headerEnd + 15,
+    head: [
+      [
+        "Worker",
+        ...dates.map((date) => `${date.slice(8)}\n${format(parseISO(date), "EEEEE")}`),
+        "P",
+        "HD",
+        "A",
+        "L",
+        "Off",
+        "Days",
+        "OT",
+      ],
+    ],
+    body: rows.map(({ cells, totals }) => [
+      "",
+      ...cells.map((c) => (c ? MUSTER_CODES[c.status] : "")),
+      String(totals.present),
+      String(totals.halfDays),
+      String(totals.absent),
+      String(totals.leave),
+      String(totals.off),
+      String(totals.daysWorked),
+      String(totals.overtimeHours),
+    ]),
+    theme: "grid",
+    margin: { left: 10, right: 10 },
+    styles: {
+      fontSize: 6.5,
+      cellPadding: 1,
+      halign: "center",
+      valign: "middle",
+      textColor: [0, 0, 0],
+      lineColor: [0, 0, 0],
+      lineWidth: 0.1,
+    },
+    headStyles: { fillColor: [240, 240, 240], textColor: [0, 0, 0], fontStyle: "bold" },
+    columnStyles: { 0: { cellWidth: 38, halign: "left" } },
+    didParseCell: (data) => {
+      const dayIndex = data.column.index - 1;
+      if (data.section !== "body" || dayIndex < 0 || dayIndex >= dates.length) return;
+      const record = rows[data.row.index].cells[dayIndex];
+      if (record) data.cell.styles.fillColor = CELL_COLORS[record.status];
+    },
+    didDrawCell: (data) => {
+      // Worker names are often in Gujarati, so they are drawn as images
+      if (data.section === "body" && data.column.index === 0) {
+        drawText(pdf, rows[data.row.index].employee.name, data.cell.x + 1, data.cell.y + data.cell.height / 2 + 1.2, {
+          size: 7,
+        });
+      }
+    },
+  });
+
+  const tableEnd = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+  const pageHeight = pdf.internal.pageSize.height;
+  if (tableEnd + 40 > pageHeight) {
+    pdf.addPage();
+    drawSignatureBox(pdf, 20);
+  } else {
+    drawSignatureBox(pdf, tableEnd + 8);
+  }
+
+  pdf.save(`muster-roll-${month}.pdf`);
+};
@@ -0,0 +1,54 @@
+/**
+ * Spell out rupee amounts for invoices, using the Indian numbering system
+ * e.g. 125000.5 -> "Rupees One Lakh Twenty Five Thousand and Fifty Paise Only"
+ */
+
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+const twoDigits = (n: number) => (n < 20 ? ONES[n] : `${TENS[Math.floor(n / 10)]} ${ONES[n % 10]}`.trim());
+
+const threeDigits = (n: number) => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : "", rest ? twoDigits(rest) : ""].filter(Boolean).join(" ");
+};
+
+/**
+ * Spell out a whole number, e.g. 1234567 -> "Twelve Lakh Thirty Four Thousand Five Hundred Sixty Seven"
+ */
+export const numberToWords = (value: number): string => {
+  let n = Math.floor(Math.abs(value));
+  if (n === 0) return "Zero";
+
+  const parts: string[] = [];
+  const crore = Math.floor(n / 10000000);
+  n %= 10000000;
+  const lakh = Math.floor(n / 100000);
+  n %= 100000;
+  const thousand = Math.floor(n / 1000);
+  n %= 1000;
+
+  // Amounts of a hundred crore or more still read naturally, e.g. "One Hundred Twenty Crore"
+  if (crore) parts.push(`${numberToWords(crore)} Crore`);
+  if (lakh) parts.push(`${twoDigits(lakh)} Lakh`);
+  if (thousand) parts.push(`${twoDigits(thousand)} Thousand`);
+  if (n) parts.push(threeDigits(n));
+
+  return parts.join(" ");
+};
+
+/**
+ * Spell out a rupee amount for the "amount in words" line of an invoice
+ */
+export const amountInWords = (amount: number): string => {
+  const rounded = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(rounded / 100);
+  const paise = rounded % 100;
+
+  const words = `Rupees ${numberToWords(rupees)}`;
+  return paise ? `${words} and ${twoDigits(paise)} Paise Only` : `${words} Only`;
+};
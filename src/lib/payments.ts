@@ -0,0 +1,93 @@
+import { collection, doc, increment, Timestamp, writeBatch } from "firebase/firestore";
+import { db } from "./firebase";
+
+/**
+ * Payments collected against works
+ * Every payment is a document in `payments` with the `workId` it was collected for. The
+ * running total is also kept on the work as `amountPaid`, so work lists can show paid/due
+ * without loading every payment.
+ */
+
+export type PaymentMethod = "cash" | "upi" | "bank" | "cheque";
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: "cash", label: "Cash" },
+  { value: "upi", label: "UPI" },
+  { value: "bank", label: "Bank Transfer" },
+  { value: "cheque", label: "Cheque" },
+];
+
+export const getPaymentMethodLabel = (method: PaymentMethod) =>
+  PAYMENT_METHODS.find((m) => m.value === method)?.label || method;
+
+export interface Payment {
+  id: string;
+  workId: string;
+  customerId?: string;
+  customerName: string;
+  contact: string;
+  amount: number;
+  method: PaymentMethod;
+  date: string; // yyyy-MM-dd
+  reference?: string; // UPI transaction id, cheque number, ...
+  note?: string;
+  createdAt?: Timestamp;
+}
+
+export interface PayableWork {
+  id: string;
+  customerName: string;
+  contact: string;
+  customerId?: string;
+  estimatedCost: number;
+  invoiceTotal?: number;
+  amountPaid?: number;
+}
+
+export type PaymentStatus = "paid" | "partial" | "unpaid";
+
+/**
+ * Amount the customer owes for a work: the invoice total once billed (it may include GST),
+ * otherwise the work's rate
+ */
+export const getWorkTotal = (work: PayableWork) => Number(work.invoiceTotal ?? work.estimatedCost ?? 0);
+
+export const getAmountDue = (work: PayableWork) => Math.max(getWorkTotal(work) - Number(work.amountPaid || 0), 0);
+
+export const getPaymentStatus = (work: PayableWork): PaymentStatus => {
+  const paid = Number(work.amountPaid || 0);
+  if (paid <= 0) return getWorkTotal(work) > 0 ? "unpaid" : "paid";
+  return getAmountDue(work) > 0 ? "partial" : "paid";
+};
+
+/**
+ * Save a payment and add it to the work's `amountPaid` in one batch
+ */
+export const recordPayment = async (
+  work: PayableWork,
+  details: { amount: number; method: PaymentMethod; date: string; reference?: string; note?: string }
+): Promise<string> => {
+  const batch = writeBatch(db);
+  const paymentRef = doc(collection(db, "payments"));
+
+  batch.set(paymentRef, {
+    workId: work.id,
+    ...(work.customerId ? { customerId: work.customerId } : {}),
+    customerName: work.customerName || "",
+    contact: work.contact || "",
+    amount: details.amount,
+    method: details.method,
+    date: details.date,
+    ...(details.reference ? { reference: details.reference } : {}),
+    ...(details.note ? { note: details.note } : {}),
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+  batch.update(doc(db, "pendingWorks", work.id), {
+    amountPaid: increment(details.amount),
+    updatedAt: Timestamp.now(),
+  });
+
+  await batch.commit();
+  return paymentRef.id;
+};
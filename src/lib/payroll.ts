@@ -0,0 +1,140 @@
+import { collection, doc, Timestamp, writeBatch } from "firebase/firestore";
+import { endOfMonth, format, parseISO } from "date-fns";
+import { db } from "./firebase";
+import { getAttendanceSalary, getDailyWage, getOvertimePay, SalaryAttendance, WageEmployee } from "./salary";
+import { getMonthEndUpadBalance, UpadEntry } from "./upads";
+import { lockMonth } from "./monthLocks";
+
+/**
+ * Monthly payroll
+ * A payroll run is saved once per month in `payrollRuns/{yyyy-MM}` and freezes what each
+ * worker was paid: attendance counts, wage, advances (upads) recovered, bonus and deductions.
+ * The advances it recovers go into the upad ledger as salary deductions; whatever the salary
+ * could not cover carries forward to the next month. Finalizing a run also locks the month.
+ */
+
+export type PayoutMethod = "cash" | "upi" | "bank";
+
+export const PAYOUT_METHODS: { value: PayoutMethod; label: string }[] = [
+  { value: "cash", label: "Cash" },
+  { value: "upi", label: "UPI" },
+  { value: "bank", label: "Bank Transfer" },
+];
+
+export interface PayrollEmployee extends WageEmployee {
+  name: string;
+}
+
+export interface PayrollEntry {
+  employeeId: string;
+  employeeName: string;
+  presentDays: number;
+  halfDays: number;
+  absentDays: number;
+  leaveDays: number;
+  holidayDays?: number;
+  weekOffDays?: number;
+  dailyWage: number; // wage at the end of the month
+  attendanceSalary: number; // includes overtime pay
+  overtimeHours?: number;
+  overtimePay?: number;
+  advanceBalance: number; // owed at the end of the month, before this payroll
+  advances: number; // recovered in this payroll
+  bonus: number;
+  deduction: number;
+  deductionNote?: string;
+  netPay: number;
+}
+
+export interface PayrollRun {
+  id: string; // yyyy-MM
+  month: string; // yyyy-MM
+  entries: PayrollEntry[];
+  totalNetPay: number;
+  paidOn: string; // yyyy-MM-dd
+  paymentMethod: PayoutMethod;
+  createdAt?: Timestamp;
+}
+
+export const getNetPay = (entry: Pick<PayrollEntry, "attendanceSalary" | "advances" | "bonus" | "deduction">) =>
+  entry.attendanceSalary + entry.bonus - entry.advances - entry.deduction;
+
+/**
+ * Work out a worker's pay for a month from their attendance and advance balance
+ * Advances are recovered up to the month's salary; the rest carries forward.
+ * @param attendance - Attendance records of this worker for the month
+ */
+export const buildPayrollEntry = (
+  employee: PayrollEmployee,
+  attendance: SalaryAttendance[],
+  upads: UpadEntry[],
+  month: string
+): PayrollEntry => {
+  const count = (status: string) => attendance.filter((r) => r.status === status).length;
+  const monthEnd = format(endOfMonth(parseISO(`${month}-01`)), "yyyy-MM-dd");
+  const attendanceSalary = attendance.reduce((sum, r) => sum + getAttendanceSalary(r, employee), 0);
+  const overtimeHours = attendance.reduce((sum, r) => sum + (r.status === "present" ? r.overtimeHours || 0 : 0), 0);
+  const overtimePay = attendance.reduce((sum, r) => sum + getOvertimePay(r, getDailyWage(employee, r.date)), 0);
+  const advanceBalance = Math.max(getMonthEndUpadBalance(upads, employee.id, month), 0);
+
+  const entry = {
+    employeeId: employee.id,
+    employeeName: employee.name,
+    presentDays: count("present"),
+    halfDays: count("half-day"),
+    absentDays: count("absent"),
+    leaveDays: count("leave"),
+    holidayDays: count("holiday"),
+    weekOffDays: count("week-off"),
+    dailyWage: getDailyWage(employee, monthEnd),
+    attendanceSalary,
+    overtimeHours: Math.round(overtimeHours * 100) / 100,
+    overtimePay,
+    advanceBalance,
+    advances: Math.min(advanceBalance, attendanceSalary),
+    bonus: 0,
+    deduction: 0,
+  };
+  return { ...entry, netPay: getNetPay(entry) };
+};
+
+/**
+ * Save the month's payroll and the advance deductions it makes, and lock the month, in one batch
+ */
+export const finalizePayrollRun = async (
+  month: string,
+  entries: PayrollEntry[],
+  payout: { paidOn: string; paymentMethod: PayoutMethod },
+  finalizedBy: string
+) => {
+  const batch = writeBatch(db);
+  const frozen = entries.map((entry) => ({ ...entry, netPay: getNetPay(entry) }));
+  const monthEnd = format(endOfMonth(parseISO(`${month}-01`)), "yyyy-MM-dd");
+
+  batch.set(doc(db, "payrollRuns", month), {
+    month,
+    entries: frozen,
+    totalNetPay: frozen.reduce((sum, e) => sum + e.netPay, 0),
+    paidOn: payout.paidOn,
+    paymentMethod: payout.paymentMethod,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+  frozen
+    .filter((entry) => entry.advances > 0)
+    .forEach((entry) => {
+      batch.set(doc(collection(db, "upads")), {
+        employeeId: entry.employeeId,
+        type: "deduction",
+        amount: entry.advances,
+        date: monthEnd,
+        note: `Salary ${month}`,
+        payrollMonth: month,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      });
+    });
+  await lockMonth(month, finalizedBy, batch);
+
+  await batch.commit();
+};
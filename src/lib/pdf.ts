@@ -0,0 +1,135 @@
+import jsPDF from "jspdf";
+import logoSmall from "../../img/s.png";
+
+/**
+ * Shared drawing helpers for the PDFs we hand to customers (bills, quotations)
+ * jsPDF's built-in fonts can't shape Gujarati, so Gujarati text is drawn on a canvas
+ * and added to the page as an image.
+ */
+
+const GUJARATI_FONT = '"Nirmala UI", "Shruti", "Noto Sans Gujarati", Arial, sans-serif';
+
+// Canvas pixels per PDF millimetre - high enough that text stays sharp when printed
+const PX_PER_MM = 12;
+const PT_TO_MM = 0.3528;
+
+interface TextOptions {
+  size?: number; // font size in pt, like pdf.setFontSize
+  bold?: boolean;
+  align?: "left" | "center" | "right";
+  color?: string;
+}
+
+/**
+ * Draw text that may contain Gujarati, positioned like pdf.text (y is the baseline)
+ * @returns Width of the drawn text in mm
+ */
+export const drawText = (pdf: jsPDF, text: string, x: number, y: number, options: TextOptions = {}): number => {
+  const { size = 10, bold = false, align = "left", color = "#000000" } = options;
+  if (!text) return 0;
+
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const fontPx = size * PT_TO_MM * PX_PER_MM;
+  const font = `${bold ? "bold " : ""}${fontPx}px ${GUJARATI_FONT}`;
+  ctx.font = font;
+  const padding = 2;
+  canvas.width = Math.ceil(ctx.measureText(text).width) + padding * 2;
+  canvas.height = Math.ceil(fontPx * 1.6);
+
+  // Resizing the canvas resets its state
+  ctx.font = font;
+  ctx.fillStyle = color;
+  ctx.textBaseline = "alphabetic";
+  const baselinePx = Math.round(fontPx * 1.15);
+  ctx.fillText(text, padding, baselinePx);
+
+  const widthMm = canvas.width / PX_PER_MM;
+  const heightMm = canvas.height / PX_PER_MM;
+  const left = align === "right" ? x - widthMm : align === "center" ? x - widthMm / 2 : x;
+  pdf.addImage(canvas.toDataURL("image/png"), "PNG", left, y - baselinePx / PX_PER_MM, widthMm, heightMm);
+
+  return widthMm;
+};
+
+/**
+ * Draw the company letterhead (name, address, phone, GSTIN and logo) at the top of the page
+ * @param gstin - Our GSTIN from the business settings; the line is left out when empty
+ * @returns The y position just below the header
+ */
+export const drawBusinessHeader = async (pdf: jsPDF, gstin?: string): Promise<number> => {
+  const pageWidth = pdf.internal.pageSize.width;
+
+  // Create high-resolution canvas for Gujarati text
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  canvas.width = 800;
+  canvas.height = 240;
+
+  ctx.textRendering = "geometricPrecision";
+  ctx.imageSmoothingEnabled = true;
+  ctx.fillStyle = "#FFFFFF";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.fillStyle = "#000000";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+
+  ctx.font = 'bold 48px "Nirmala UI"';
+  ctx.fillText("સફાઈ.com service", canvas.width / 2, 50);
+
+  ctx.font = '28px "Nirmala UI"';
+  ctx.fillText("ઓફીસ નં. ૫ વનમાળી જંકશન, BRTS રોડ,", canvas.width / 2, 100);
+  ctx.fillText("હનુમાનજી મંદિરની પાછળ, યોગીચોક, સુરત", canvas.width / 2, 140);
+
+  ctx.font = "24px Arial";
+  ctx.fillText("Phone: +91 9714719906", canvas.width / 2, 180);
+
+  if (gstin) {
+    ctx.font = "20px Arial";
+    ctx.fillText(`GSTIN : ${gstin}`, canvas.width / 2, 205);
+  }
+
+  // Very small centered logo above the company name
+  try {
+    const resp = await fetch(logoSmall);
+    const blob = await resp.blob();
+    const bitmap = await createImageBitmap(blob);
+    const logoWidth = 20;
+    const logoHeight = (bitmap.height / bitmap.width) * logoWidth;
+    ctx.drawImage(bitmap, (canvas.width - logoWidth) / 2, 12, logoWidth, logoHeight);
+  } catch (imgErr) {
+    console.warn("Failed to load header logo", imgErr);
+  }
+
+  // Same size as on a portrait A4 page, centered on wider (landscape) pages
+  const headerWidth = Math.min(pageWidth - 20, 190);
+  pdf.addImage(canvas.toDataURL("image/png"), "PNG", (pageWidth - headerWidth) / 2, 10, headerWidth, 45);
+  return 55;
+};
+
+/**
+ * Draw the "Authorized Signature" box on the right of the page
+ */
+export const drawSignatureBox = (pdf: jsPDF, y: number) => {
+  const pageWidth = pdf.internal.pageSize.width;
+  const boxWidth = 60;
+  const boxHeight = 25;
+  const x = pageWidth - boxWidth - 15;
+
+  pdf.setLineWidth(0.3);
+  pdf.rect(x, y, boxWidth, boxHeight);
+
+  pdf.setFontSize(10);
+  pdf.setFont("helvetica", "normal");
+  pdf.text("Authorized Signature", x + boxWidth / 2, y + boxHeight + 6, { align: "center" });
+};
+
+/**
+ * Turn a customer name into something safe for a file name
+ */
+export const toFileName = (name: string) => name.replace(/[^a-z0-9]/gi, "-").toLowerCase();
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { canDeleteFromCollection, getHomeRoute, hasPermission, isRole, ROLES } from "./permissions";
+
+describe("hasPermission", () => {
+  it("gives the owner every permission another role has", () => {
+    const permissions = ["attendance.edit", "payroll.manage", "works.status", "attendance.self", "months.reopen"] as const;
+    permissions.forEach((permission) => expect(hasPermission("owner", permission)).toBe(true));
+  });
+
+  it("gives nothing without a role", () => {
+    expect(hasPermission(null, "dashboard.view")).toBe(false);
+    expect(hasPermission(undefined, "works.view")).toBe(false);
+  });
+
+  it("keeps payroll and reopening months away from supervisors", () => {
+    expect(hasPermission("supervisor", "payroll.manage")).toBe(false);
+    expect(hasPermission("accountant", "payroll.manage")).toBe(true);
+    expect(hasPermission("accountant", "months.reopen")).toBe(false);
+  });
+});
+
+describe("isRole", () => {
+  it("accepts only known roles", () => {
+    ROLES.forEach((role) => expect(isRole(role)).toBe(true));
+    expect(isRole("admin")).toBe(false);
+    expect(isRole(undefined)).toBe(false);
+  });
+});
+
+describe("canDeleteFromCollection", () => {
+  it("uses the collection's delete permission", () => {
+    expect(canDeleteFromCollection("owner", "employees")).toBe(true);
+    expect(canDeleteFromCollection("supervisor", "employees")).toBe(false);
+    expect(canDeleteFromCollection("accountant", "attendance")).toBe(false);
+    expect(canDeleteFromCollection("field-worker", "pendingWorks")).toBe(false);
+  });
+
+  it("leaves collections without a delete permission to the owner", () => {
+    expect(canDeleteFromCollection("owner", "holidays")).toBe(true);
+    expect(canDeleteFromCollection("accountant", "otherExpenses")).toBe(false);
+    expect(canDeleteFromCollection("supervisor", "holidays")).toBe(false);
+  });
+
+  it("refuses users without a role", () => {
+    expect(canDeleteFromCollection(null, "holidays")).toBe(false);
+    expect(canDeleteFromCollection(null, "employees")).toBe(false);
+  });
+});
+
+describe("getHomeRoute", () => {
+  it("picks the first page each role can open", () => {
+    expect(getHomeRoute("owner")).toBe("/");
+    expect(getHomeRoute("supervisor")).toBe("/");
+    expect(getHomeRoute("accountant")).toBe("/");
+    expect(getHomeRoute("field-worker")).toBe("/pending-works");
+  });
+
+  it("has no home page without a role", () => {
+    expect(getHomeRoute(null)).toBeNull();
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Role and permission model
+ * Roles are stored per user in the `users/{uid}` Firestore document.
+ * Keep this file in sync with firestore.rules - the rules enforce the same model server-side.
+ */
+
+export type Role = "owner" | "supervisor" | "accountant" | "field-worker";
+
+export const ROLES: Role[] = ["owner", "supervisor", "accountant", "field-worker"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  supervisor: "Supervisor",
+  accountant: "Accountant",
+  "field-worker": "Field Worker",
+};
+
+export type Permission =
+  | "dashboard.view"
+  | "works.view"
+  | "works.create"
+  | "works.edit"
+  | "works.status"
+  | "works.bill"
+  | "works.delete"
+  | "members.view"
+  | "members.edit"
+  | "members.delete"
+  | "customers.view"
+  | "services.manage"
+  | "quotes.manage"
+  | "payments.view"
+  | "payments.record"
+  | "employees.view"
+  | "employees.create"
+  | "employees.delete"
+  | "wages.manage"
+  | "attendance.view"
+  | "attendance.edit"
+  | "attendance.delete"
+  | "attendance.approve"
+  | "attendance.self"
+  | "upads.create"
+  | "upads.edit"
+  | "leaves.view"
+  | "leaves.request"
+  | "leaves.approve"
+  | "holidays.manage"
+  | "payroll.manage"
+  | "months.reopen"
+  | "expense.view"
+  | "users.manage"
+  | "settings.manage"
+  | "system.test";
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: [
+    "dashboard.view",
+    "works.view",
+    "works.create",
+    "works.edit",
+    "works.status",
+    "works.bill",
+    "works.delete",
+    "members.view",
+    "members.edit",
+    "members.delete",
+    "customers.view",
+    "services.manage",
+    "quotes.manage",
+    "payments.view",
+    "payments.record",
+    "employees.view",
+    "employees.create",
+    "employees.delete",
+    "wages.manage",
+    "attendance.view",
+    "attendance.edit",
+    "attendance.delete",
+    "attendance.approve",
+    "attendance.self",
+    "leaves.view",
+    "leaves.request",
+    "leaves.approve",
+    "holidays.manage",
+    "upads.create",
+    "upads.edit",
+    "payroll.manage",
+    "months.reopen",
+    "expense.view",
+    "users.manage",
+    "settings.manage",
+    "system.test",
+  ],
+  supervisor: [
+    "dashboard.view",
+    "works.view",
+    "works.create",
+    "works.edit",
+    "works.status",
+    "members.view",
+    "members.edit",
+    "customers.view",
+    "quotes.manage",
+    "payments.view",
+    "employees.view",
+    "employees.create",
+    "attendance.view",
+    "attendance.edit",
+    "leaves.view",
+    "leaves.request",
+  ],
+  accountant: [
+    "dashboard.view",
+    "works.view",
+    "works.bill",
+    "members.view",
+    "customers.view",
+    "payments.view",
+    "payments.record",
+    "employees.view",
+    "leaves.view",
+    "upads.create",
+    "upads.edit",
+    "payroll.manage",
+    "expense.view",
+  ],
+  "field-worker": [
+    "works.view",
+    "works.status",
+    "attendance.self",
+  ],
+};
+
+/**
+ * Permission required to delete a document from each collection.
+ * Collections not listed here can only be cleaned up by the owner.
+ */
+const COLLECTION_DELETE_PERMISSIONS: Record<string, Permission> = {
+  pendingWorks: "works.delete",
+  membershipMembers: "members.delete",
+  employees: "employees.delete",
+  attendance: "attendance.delete",
+};
+
+/**
+ * Pages in the order they should be tried when picking a landing page for a role
+ */
+const HOME_ROUTES: { url: string; permission: Permission }[] = [
+  { url: "/", permission: "dashboard.view" },
+  { url: "/pending-works", permission: "works.view" },
+  { url: "/attendance", permission: "attendance.view" },
+  { url: "/expense", permission: "expense.view" },
+];
+
+export const isRole = (value: unknown): value is Role => {
+  return typeof value === "string" && (ROLES as string[]).includes(value);
+};
+
+/**
+ * Check whether a role grants a permission
+ * @param role - The user's role (null when the user has no profile yet)
+ * @param permission - The permission to check
+ */
+export const hasPermission = (role: Role | null | undefined, permission: Permission): boolean => {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+};
+
+/**
+ * Check whether a role may delete documents from a collection
+ */
+export const canDeleteFromCollection = (role: Role | null | undefined, collectionName: string): boolean => {
+  const permission = COLLECTION_DELETE_PERMISSIONS[collectionName];
+  if (!permission) return role === "owner";
+  return hasPermission(role, permission);
+};
+
+/**
+ * First page the role is allowed to open (used after login and on denied routes)
+ * @returns The route url, or null if the role cannot open any page
+ */
+export const getHomeRoute = (role: Role | null | undefined): string | null => {
+  const route = HOME_ROUTES.find((r) => hasPermission(role, r.permission));
+  return route ? route.url : null;
+};
@@ -0,0 +1,125 @@
+import jsPDF from "jspdf";
+import { format } from "date-fns";
+import { drawBusinessHeader, drawSignatureBox, drawText, toFileName } from "./pdf";
+import { getQuoteNumber, Quotation } from "./quotations";
+import { ServiceUnit } from "./services";
+import { getBusinessSettings } from "./settings";
+
+const UNIT_LABELS_GU: Record<ServiceUnit, string> = {
+  sqft: "ચો.ફૂટ",
+  seat: "સીટ",
+  panel: "પેનલ",
+  flat: "",
+};
+
+const money = (value: number) =>
+  `₹${Number(value || 0).toLocaleString("en-IN", { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+
+const displayDate = (date?: string) => (date ? format(new Date(date), "dd/MM/yyyy") : "-");
+
+/**
+ * Build the customer-facing quotation PDF (Gujarati labels) and download it
+ */
+export const downloadQuotationPdf = async (quote: Quotation) => {
+  const pdf = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const pageWidth = pdf.internal.pageSize.width;
+  const pageHeight = pdf.internal.pageSize.height;
+  const right = pageWidth - 15;
+
+  const settings = await getBusinessSettings();
+  await drawBusinessHeader(pdf, settings.gstin);
+
+  pdf.setLineWidth(0.3);
+  pdf.line(10, 60, pageWidth - 10, 60);
+  drawText(pdf, "ભાવપત્રક (Quotation)", pageWidth / 2, 69, { size: 13, bold: true, align: "center" });
+
+  // Customer on the left, quote details on the right
+  let y = 82;
+  drawText(pdf, "ગ્રાહક:", 15, y, { bold: true });
+  drawText(pdf, quote.customerName || "-", 15, y + 7);
+  drawText(pdf, `મોબાઇલ: ${quote.contact || "-"}`, 15, y + 14);
+  drawText(pdf, `સરનામું: ${quote.address || "-"}`, 15, y + 21);
+
+  drawText(pdf, `ક્રમાંક: ${getQuoteNumber(quote)}`, right, y, { align: "right" });
+  drawText(pdf, `તારીખ: ${displayDate(quote.date)}`, right, y + 7, { align: "right" });
+  if (quote.validUntil) {
+    drawText(pdf, `માન્ય તારીખ: ${displayDate(quote.validUntil)}`, right, y + 14, { align: "right" });
+  }
+
+  // Line items
+  const columns = { index: 15, description: 24, quantity: 128, rate: 160, amount: right };
+  const rowHeight = 9;
+  const drawHeaderRow = (top: number) => {
+    pdf.setFillColor(240, 240, 240);
+    pdf.rect(12, top, pageWidth - 24, rowHeight, "F");
+    const baseline = top + 6;
+    drawText(pdf, "ક્રમ", columns.index, baseline, { bold: true });
+    drawText(pdf, "વિગત", columns.description, baseline, { bold: true });
+    drawText(pdf, "જથ્થો", columns.quantity, baseline, { bold: true, align: "right" });
+    drawText(pdf, "દર", columns.rate, baseline, { bold: true, align: "right" });
+    drawText(pdf, "રકમ", columns.amount, baseline, { bold: true, align: "right" });
+    return top + rowHeight;
+  };
+
+  y = drawHeaderRow(y + 30);
+  quote.items.forEach((item, index) => {
+    if (y + rowHeight > pageHeight - 20) {
+      pdf.addPage();
+      y = drawHeaderRow(20);
+    }
+    const baseline = y + 6;
+    const unit = UNIT_LABELS_GU[item.unit];
+    drawText(pdf, String(index + 1), columns.index, baseline);
+    drawText(pdf, item.description, columns.description, baseline);
+    drawText(pdf, `${item.quantity}${unit ? ` ${unit}` : ""}`, columns.quantity, baseline, { align: "right" });
+    drawText(pdf, money(item.rate), columns.rate, baseline, { align: "right" });
+    drawText(pdf, money(item.amount), columns.amount, baseline, { align: "right" });
+    pdf.setDrawColor(200, 200, 200);
+    pdf.line(12, y + rowHeight, pageWidth - 12, y + rowHeight);
+    y += rowHeight;
+  });
+  pdf.setDrawColor(0, 0, 0);
+
+  // Totals
+  if (y + 50 > pageHeight - 20) {
+    pdf.addPage();
+    y = 20;
+  }
+  y += 8;
+  const totalRow = (label: string, value: string, bold = false) => {
+    drawText(pdf, label, columns.rate, y, { bold, align: "right" });
+    drawText(pdf, value, columns.amount, y, { bold, align: "right" });
+    y += 7;
+  };
+  totalRow("પેટા સરવાળો:", money(quote.subtotal));
+  if (quote.discount > 0) {
+    totalRow("વળતર:", `- ${money(quote.discount)}`);
+  }
+  if (quote.taxRate > 0) {
+    totalRow(`કર (${quote.taxRate}%):`, money(quote.taxAmount));
+  }
+  pdf.line(columns.quantity, y - 4, right, y - 4);
+  totalRow("કુલ રકમ:", money(quote.total), true);
+
+  // Notes
+  if (quote.notes) {
+    y += 4;
+    drawText(pdf, "નોંધ:", 15, y, { bold: true });
+    quote.notes.split("\n").forEach((line) => {
+      y += 6;
+      drawText(pdf, line, 15, y);
+    });
+  }
+  if (quote.validUntil) {
+    y += 8;
+    drawText(pdf, `આ ભાવપત્રક ${displayDate(quote.validUntil)} સુધી માન્ય છે.`, 15, y, { size: 9, color: "#555555" });
+  }
+
+  if (y + 40 > pageHeight - 10) {
+    pdf.addPage();
+    y = 10;
+  }
+  drawSignatureBox(pdf, y + 10);
+
+  pdf.save(`quote-${toFileName(quote.customerName)}-${getQuoteNumber(quote)}.pdf`);
+};
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { runTransaction } from "firebase/firestore";
+import { acceptQuotation, Quotation } from "./quotations";
+
+vi.mock("./firebase", () => ({ db: {} }));
+vi.mock("./customers", () => ({ upsertCustomer: vi.fn(async () => "c1") }));
+vi.mock("firebase/firestore", () => {
+  let nextId = 1;
+  return {
+    collection: (_db: unknown, name: string) => ({ name }),
+    doc: (parent: { name?: string }, name?: string, id?: string) =>
+      name ? { name, id } : { name: parent.name, id: `work${nextId++}` },
+    runTransaction: vi.fn(),
+    Timestamp: { now: () => "now" },
+  };
+});
+
+const quote: Quotation = {
+  id: "q1",
+  customerName: "Asha",
+  contact: "9876543210",
+  address: "Ahmedabad",
+  customerId: "c1",
+  date: "2024-03-05",
+  items: [{ description: "Tank cleaning", quantity: 1, unit: "flat", rate: 1500, amount: 1500 }],
+  subtotal: 1500,
+  discount: 0,
+  taxRate: 0,
+  taxAmount: 0,
+  total: 1500,
+  status: "sent",
+};
+
+// Server state of the quotation, updated when a transaction commits
+let stored: Record<string, unknown>;
+let works: Record<string, Record<string, unknown>>;
+
+describe("acceptQuotation", () => {
+  beforeEach(() => {
+    stored = { ...quote };
+    works = {};
+    vi.mocked(runTransaction).mockImplementation((async (
+      _db: unknown,
+      update: (transaction: unknown) => Promise<unknown>
+    ) => {
+      const writes: (() => void)[] = [];
+      const outcome = await update({
+        get: async () => ({ exists: () => true, data: () => ({ ...stored }) }),
+        set: (ref: { id: string }, data: Record<string, unknown>) => writes.push(() => (works[ref.id] = data)),
+        update: (_ref: unknown, data: Record<string, unknown>) => writes.push(() => Object.assign(stored, data)),
+      });
+      writes.forEach((write) => write());
+      return outcome;
+    }) as unknown as typeof runTransaction);
+  });
+
+  it("creates the work and marks the quote accepted together", async () => {
+    const workId = await acceptQuotation(quote, "2024-03-06");
+
+    expect(works[workId]).toMatchObject({ quotationId: "q1", date: "2024-03-06", estimatedCost: 1500 });
+    expect(stored).toMatchObject({ status: "accepted", workId });
+  });
+
+  it("creates only one work when the same quote is accepted twice", async () => {
+    await acceptQuotation(quote, "2024-03-06");
+
+    await expect(acceptQuotation(quote, "2024-03-06")).rejects.toThrow("already accepted");
+    expect(Object.keys(works)).toHaveLength(1);
+  });
+
+  it("refuses a quote that was rejected meanwhile", async () => {
+    stored.status = "rejected";
+
+    await expect(acceptQuotation(quote, "2024-03-06")).rejects.toThrow("already rejected");
+    expect(works).toEqual({});
+  });
+});
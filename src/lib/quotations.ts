@@ -0,0 +1,132 @@
+import { collection, doc, runTransaction, Timestamp } from "firebase/firestore";
+import { format } from "date-fns";
+import { db } from "./firebase";
+import { upsertCustomer } from "./customers";
+import { ServiceUnit } from "./services";
+import { buildPendingWork } from "./works";
+
+/**
+ * Quotations
+ * A quote lists priced line items for a customer; accepting it creates the pending work.
+ */
+
+export type QuotationStatus = "draft" | "sent" | "accepted" | "rejected";
+
+export interface QuotationItem {
+  description: string;
+  serviceId?: string;
+  quantity: number;
+  unit: ServiceUnit;
+  rate: number;
+  amount: number;
+}
+
+export interface Quotation {
+  id: string;
+  customerName: string;
+  contact: string;
+  address: string;
+  customerId?: string;
+  date: string; // yyyy-MM-dd
+  validUntil?: string;
+  items: QuotationItem[];
+  subtotal: number;
+  discount: number; // flat amount in ₹
+  taxRate: number; // percent, applied after the discount
+  taxAmount: number;
+  total: number;
+  notes?: string;
+  status: QuotationStatus;
+  workId?: string;
+  createdAt?: Timestamp;
+}
+
+export const QUOTATION_STATUS_LABELS: Record<QuotationStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  accepted: "Accepted",
+  rejected: "Rejected",
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Amount for one line
+ */
+export const getItemAmount = (item: Pick<QuotationItem, "quantity" | "rate">) =>
+  roundMoney((Number(item.quantity) || 0) * (Number(item.rate) || 0));
+
+/**
+ * Work out subtotal, tax and total for a set of items
+ * The discount is taken off the subtotal before tax, and can't make the total negative.
+ */
+export const calculateQuoteTotals = (items: Pick<QuotationItem, "quantity" | "rate">[], discount: number, taxRate: number) => {
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + getItemAmount(item), 0));
+  const taxable = Math.max(0, subtotal - (Number(discount) || 0));
+  const taxAmount = roundMoney((taxable * (Number(taxRate) || 0)) / 100);
+  return {
+    subtotal,
+    taxAmount,
+    total: roundMoney(taxable + taxAmount),
+  };
+};
+
+/**
+ * Short reference printed on the quote, e.g. Q-250114-7KQ2
+ */
+export const getQuoteNumber = (quote: Pick<Quotation, "id" | "date">) =>
+  `Q-${format(new Date(quote.date), "yyMMdd")}-${quote.id.slice(0, 4).toUpperCase()}`;
+
+// Quotes that can still be accepted
+const OPEN_STATUSES: QuotationStatus[] = ["draft", "sent"];
+
+/**
+ * Accept a quotation: create its pending work and mark the quote as accepted
+ * The quote is re-read in a transaction, so accepting it twice (two clicks or two users) creates one work.
+ * @param workDate - Date the work is scheduled for (yyyy-MM-dd)
+ * @returns Id of the new pending work
+ */
+export const acceptQuotation = async (quote: Quotation, workDate: string): Promise<string> => {
+  const customerId =
+    quote.customerId ||
+    (await upsertCustomer({ name: quote.customerName, contact: quote.contact, address: quote.address }));
+
+  const quoteRef = doc(db, "quotations", quote.id);
+  const workRef = doc(collection(db, "pendingWorks"));
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(quoteRef);
+    if (!snapshot.exists()) throw new Error("This quotation no longer exists");
+
+    const current = { ...snapshot.data(), id: quote.id } as Quotation;
+    if (!OPEN_STATUSES.includes(current.status)) {
+      throw new Error(`This quotation is already ${current.status}`);
+    }
+
+    transaction.set(workRef, {
+      ...buildPendingWork({
+        customerName: current.customerName,
+        contact: current.contact,
+        address: current.address,
+        workType: current.items[0]?.description || "Quotation",
+        type: "individual",
+        rate: current.total,
+        date: workDate,
+        customerId,
+        description: current.items.map((item) => `${item.description} × ${item.quantity}`).join(", "),
+      }),
+      quotationId: quote.id,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+
+    transaction.update(quoteRef, {
+      status: "accepted",
+      workId: workRef.id,
+      ...(customerId ? { customerId } : {}),
+      updatedAt: Timestamp.now(),
+    });
+  });
+
+  return workRef.id;
+};
@@ -0,0 +1,113 @@
+import { doc, Timestamp, updateDoc } from "firebase/firestore";
+import { format } from "date-fns";
+import { db } from "./firebase";
+import { DEFAULT_BUSINESS_SETTINGS } from "./settings";
+import { isPaidLeave, LeaveType } from "./leaves";
+
+/**
+ * Worker salary from attendance
+ * Each employee has a daily wage with effective-dated changes in `wageHistory`, so a raise
+ * only applies from its date and past months keep the wage they were paid at.
+ * Overtime is paid per hour (daily wage / shift length) times the overtime rate saved on the record.
+ * Approved sick and casual leave is paid as a full day; unpaid leave and older leave records are not.
+ * A paid holiday is paid as a full day; weekly offs are not paid.
+ * A worker's own check-in is not paid until the office approves it.
+ */
+
+// What every worker was paid before per-employee wages existed
+export const DEFAULT_DAILY_WAGE = 400;
+
+export interface WageChange {
+  effectiveFrom: string; // yyyy-MM-dd, or "" for "since joining"
+  dailyWage: number;
+}
+
+export interface WageEmployee {
+  id: string;
+  dailyWage?: number; // current wage, kept in sync with wageHistory
+  wageHistory?: WageChange[];
+}
+
+export interface SalaryAttendance {
+  employeeId: string;
+  date: string; // yyyy-MM-dd
+  status?: string;
+  overtimeHours?: number;
+  shiftHours?: number; // shift length when the record was saved
+  overtimeRate?: number; // overtime multiple when the record was saved
+  leaveType?: LeaveType;
+  holidayPaid?: boolean; // set on "holiday" records
+  selfCheckInStatus?: "pending" | "approved" | "rejected";
+}
+
+/**
+ * Daily wage an employee earned on a date
+ */
+export const getDailyWage = (employee: WageEmployee | undefined, date: string): number => {
+  const change = [...(employee?.wageHistory || [])]
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))
+    .find((c) => c.effectiveFrom <= date);
+  return change?.dailyWage ?? employee?.dailyWage ?? DEFAULT_DAILY_WAGE;
+};
+
+/**
+ * Pay for one day's attendance status at a given daily wage
+ */
+export const getSalaryForStatus = (status: string | undefined, dailyWage: number): number => {
+  if (status === "present") return dailyWage;
+  if (status === "half-day") return Math.round(dailyWage / 2);
+  return 0; // absent/leave/no record
+};
+
+/**
+ * Overtime pay for one attendance record at a given daily wage
+ */
+export const getOvertimePay = (record: SalaryAttendance, dailyWage: number): number => {
+  if (!record.overtimeHours || record.status !== "present") return 0;
+  const hourlyWage = dailyWage / (record.shiftHours || DEFAULT_BUSINESS_SETTINGS.shiftHours);
+  return Math.round(hourlyWage * (record.overtimeRate ?? DEFAULT_BUSINESS_SETTINGS.overtimeRate) * record.overtimeHours);
+};
+
+/**
+ * Pay for one attendance record (including overtime), at the wage the employee had on that day
+ */
+export const getAttendanceSalary = (record: SalaryAttendance, employee: WageEmployee | undefined): number => {
+  const dailyWage = getDailyWage(employee, record.date);
+  if (record.selfCheckInStatus === "pending") return 0;
+  if (record.status === "leave") return isPaidLeave(record.leaveType) ? dailyWage : 0;
+  if (record.status === "holiday") return record.holidayPaid ? dailyWage : 0;
+  return getSalaryForStatus(record.status, dailyWage) + getOvertimePay(record, dailyWage);
+};
+
+/**
+ * Total pay for a set of attendance records (any mix of employees)
+ */
+export const calculateSalary = (records: SalaryAttendance[], employees: WageEmployee[]): number => {
+  const byId = new Map(employees.map((e) => [e.id, e]));
+  return records.reduce((sum, record) => sum + getAttendanceSalary(record, byId.get(record.employeeId)), 0);
+};
+
+/**
+ * Wage history for a new employee
+ */
+export const initialWageHistory = (dailyWage: number): WageChange[] => [{ effectiveFrom: "", dailyWage }];
+
+/**
+ * Change an employee's daily wage from a date onwards
+ * Employees created before wage history existed keep the old wage for everything before the change.
+ */
+export const changeDailyWage = async (employee: WageEmployee, dailyWage: number, effectiveFrom: string) => {
+  const history = employee.wageHistory?.length
+    ? employee.wageHistory
+    : initialWageHistory(employee.dailyWage ?? DEFAULT_DAILY_WAGE);
+  const wageHistory = [...history.filter((c) => c.effectiveFrom !== effectiveFrom), { effectiveFrom, dailyWage }].sort(
+    (a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)
+  );
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  await updateDoc(doc(db, "employees", employee.id), {
+    wageHistory,
+    dailyWage: getDailyWage({ ...employee, wageHistory }, today),
+    updatedAt: Timestamp.now(),
+  });
+};
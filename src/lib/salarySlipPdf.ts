@@ -0,0 +1,107 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format, parseISO } from "date-fns";
+import { drawBusinessHeader, drawSignatureBox, drawText, toFileName } from "./pdf";
+import { amountInWords } from "./numberToWords";
+import { PAYOUT_METHODS, PayrollEntry, PayrollRun } from "./payroll";
+
+const money = (value: number) =>
+  Number(value || 0).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Build and download a worker's salary slip from a saved payroll run
+ */
+export const downloadSalarySlipPdf = async (run: PayrollRun, entry: PayrollEntry) => {
+  const pdf = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const pageWidth = pdf.internal.pageSize.width;
+  const monthLabel = format(parseISO(`${run.month}-01`), "MMMM yyyy");
+
+  await drawBusinessHeader(pdf);
+
+  pdf.line(10, 60, pageWidth - 10, 60);
+  pdf.setFontSize(12);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(`SALARY SLIP - ${monthLabel.toUpperCase()}`, pageWidth / 2, 68, { align: "center" });
+
+  // Employee and payout details
+  const detailsY = 80;
+  pdf.setFontSize(10);
+  pdf.text("Employee:", 15, detailsY);
+  pdf.text("Paid On:", pageWidth - 75, detailsY);
+  pdf.text("Paid By:", pageWidth - 75, detailsY + 7);
+  pdf.setFont("helvetica", "normal");
+  // Worker names are often in Gujarati
+  drawText(pdf, entry.employeeName, 38, detailsY);
+  pdf.text(`Daily Wage: Rs. ${money(entry.dailyWage)}`, 15, detailsY + 7);
+  pdf.text(format(parseISO(run.paidOn), "dd/MM/yyyy"), pageWidth - 15, detailsY, { align: "right" });
+  pdf.text(PAYOUT_METHODS.find((m) => m.value === run.paymentMethod)?.label || run.paymentMethod, pageWidth - 15, detailsY + 7, {
+    align: "right",
+  });
+
+  autoTable(pdf, {
+    startY: detailsY + 15,
+    head: [["Attendance", "Days"]],
+    body: [
+      ["Present", String(entry.presentDays)],
+      ["Half Day", String(entry.halfDays)],
+      ["Leave", String(entry.leaveDays)],
+      ["Absent", String(entry.absentDays)],
+      ...(entry.holidayDays ? [["Holidays", String(entry.holidayDays)]] : []),
+      ...(entry.weekOffDays ? [["Weekly Off", String(entry.weekOffDays)]] : []),
+      ...(entry.overtimeHours ? [["Overtime (hours)", String(entry.overtimeHours)]] : []),
+    ],
+    theme: "grid",
+    styles: { fontSize: 10, textColor: [0, 0, 0], lineColor: [0, 0, 0], lineWidth: 0.1 },
+    headStyles: { fillColor: [240, 240, 240], textColor: [0, 0, 0], fontStyle: "bold" },
+    columnStyles: { 1: { halign: "right", cellWidth: 40 } },
+  });
+
+  const attendanceEnd = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+  const deductionLabel = entry.deductionNote ? `Other Deductions (${entry.deductionNote})` : "Other Deductions";
+  const overtimePay = entry.overtimePay || 0;
+
+  autoTable(pdf, {
+    startY: attendanceEnd + 8,
+    head: [["Earnings", "Amount", "Deductions", "Amount"]],
+    body: [
+      ["Attendance Salary", money(entry.attendanceSalary - overtimePay), "Advances (Upad)", money(entry.advances)],
+      ["Overtime", money(overtimePay), deductionLabel, money(entry.deduction)],
+      ["Bonus", money(entry.bonus), "", ""],
+    ],
+    foot: [
+      [
+        "Total Earnings",
+        money(entry.attendanceSalary + entry.bonus),
+        "Total Deductions",
+        money(entry.advances + entry.deduction),
+      ],
+    ],
+    theme: "grid",
+    styles: { fontSize: 10, textColor: [0, 0, 0], lineColor: [0, 0, 0], lineWidth: 0.1 },
+    headStyles: { fillColor: [240, 240, 240], textColor: [0, 0, 0], fontStyle: "bold" },
+    footStyles: { fillColor: [250, 250, 250], textColor: [0, 0, 0], fontStyle: "bold" },
+    columnStyles: { 1: { halign: "right" }, 3: { halign: "right" } },
+  });
+
+  let y = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 12;
+  pdf.setFontSize(12);
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Net Pay:", 15, y);
+  pdf.text(`Rs. ${money(entry.netPay)}`, pageWidth - 15, y, { align: "right" });
+
+  y += 8;
+  pdf.setFontSize(10);
+  pdf.setFont("helvetica", "normal");
+  const words = entry.netPay >= 0 ? amountInWords(entry.netPay) : `Minus ${amountInWords(entry.netPay)}`;
+  pdf.text(pdf.splitTextToSize(words, pageWidth - 30), 15, y);
+
+  const carriedForward = (entry.advanceBalance ?? entry.advances) - entry.advances;
+  if (carriedForward > 0) {
+    y += 8;
+    pdf.text(`Advance balance carried forward: Rs. ${money(carriedForward)}`, 15, y);
+  }
+
+  drawSignatureBox(pdf, y + 15);
+
+  pdf.save(`salary-slip-${toFileName(entry.employeeName)}-${run.month}.pdf`);
+};
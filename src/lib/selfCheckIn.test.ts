@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { runTransaction } from "firebase/firestore";
+import { getSelfCheckInApproval, selfCheckIn } from "./selfCheckIn";
+
+vi.mock("./firebase", () => ({ db: {} }));
+vi.mock("firebase/firestore", () => ({
+  doc: (_db: unknown, name: string, id: string) => ({ name, id }),
+  runTransaction: vi.fn(),
+  updateDoc: vi.fn(),
+  Timestamp: { now: () => "now" },
+}));
+
+const SHIFT = { shiftStart: "09:00", shiftHours: 8, overtimeRate: 1.5 };
+const LOCATION = { latitude: 21.17, longitude: 72.83, accuracy: 12 };
+
+let existingIds = new Set<string>();
+let written: Record<string, Record<string, unknown>> = {};
+
+describe("selfCheckIn", () => {
+  beforeEach(() => {
+    existingIds = new Set();
+    written = {};
+    vi.mocked(runTransaction).mockImplementation((async (
+      _db: unknown,
+      update: (transaction: unknown) => Promise<unknown>
+    ) =>
+      update({
+        get: async (ref: { id: string }) => ({ exists: () => existingIds.has(ref.id) }),
+        set: (ref: { id: string }, data: Record<string, unknown>) => {
+          written[ref.id] = data;
+        },
+      })) as unknown as typeof runTransaction);
+  });
+
+  it("saves only the check-in, leaving hours and the shift to the approval", async () => {
+    await selfCheckIn({ id: "w1", name: "Ramesh" }, "2024-03-05", "09:05", "selfie.jpg", LOCATION);
+
+    const record = written["w1_2024-03-05"];
+    expect(record).toMatchObject({ status: "present", checkIn: "09:05", selfCheckInStatus: "pending" });
+    expect(record).not.toHaveProperty("checkOut");
+    expect(record).not.toHaveProperty("workHours");
+    expect(record).not.toHaveProperty("overtimeRate");
+  });
+
+  it("refuses to overwrite a record the office has already saved", async () => {
+    existingIds.add("w1_2024-03-05");
+
+    await expect(
+      selfCheckIn({ id: "w1", name: "Ramesh" }, "2024-03-05", "09:05", "selfie.jpg", LOCATION)
+    ).rejects.toThrow("already marked");
+    expect(written).toEqual({});
+  });
+});
+
+describe("getSelfCheckInApproval", () => {
+  it("works out hours and overtime from the worker's times with the current shift", () => {
+    expect(getSelfCheckInApproval({ checkIn: "09:00", checkOut: "19:00" }, SHIFT, "Owner")).toEqual({
+      status: "present",
+      checkIn: "09:00",
+      checkOut: "19:00",
+      workHours: 10,
+      overtimeHours: 2,
+      shiftHours: 8,
+      overtimeRate: 1.5,
+      selfCheckInStatus: "approved",
+      selfCheckInDecidedBy: "Owner",
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { doc, runTransaction, Timestamp, updateDoc } from "firebase/firestore";
+import { db } from "./firebase";
+import { attendanceDocId, getAttendanceTimeFields, ShiftSettings } from "./attendance";
+
+/**
+ * Worker self check-in
+ * A worker with a login linked to their employee record checks in and out from their phone.
+ * Each tap saves the time, a selfie and the phone's location on today's attendance record,
+ * which stays "pending" until the office approves it (pending check-ins are not paid).
+ * Checking out after an approved check-in sends the day back for approval with its new times.
+ * Workers only save their times: hours, overtime and the shift are worked out on approval.
+ */
+
+export type SelfCheckInStatus = "pending" | "approved" | "rejected";
+
+export interface CheckInLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // metres
+}
+
+export interface SelfCheckInFields {
+  selfCheckInStatus?: SelfCheckInStatus;
+  checkInPhotoUrl?: string;
+  checkInLocation?: CheckInLocation;
+  checkOutPhotoUrl?: string;
+  checkOutLocation?: CheckInLocation;
+  selfCheckInDecidedBy?: string;
+  selfCheckInRejectionReason?: string;
+}
+
+/**
+ * Current position from the browser, or an error the worker can act on
+ */
+export const getCurrentLocation = () =>
+  new Promise<CheckInLocation>((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("This phone's browser can't share its location"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: Math.round(position.coords.accuracy),
+        }),
+      (error) =>
+        reject(
+          new Error(
+            error.code === error.PERMISSION_DENIED
+              ? "Please allow location access to check in"
+              : "Could not get your location, please try again"
+          )
+        ),
+      { enableHighAccuracy: true, timeout: 20000, maximumAge: 0 }
+    );
+  });
+
+/**
+ * Google Maps link for a check-in location
+ */
+export const getLocationUrl = (location: CheckInLocation) =>
+  `https://www.google.com/maps?q=${location.latitude},${location.longitude}`;
+
+/**
+ * Start today's attendance record for a worker checking themselves in
+ * Fails if the worker already has a record for the day (e.g. marked by the office meanwhile)
+ */
+export const selfCheckIn = async (
+  employee: { id: string; name: string },
+  date: string,
+  checkIn: string,
+  photoUrl: string,
+  location: CheckInLocation
+) => {
+  const ref = doc(db, "attendance", attendanceDocId(employee.id, date));
+
+  await runTransaction(db, async (transaction) => {
+    if ((await transaction.get(ref)).exists()) {
+      throw new Error("You are already marked for today");
+    }
+
+    transaction.set(ref, {
+      employeeId: employee.id,
+      employeeName: employee.name,
+      date,
+      status: "present",
+      checkIn,
+      selfCheckInStatus: "pending",
+      checkInPhotoUrl: photoUrl,
+      checkInLocation: location,
+      notes: "Self check-in",
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+  });
+};
+
+/**
+ * Add the check-out to a worker's own check-in
+ */
+export const selfCheckOut = async (
+  record: { id: string },
+  checkOut: string,
+  photoUrl: string,
+  location: CheckInLocation
+) => {
+  await updateDoc(doc(db, "attendance", record.id), {
+    checkOut,
+    checkOutPhotoUrl: photoUrl,
+    checkOutLocation: location,
+    selfCheckInStatus: "pending",
+    updatedAt: Timestamp.now(),
+  });
+};
+
+/**
+ * Fields saved when the office approves a self check-in
+ * Hours and overtime are worked out from the worker's times with the current shift, never taken from the worker.
+ */
+export const getSelfCheckInApproval = (
+  record: { checkIn?: string; checkOut?: string },
+  shift: ShiftSettings,
+  decidedBy: string
+) => ({
+  status: "present" as const,
+  ...getAttendanceTimeFields("present", { checkIn: record.checkIn || "", checkOut: record.checkOut || "" }, shift),
+  selfCheckInStatus: "approved" as const,
+  selfCheckInDecidedBy: decidedBy,
+});
@@ -0,0 +1,61 @@
+import { collection, doc, getDocs, Timestamp, writeBatch } from "firebase/firestore";
+import { db } from "./firebase";
+import { DEFAULT_SAC_CODE } from "./settings";
+
+/**
+ * Service catalog
+ * Works store the Gujarati service name as `workType`, so renaming `nameGu` only affects new works.
+ */
+
+export type ServiceUnit = "sqft" | "seat" | "panel" | "flat";
+
+export interface Service {
+  id: string;
+  nameGu: string;
+  nameEn: string;
+  defaultRate: number;
+  unit: ServiceUnit;
+  sacCode?: string; // printed on GST tax invoices
+  active?: boolean;
+}
+
+export const SERVICE_UNITS: { value: ServiceUnit; label: string; quantityLabel: string }[] = [
+  { value: "sqft", label: "Per sq ft", quantityLabel: "Area (sq ft)" },
+  { value: "seat", label: "Per seat", quantityLabel: "Seats" },
+  { value: "panel", label: "Per panel", quantityLabel: "Panels" },
+  { value: "flat", label: "Flat rate", quantityLabel: "Quantity" },
+];
+
+export const getUnitLabel = (unit: ServiceUnit) => SERVICE_UNITS.find((u) => u.value === unit)?.label || unit;
+
+// The inquiry types the Contact Form used before the catalog existed; rates are set by the owner
+export const DEFAULT_SERVICES: Omit<Service, "id">[] = [
+  { nameGu: "પાર્કિંગ સફાઈ", nameEn: "Parking Cleaning", defaultRate: 0, unit: "sqft", sacCode: DEFAULT_SAC_CODE, active: true },
+  { nameGu: "ચેર ડ્રાઇકલિંનીગ", nameEn: "Chair Dry Cleaning", defaultRate: 0, unit: "seat", sacCode: DEFAULT_SAC_CODE, active: true },
+  { nameGu: "ઘર સફાઈ", nameEn: "Home Cleaning", defaultRate: 0, unit: "flat", sacCode: DEFAULT_SAC_CODE, active: true },
+  { nameGu: "કાર્પેટ સફાઈ", nameEn: "Carpet Cleaning", defaultRate: 0, unit: "sqft", sacCode: DEFAULT_SAC_CODE, active: true },
+  { nameGu: "સોલર સફાઈ", nameEn: "Solar Panel Cleaning", defaultRate: 0, unit: "panel", sacCode: DEFAULT_SAC_CODE, active: true },
+  { nameGu: "ઓફિસ સફાઈ", nameEn: "Office Cleaning", defaultRate: 0, unit: "sqft", sacCode: DEFAULT_SAC_CODE, active: true },
+];
+
+/**
+ * Migration: fill an empty `services` collection with the default services
+ * @returns Number of services created
+ */
+export const seedDefaultServices = async (): Promise<number> => {
+  const snapshot = await getDocs(collection(db, "services"));
+  if (!snapshot.empty) return 0;
+
+  const batch = writeBatch(db);
+  DEFAULT_SERVICES.forEach((service) => {
+    const id = service.nameEn.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    batch.set(doc(db, "services", id), {
+      ...service,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+  });
+  await batch.commit();
+
+  return DEFAULT_SERVICES.length;
+};
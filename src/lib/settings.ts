@@ -0,0 +1,71 @@
+import { doc, getDoc, setDoc, Timestamp } from "firebase/firestore";
+import { db } from "./firebase";
+
+/**
+ * Business settings, stored in the single document `settings/business`
+ */
+
+export interface BusinessSettings {
+  gstin: string;
+  stateName: string;
+  stateCode: string; // two digit GST state code, e.g. "24" for Gujarat
+  gstRate: number; // percent
+  pricesIncludeGst: boolean; // whether work rates already include GST
+  upiVpa: string; // UPI id customers pay to, e.g. safay@okaxis
+  upiPayeeName: string; // name shown in the customer's UPI app
+  shiftStart: string; // HH:mm, default check-in time when marking attendance
+  shiftHours: number; // a full day's work; hours beyond it are overtime
+  overtimeRate: number; // overtime pay as a multiple of the hourly wage
+  sickLeavePerYear: number; // paid leave days each worker gets per calendar year
+  casualLeavePerYear: number;
+}
+
+export const DEFAULT_BUSINESS_SETTINGS: BusinessSettings = {
+  gstin: "",
+  stateName: "Gujarat",
+  stateCode: "24",
+  gstRate: 18,
+  pricesIncludeGst: true,
+  upiVpa: "",
+  upiPayeeName: "Safay Hub",
+  shiftStart: "09:00",
+  shiftHours: 9,
+  overtimeRate: 1,
+  sickLeavePerYear: 6,
+  casualLeavePerYear: 6,
+};
+
+// SAC for cleaning services, used when a service has no SAC code of its own
+export const DEFAULT_SAC_CODE = "998533";
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+/**
+ * Check the shape of a GSTIN (15 characters: state code, PAN, entity number, "Z", checksum)
+ */
+export const isValidGstin = (gstin: string) => GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+
+/**
+ * State code a GSTIN is registered in (its first two digits)
+ */
+export const getGstinStateCode = (gstin: string | null | undefined) => (gstin ? gstin.trim().slice(0, 2) : "");
+
+/**
+ * Load the business settings, filling in defaults for anything not saved yet
+ */
+export const getBusinessSettings = async (): Promise<BusinessSettings> => {
+  try {
+    const snapshot = await getDoc(doc(db, "settings", "business"));
+    return { ...DEFAULT_BUSINESS_SETTINGS, ...(snapshot.exists() ? snapshot.data() : {}) } as BusinessSettings;
+  } catch (error) {
+    console.error("Error loading business settings:", error);
+    return DEFAULT_BUSINESS_SETTINGS;
+  }
+};
+
+/**
+ * Save (part of) the business settings
+ */
+export const saveBusinessSettings = async (settings: Partial<BusinessSettings>) => {
+  await setDoc(doc(db, "settings", "business"), { ...settings, updatedAt: Timestamp.now() }, { merge: true });
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from "vitest";
+import { getLegacyUpadSettlements, getMonthEndUpadBalance, getUpadBalance, getUpadLedger, UpadEntry } from "./upads";
+
+vi.mock("./firebase", () => ({ db: {} }));
+
+let nextId = 1;
+const upad = (employeeId: string, date: string, amount: number, extra: Partial<UpadEntry> = {}): UpadEntry => ({
+  id: `u${nextId++}`,
+  employeeId,
+  amount,
+  date,
+  ...extra,
+});
+
+// Settlements as they are saved by the migration
+const withSettlements = (entries: UpadEntry[], ledgerMonth: string) => [
+  ...entries,
+  ...getLegacyUpadSettlements(entries, ledgerMonth),
+];
+
+describe("upad balance", () => {
+  it("adds advances and subtracts repayments and deductions", () => {
+    const entries = [
+      upad("w1", "2024-03-02", 1000, { type: "advance" }),
+      upad("w1", "2024-03-10", 300, { type: "repayment" }),
+      upad("w1", "2024-03-31", 500, { type: "deduction", payrollMonth: "2024-03" }),
+      upad("w2", "2024-03-05", 800, { type: "advance" }),
+    ];
+
+    expect(getUpadBalance(entries, "w1", "2024-03-15")).toBe(700);
+    expect(getMonthEndUpadBalance(entries, "w1", "2024-03")).toBe(200);
+  });
+
+  it("ignores voided entries", () => {
+    const entries = [
+      upad("w1", "2024-03-02", 1000, { type: "advance" }),
+      upad("w1", "2024-03-03", 400, { type: "advance", voided: true, voidReason: "Typo" }),
+    ];
+
+    expect(getMonthEndUpadBalance(entries, "w1", "2024-03")).toBe(1000);
+  });
+
+  it("carries the balance forward into the next month's ledger", () => {
+    const entries = [
+      upad("w1", "2024-03-02", 1000, { type: "advance" }),
+      upad("w1", "2024-04-05", 200, { type: "repayment" }),
+    ];
+
+    const ledger = getUpadLedger(entries, "w1", "2024-04");
+    expect(ledger.opening).toBe(1000);
+    expect(ledger.recovered).toBe(200);
+    expect(ledger.closing).toBe(800);
+  });
+});
+
+describe("advances from before the ledger", () => {
+  it("leaves a worker with only pre-ledger upads owing nothing", () => {
+    const entries = withSettlements(
+      [upad("w1", "2024-01-05", 500), upad("w1", "2024-01-20", 250), upad("w1", "2024-02-11", 1000)],
+      "2024-04"
+    );
+
+    expect(getUpadBalance(entries, "w1", "2024-04-10")).toBe(0);
+    expect(getMonthEndUpadBalance(entries, "w1", "2024-04")).toBe(0);
+    expect(getUpadLedger(entries, "w1", "2024-02").closing).toBe(0);
+  });
+
+  it("settles each month at its end, as the old salary screen did", () => {
+    const settlements = getLegacyUpadSettlements(
+      [upad("w1", "2024-01-05", 500), upad("w1", "2024-01-20", 250), upad("w2", "2024-02-11", 1000)],
+      "2024-04"
+    );
+
+    expect(settlements).toEqual([
+      expect.objectContaining({ id: "legacy_w1_2024-01", type: "deduction", amount: 750, date: "2024-01-31" }),
+      expect.objectContaining({ id: "legacy_w2_2024-02", type: "deduction", amount: 1000, date: "2024-02-29" }),
+    ]);
+  });
+
+  it("leaves this month's advances and ledger entries to the payroll run", () => {
+    const entries = withSettlements(
+      [
+        upad("w1", "2024-03-20", 500),
+        upad("w1", "2024-04-02", 300),
+        upad("w1", "2024-04-03", 200, { type: "advance" }),
+      ],
+      "2024-04"
+    );
+
+    expect(getMonthEndUpadBalance(entries, "w1", "2024-04")).toBe(500);
+  });
+
+  it("skips months whose advances were all voided", () => {
+    expect(getLegacyUpadSettlements([upad("w1", "2024-01-05", 500, { voided: true })], "2024-04")).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+import { arrayUnion, collection, doc, getDocs, Timestamp, updateDoc, writeBatch } from "firebase/firestore";
+import { endOfMonth, format, parseISO } from "date-fns";
+import { db } from "./firebase";
+
+/**
+ * Advance (upad) ledger
+ * `upads` holds every movement of a worker's advance balance: advances given, repayments
+ * made by the worker and deductions taken from salary by a payroll run. Older documents
+ * have no `type` and are advances. The balance carries forward from month to month.
+ * Before the ledger, each advance was taken off its own month's salary; the "upads-legacy-settlement"
+ * migration records those as deductions so they aren't recovered a second time.
+ * Entries are never deleted: a mistake is corrected with an edit or void, each with a reason.
+ */
+
+export type UpadType = "advance" | "repayment" | "deduction";
+
+export const UPAD_TYPE_LABELS: Record<UpadType, string> = {
+  advance: "Advance",
+  repayment: "Repayment",
+  deduction: "Salary Deduction",
+};
+
+export interface UpadEdit {
+  amount: number;
+  date: string;
+  note?: string | null;
+  reason: string;
+  editedAt: Timestamp;
+}
+
+export interface UpadEntry {
+  id: string;
+  employeeId: string;
+  type?: UpadType;
+  amount: number;
+  date: string; // yyyy-MM-dd
+  note?: string | null;
+  payrollMonth?: string; // set on deductions made by a payroll run
+  voided?: boolean;
+  voidReason?: string;
+  edits?: UpadEdit[]; // previous values, oldest first
+}
+
+export interface UpadLedgerRow {
+  entry: UpadEntry;
+  balance: number; // balance after this entry
+}
+
+const monthEndOf = (month: string) => format(endOfMonth(parseISO(`${month}-01`)), "yyyy-MM-dd");
+
+/**
+ * How much an entry changes the balance: advances add, repayments and deductions subtract
+ */
+export const getBalanceChange = (entry: UpadEntry) => {
+  if (entry.voided) return 0;
+  const amount = Number(entry.amount || 0);
+  return (entry.type || "advance") === "advance" ? amount : -amount;
+};
+
+const sortEntries = (entries: UpadEntry[]) =>
+  [...entries].sort((a, b) => a.date.localeCompare(b.date) || getBalanceChange(b) - getBalanceChange(a));
+
+/**
+ * Advance balance a worker owes at the end of a day
+ */
+export const getUpadBalance = (entries: UpadEntry[], employeeId: string, asOf: string) =>
+  entries
+    .filter((e) => e.employeeId === employeeId && e.date <= asOf)
+    .reduce((sum, e) => sum + getBalanceChange(e), 0);
+
+/**
+ * A worker's ledger for one month (yyyy-MM), with the balance brought forward and carried forward
+ */
+export const getUpadLedger = (entries: UpadEntry[], employeeId: string, month: string) => {
+  const own = entries.filter((e) => e.employeeId === employeeId);
+  const opening = own.filter((e) => e.date < `${month}-01`).reduce((sum, e) => sum + getBalanceChange(e), 0);
+
+  let balance = opening;
+  const rows: UpadLedgerRow[] = sortEntries(own.filter((e) => e.date.startsWith(month))).map((entry) => {
+    balance += getBalanceChange(entry);
+    return { entry, balance };
+  });
+
+  const given = rows.reduce((sum, r) => sum + Math.max(getBalanceChange(r.entry), 0), 0);
+  const recovered = rows.reduce((sum, r) => sum + Math.max(-getBalanceChange(r.entry), 0), 0);
+
+  return { opening, rows, given, recovered, closing: balance };
+};
+
+/**
+ * Balance to recover in a month's payroll: everything owed up to the end of the month
+ */
+export const getMonthEndUpadBalance = (entries: UpadEntry[], employeeId: string, month: string) =>
+  getUpadBalance(entries, employeeId, monthEndOf(month));
+
+/**
+ * Deductions that settle advances given before the ledger existed
+ * The old salary screen took every advance (no `type`) off that month's salary, so each worker
+ * gets one deduction at the end of every month before `ledgerMonth` in which they had such advances.
+ * Advances from `ledgerMonth` itself haven't been paid out yet and are left to the payroll run.
+ */
+export const getLegacyUpadSettlements = (entries: UpadEntry[], ledgerMonth: string) => {
+  const totals = new Map<string, { employeeId: string; month: string; amount: number }>();
+  entries
+    .filter((e) => !e.type && e.date < `${ledgerMonth}-01`)
+    .forEach((e) => {
+      const month = e.date.slice(0, 7);
+      const key = `${e.employeeId}_${month}`;
+      const total = totals.get(key) || { employeeId: e.employeeId, month, amount: 0 };
+      total.amount += getBalanceChange(e);
+      totals.set(key, total);
+    });
+
+  return [...totals.entries()]
+    .filter(([, total]) => total.amount > 0)
+    .map(([key, total]) => ({
+      id: `legacy_${key}`,
+      employeeId: total.employeeId,
+      type: "deduction" as const,
+      amount: total.amount,
+      date: monthEndOf(total.month),
+      note: "Deducted from salary before the upad ledger",
+    }));
+};
+
+/**
+ * Write the legacy settlements (see getLegacyUpadSettlements) for advances before this month
+ * Document ids are fixed per worker and month, so running it again changes nothing
+ */
+export const settleLegacyUpads = async () => {
+  const snapshot = await getDocs(collection(db, "upads"));
+  const entries = snapshot.docs.map((d) => ({ id: d.id, ...d.data() }) as UpadEntry);
+  const existing = new Set(entries.map((e) => e.id));
+  const settlements = getLegacyUpadSettlements(entries, format(new Date(), "yyyy-MM")).filter(
+    (s) => !existing.has(s.id)
+  );
+
+  for (let i = 0; i < settlements.length; i += 500) {
+    const batch = writeBatch(db);
+    settlements.slice(i, i + 500).forEach(({ id, ...settlement }) => {
+      batch.set(doc(db, "upads", id), { ...settlement, createdAt: Timestamp.now(), updatedAt: Timestamp.now() });
+    });
+    await batch.commit();
+  }
+
+  return { settlements: settlements.length };
+};
+
+/**
+ * Correct an entry, keeping its previous values and the reason in `edits`
+ */
+export const editUpad = async (
+  entry: UpadEntry,
+  changes: { amount: number; date: string; note?: string | null },
+  reason: string
+) => {
+  const previous: UpadEdit = {
+    amount: entry.amount,
+    date: entry.date,
+    note: entry.note ?? null,
+    reason,
+    editedAt: Timestamp.now(),
+  };
+  await updateDoc(doc(db, "upads", entry.id), {
+    amount: changes.amount,
+    date: changes.date,
+    note: changes.note || null,
+    edits: arrayUnion(previous),
+    updatedAt: Timestamp.now(),
+  });
+};
+
+/**
+ * Cancel an entry without deleting it, so the ledger still shows what happened
+ */
+export const voidUpad = async (entry: UpadEntry, reason: string) => {
+  await updateDoc(doc(db, "upads", entry.id), {
+    voided: true,
+    voidReason: reason,
+    voidedAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { buildUpiLink, isValidUpiVpa } from "./upi";
+
+describe("buildUpiLink", () => {
+  it("fills in the payee, amount and note", () => {
+    expect(
+      buildUpiLink({ vpa: " safay@okaxis ", payeeName: "Safay Hub", amount: 1500, note: "Invoice SM/2024-25/0001" })
+    ).toBe("upi://pay?pa=safay%40okaxis&pn=Safay%20Hub&am=1500.00&cu=INR&tn=Invoice%20SM%2F2024-25%2F0001");
+  });
+
+  it("never adds a transaction reference, which personal UPI ids reject", () => {
+    expect(buildUpiLink({ vpa: "safay@okaxis", payeeName: "Safay Hub", amount: 99.5 })).not.toContain("tr=");
+  });
+});
+
+describe("isValidUpiVpa", () => {
+  it("accepts a UPI id and rejects anything else", () => {
+    expect(isValidUpiVpa("safay.hub@okaxis")).toBe(true);
+    expect(isValidUpiVpa("safay hub@okaxis")).toBe(false);
+    expect(isValidUpiVpa("9876543210")).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { deleteApp, initializeApp } from "firebase/app";
+import {
+  connectAuthEmulator,
+  createUserWithEmailAndPassword,
+  inMemoryPersistence,
+  initializeAuth,
+  signOut,
+} from "firebase/auth";
+import { doc, setDoc, Timestamp } from "firebase/firestore";
+import { authEmulatorUrl, db, emulatorsEnabled, firebaseConfig } from "./firebase";
+import type { Role } from "./permissions";
+
+export interface NewUserAccount {
+  email: string;
+  password: string;
+  name: string;
+  role: Role;
+  employeeId?: string;
+}
+
+/**
+ * Create a login account and its role profile
+ * Uses a secondary Firebase app so the owner creating the account stays signed in
+ * (createUserWithEmailAndPassword signs in as the new user on the instance it runs on)
+ *
+ * @param account - Email, password and profile details for the new user
+ * @returns The new user's uid
+ */
+export const createUserAccount = async (account: NewUserAccount): Promise<string> => {
+  const secondaryApp = initializeApp(firebaseConfig, `user-admin-${Date.now()}`);
+
+  try {
+    const secondaryAuth = initializeAuth(secondaryApp, { persistence: inMemoryPersistence });
+    if (emulatorsEnabled) {
+      connectAuthEmulator(secondaryAuth, authEmulatorUrl, { disableWarnings: true });
+    }
+
+    const credential = await createUserWithEmailAndPassword(
+      secondaryAuth,
+      account.email.trim(),
+      account.password
+    );
+    const uid = credential.user.uid;
+
+    // Profile is written with the owner's session (main db instance) so the rules allow it
+    const profile: Record<string, unknown> = {
+      email: account.email.trim().toLowerCase(),
+      name: account.name.trim(),
+      role: account.role,
+      active: true,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    };
+    if (account.employeeId) {
+      profile.employeeId = account.employeeId;
+    }
+    await setDoc(doc(db, "users", uid), profile);
+
+    await signOut(secondaryAuth);
+    return uid;
+  } catch (error) {
+    console.error("Error creating user account:", error);
+    throw error;
+  } finally {
+    await deleteApp(secondaryApp);
+  }
+};
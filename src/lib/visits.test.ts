@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getDocs, writeBatch } from "firebase/firestore";
+import { deleteMembershipSignup } from "./visits";
+
+vi.mock("./firebase", () => ({ db: {} }));
+vi.mock("firebase/firestore", () => ({
+  collection: (_db: unknown, name: string) => ({ name }),
+  query: (ref: { name: string }, ...filters: { field: string; value: string }[]) => ({ name: ref.name, filters }),
+  where: (field: string, _op: string, value: string) => ({ field, value }),
+  doc: (_db: unknown, name: string, id: string) => ({ name, id }),
+  getDocs: vi.fn(),
+  writeBatch: vi.fn(),
+  arrayUnion: vi.fn(),
+  Timestamp: { now: () => "now" },
+}));
+
+// Collections as the mocked queries see them
+let collections: Record<string, { id: string; data: Record<string, unknown> }[]> = {};
+let deleted: string[] = [];
+
+const signup = { id: "signup1", customerName: "Asha", contact: "9876543210" };
+
+describe("deleteMembershipSignup", () => {
+  beforeEach(() => {
+    deleted = [];
+    collections = {
+      membershipMembers: [
+        { id: "m1", data: { name: "Asha", contact: "9876543210" } },
+        { id: "m2", data: { name: "Asha", contact: "9999999999" } },
+      ],
+      pendingWorks: [],
+    };
+
+    vi.mocked(getDocs).mockImplementation((async (q: {
+      name: string;
+      filters: { field: string; value: string }[];
+    }) => ({
+      docs: (collections[q.name] || [])
+        .filter((d) => q.filters.every((f) => d.data[f.field] === f.value))
+        .map((d) => ({ id: d.id, data: () => d.data })),
+    })) as unknown as typeof getDocs);
+
+    vi.mocked(writeBatch).mockImplementation((() => ({
+      delete: (ref: { name: string; id: string }) => deleted.push(`${ref.name}/${ref.id}`),
+      commit: async () => undefined,
+    })) as unknown as typeof writeBatch);
+  });
+
+  it("deletes the member the signup created", async () => {
+    const result = await deleteMembershipSignup({ ...signup, memberId: "m2" });
+
+    expect(result.members).toBe(1);
+    expect(deleted).toEqual(["pendingWorks/signup1", "membershipMembers/m2"]);
+  });
+
+  it("deletes the member's visits still to be done, keeping completed ones", async () => {
+    collections.pendingWorks = [
+      { id: "signup1", data: { memberId: "m1", membershipWork: "signup", status: "pending" } },
+      { id: "visit_m1_2024-03-01", data: { memberId: "m1", status: "completed" } },
+      { id: "visit_m1_2024-03-08", data: { memberId: "m1", status: "pending" } },
+      { id: "visit_m1_2024-03-15", data: { memberId: "m1", membershipWork: "visit", status: "in-progress" } },
+      { id: "renewal1", data: { memberId: "m1", membershipWork: "renewal", status: "pending" } },
+    ];
+
+    const result = await deleteMembershipSignup({ ...signup, memberId: "m1" });
+
+    expect(result).toEqual({ members: 1, visits: 2 });
+    expect(deleted).toEqual([
+      "pendingWorks/signup1",
+      "membershipMembers/m1",
+      "pendingWorks/visit_m1_2024-03-08",
+      "pendingWorks/visit_m1_2024-03-15",
+    ]);
+  });
+
+  it("finds the member of a signup from before member ids by name and contact", async () => {
+    const result = await deleteMembershipSignup(signup);
+
+    expect(result.members).toBe(1);
+    expect(deleted).toEqual(["pendingWorks/signup1", "membershipMembers/m1"]);
+  });
+});
@@ -0,0 +1,204 @@
+import { arrayUnion, collection, doc, getDoc, getDocs, query, Timestamp, where, writeBatch } from "firebase/firestore";
+import { addDays, format, max, min, parseISO, startOfDay } from "date-fns";
+import { db } from "./firebase";
+import { getEffectiveStatus, getEndDate, MembershipPeriod } from "./membership";
+import { buildPendingWork, getMembershipWorkKind } from "./works";
+
+/**
+ * Recurring membership visits
+ * Each visit is a `pendingWorks` document with id `visit_{memberId}_{yyyy-MM-dd}`, so a visit
+ * is never generated twice even if two people have the app open. Deleted visits are kept in the
+ * member's `skippedVisitDates` so they aren't generated again.
+ */
+
+export type VisitFrequency = "once" | "daily" | "alternate" | "weekly";
+
+export const VISIT_FREQUENCIES: { value: VisitFrequency; label: string }[] = [
+  { value: "once", label: "Single visit only" },
+  { value: "daily", label: "Daily" },
+  { value: "alternate", label: "Alternate days" },
+  { value: "weekly", label: "Weekly" },
+];
+
+const FREQUENCY_DAYS: Record<VisitFrequency, number> = {
+  once: 0,
+  daily: 1,
+  alternate: 2,
+  weekly: 7,
+};
+
+// How far ahead visits are created, so the schedule stays short enough to edit by hand
+export const VISIT_LOOKAHEAD_DAYS = 14;
+
+export interface ScheduledMember extends MembershipPeriod {
+  id: string;
+  name: string;
+  contact: string;
+  address: string;
+  membershipType: string;
+  visitFrequency?: string;
+  customerId?: string;
+  skippedVisitDates?: string[];
+}
+
+export const visitWorkId = (memberId: string, date: string) => `visit_${memberId}_${date}`;
+
+/**
+ * Visit dates for a member between today and the lookahead window, stopping at the end date
+ * Dates are counted from the start of the current period, so "alternate" keeps the same rhythm.
+ */
+export const getUpcomingVisitDates = (member: ScheduledMember, today: Date = new Date()): string[] => {
+  const step = FREQUENCY_DAYS[(member.visitFrequency || "once") as VisitFrequency] || 0;
+  const endDate = getEndDate(member);
+  if (!step || !endDate) return [];
+
+  const start = parseISO(member.periodStart || member.joinDate);
+  const from = max([start, startOfDay(today)]);
+  const until = min([parseISO(endDate), addDays(startOfDay(today), VISIT_LOOKAHEAD_DAYS)]);
+
+  const dates: string[] = [];
+  for (let date = start; date <= until; date = addDays(date, step)) {
+    if (date >= from) {
+      dates.push(format(date, "yyyy-MM-dd"));
+    }
+  }
+  return dates;
+};
+
+/**
+ * Create pending works for a member's upcoming visits
+ * Dates that already have a work for the member (generated or created by hand) are skipped.
+ * @returns Number of visits created
+ */
+export const generateVisitsForMember = async (member: ScheduledMember, today: Date = new Date()): Promise<number> => {
+  if (!["Active", "Expiring Soon"].includes(getEffectiveStatus(member, today))) return 0;
+
+  const dates = getUpcomingVisitDates(member, today);
+  if (dates.length === 0) return 0;
+
+  const worksSnapshot = await getDocs(query(collection(db, "pendingWorks"), where("memberId", "==", member.id)));
+  const works = worksSnapshot.docs.map((d) => d.data());
+  const existingDates = new Set([...works.map((work) => work.date as string), ...(member.skippedVisitDates || [])]);
+  const missingDates = dates.filter((date) => !existingDates.has(date));
+  if (missingDates.length === 0) return 0;
+
+  // New visits go to whoever handled the member's most recent work
+  const latestWork = works.sort((a, b) => String(b.date).localeCompare(String(a.date)))[0];
+
+  const batch = writeBatch(db);
+  missingDates.forEach((date) => {
+    batch.set(doc(db, "pendingWorks", visitWorkId(member.id, date)), {
+      ...buildPendingWork({
+        customerName: member.name,
+        contact: member.contact,
+        address: member.address,
+        workType: member.membershipType,
+        type: "membership",
+        // The membership rate covers every visit, so visits aren't billed separately
+        rate: 0,
+        date,
+        assignedTo: latestWork?.assignedTo,
+        secondWorker: latestWork?.secondWorker,
+        membershipDuration: member.membershipDuration,
+        customerId: member.customerId,
+        memberId: member.id,
+        membershipWork: "visit",
+        description: `Membership Visit - ${member.membershipType}`,
+      }),
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+  });
+  await batch.commit();
+
+  return missingDates.length;
+};
+
+/**
+ * Delete one visit and remember its date on the member, so the scheduler doesn't create it again
+ */
+export const skipVisit = async (visit: { id: string; memberId: string; date: string }) => {
+  const memberRef = doc(db, "membershipMembers", visit.memberId);
+  const memberDoc = await getDoc(memberRef);
+
+  const batch = writeBatch(db);
+  batch.delete(doc(db, "pendingWorks", visit.id));
+  // A removed membership has no schedule left to skip
+  if (memberDoc.exists()) {
+    batch.update(memberRef, { skippedVisitDates: arrayUnion(visit.date), updatedAt: Timestamp.now() });
+  }
+  await batch.commit();
+};
+
+/**
+ * Members created by a signup work
+ * Works from before `memberId` was saved are matched by the member's name and contact.
+ */
+const getSignupMemberIds = async (work: { memberId?: string; customerName: string; contact: string }) => {
+  if (work.memberId) return [work.memberId];
+
+  const snapshot = await getDocs(
+    query(
+      collection(db, "membershipMembers"),
+      where("name", "==", work.customerName),
+      where("contact", "==", work.contact)
+    )
+  );
+  return snapshot.docs.map((d) => d.id);
+};
+
+/**
+ * Delete a membership with the signup work that created it and its visits still to be done
+ * Completed visits are kept as the record of work done.
+ * @returns Number of members and visits deleted
+ */
+export const deleteMembershipSignup = async (work: {
+  id: string;
+  memberId?: string;
+  customerName: string;
+  contact: string;
+}) => {
+  const memberIds = await getSignupMemberIds(work);
+
+  const visitIds: string[] = [];
+  for (const memberId of memberIds) {
+    const snapshot = await getDocs(query(collection(db, "pendingWorks"), where("memberId", "==", memberId)));
+    snapshot.docs.forEach((d) => {
+      const isVisit = getMembershipWorkKind({ id: d.id, ...d.data() }) === "visit";
+      if (d.id !== work.id && isVisit && d.data().status !== "completed") {
+        visitIds.push(d.id);
+      }
+    });
+  }
+
+  const refs = [
+    doc(db, "pendingWorks", work.id),
+    ...memberIds.map((id) => doc(db, "membershipMembers", id)),
+    ...visitIds.map((id) => doc(db, "pendingWorks", id)),
+  ];
+  // Firestore batches are limited to 500 writes
+  for (let i = 0; i < refs.length; i += 400) {
+    const batch = writeBatch(db);
+    refs.slice(i, i + 400).forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+
+  return { members: memberIds.length, visits: visitIds.length };
+};
+
+/**
+ * Create upcoming visits for every membership with a recurring visit frequency
+ * @returns Number of visits created
+ */
+export const generateMembershipVisits = async (today: Date = new Date()): Promise<number> => {
+  const membersSnapshot = await getDocs(collection(db, "membershipMembers"));
+  const members = membersSnapshot.docs
+    .map((d) => ({ id: d.id, ...d.data() }) as ScheduledMember)
+    .filter((member) => member.visitFrequency && member.visitFrequency !== "once");
+
+  let created = 0;
+  for (const member of members) {
+    created += await generateVisitsForMember(member, today);
+  }
+  return created;
+};
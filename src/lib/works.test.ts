@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { buildPendingWork, getMembershipWorkKind } from "./works";
+
+describe("getMembershipWorkKind", () => {
+  it("uses the saved kind", () => {
+    expect(getMembershipWorkKind({ id: "abc", membershipWork: "renewal" })).toBe("renewal");
+  });
+
+  it("recognises older visits by their id and renewals by their description", () => {
+    expect(getMembershipWorkKind({ id: "visit_m1_2024-03-05", description: "Membership Visit - Tank" })).toBe(
+      "visit"
+    );
+    expect(getMembershipWorkKind({ id: "abc", description: "Membership Renewal - Tank" })).toBe("renewal");
+    expect(getMembershipWorkKind({ id: "abc", description: "Membership - Tank" })).toBe("signup");
+  });
+
+  it("is saved on new membership works", () => {
+    const work = buildPendingWork({
+      customerName: "Asha",
+      contact: "9876543210",
+      address: "Ahmedabad",
+      workType: "Tank",
+      type: "membership",
+      rate: 500,
+      date: "2024-03-05",
+      memberId: "m1",
+      membershipWork: "signup",
+    });
+
+    expect(work).toMatchObject({ memberId: "m1", membershipWork: "signup" });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Pending work helpers shared by the pages that create works
+ */
+
+// Which part of a membership a work is for: the signup, a renewal or one scheduled visit
+export type MembershipWorkKind = "signup" | "renewal" | "visit";
+
+export interface NewWorkDetails {
+  customerName: string;
+  contact: string;
+  address: string;
+  workType: string;
+  type: string; // "membership" or "individual"
+  rate: string | number;
+  date: string; // yyyy-MM-dd
+  assignedTo?: string;
+  secondWorker?: string;
+  membershipDuration?: string;
+  customerId?: string | null;
+  customerGstin?: string; // business customers who want a GST tax invoice
+  memberId?: string; // membership this work belongs to
+  membershipWork?: MembershipWorkKind;
+  description?: string;
+}
+
+/**
+ * Build the `pendingWorks` document for a new inquiry or membership period
+ * @returns Document data without timestamps (added by whoever writes it)
+ */
+export const buildPendingWork = (details: NewWorkDetails) => ({
+  customerName: details.customerName,
+  contact: details.contact,
+  address: details.address,
+  workType: details.workType,
+  description:
+    details.description ||
+    `${details.type === "membership" ? "Membership" : "Individual Work"} - ${details.workType}`,
+  estimatedCost: details.rate ? Number(details.rate) : 0,
+  status: "pending" as const,
+  assignedTo: details.assignedTo || "",
+  secondWorker: details.secondWorker || "",
+  date: details.date,
+  membershipDuration: details.membershipDuration || "",
+  type: details.type,
+  ...(details.customerId ? { customerId: details.customerId } : {}),
+  ...(details.memberId ? { memberId: details.memberId } : {}),
+  ...(details.membershipWork ? { membershipWork: details.membershipWork } : {}),
+  ...(details.customerGstin ? { customerGstin: details.customerGstin.trim().toUpperCase() } : {}),
+});
+
+/**
+ * What a membership work is for
+ * Works saved before `membershipWork` existed are told apart by their visit id or renewal description.
+ */
+export const getMembershipWorkKind = (work: {
+  id: string;
+  membershipWork?: MembershipWorkKind;
+  description?: string;
+}): MembershipWorkKind => {
+  if (work.membershipWork) return work.membershipWork;
+  if (work.id.startsWith("visit_")) return "visit";
+  if (work.description?.startsWith("Membership Renewal")) return "renewal";
+  return "signup";
+};
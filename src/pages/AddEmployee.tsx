@@ -9,6 +9,9 @@ import { toast } from "sonner";
 import { useFirestore } from "@/hooks/useFirestore";
 import { useCloudinary } from "@/hooks/useCloudinary";
 import { compressImage, blobToFile, getImageSize } from "@/lib/imageCompression";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEFAULT_DAILY_WAGE, initialWageHistory, WageChange } from "@/lib/salary";
+import { WEEKDAYS } from "@/lib/holidays";
 
 interface Employee {
   id: string;
@@ -17,6 +20,9 @@ interface Employee {
   contact: string;
   photoUrl: string;
   aadharPhotoUrl: string;
+  dailyWage: number;
+  wageHistory: WageChange[];
+  weeklyOff: number | null;
 }
 
 const AddEmployee = () => {
@@ -28,6 +34,8 @@ const AddEmployee = () => {
     name: "",
     address: "",
     contact: "",
+    dailyWage: String(DEFAULT_DAILY_WAGE),
+    weeklyOff: "none",
     photo: null as File | null,
     aadhar: null as File | null,
   });
@@ -100,6 +108,12 @@ const AddEmployee = () => {
       return;
     }
 
+    const dailyWage = Number(formData.dailyWage);
+    if (!dailyWage || dailyWage <= 0) {
+      toast.error("Please enter a valid daily wage");
+      return;
+    }
+
     setUploading(true);
 
     try {
@@ -118,6 +132,9 @@ const AddEmployee = () => {
         contact: formData.contact,
         photoUrl,
         aadharPhotoUrl,
+        dailyWage,
+        wageHistory: initialWageHistory(dailyWage),
+        weeklyOff: formData.weeklyOff === "none" ? null : Number(formData.weeklyOff),
       } as Omit<Employee, "id">);
 
       toast.success("Employee added successfully!");
@@ -127,6 +144,8 @@ const AddEmployee = () => {
         name: "",
         address: "",
         contact: "",
+        dailyWage: String(DEFAULT_DAILY_WAGE),
+        weeklyOff: "none",
         photo: null,
         aadhar: null,
       });
@@ -177,6 +196,35 @@ const AddEmployee = () => {
                   required
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="empDailyWage">Daily Wage (₹)</Label>
+                <Input
+                  id="empDailyWage"
+                  type="number"
+                  min="0"
+                  value={formData.dailyWage}
+                  onChange={(e) => setFormData({ ...formData, dailyWage: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Weekly Off</Label>
+                <Select value={formData.weeklyOff} onValueChange={(weeklyOff) => setFormData({ ...formData, weeklyOff })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No weekly off</SelectItem>
+                    {WEEKDAYS.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>
+                        {day}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             <div className="space-y-2">
@@ -11,7 +11,14 @@ import { useFirestore } from "@/hooks/useFirestore";
 import { orderBy } from "firebase/firestore";
 import { toast } from "sonner";
 import { getCloudinaryAvatar, getCloudinaryPreview } from "@/lib/cloudinaryOptimizer";
-import { cascadeDeleteEmployee, getRelatedDataCounts } from "@/lib/cascadeDelete";
+import { cascadeDeleteEmployee, getLockedEmployeeMessage, getRelatedDataCounts } from "@/lib/cascadeDelete";
+import { useAuth } from "@/hooks/useAuth";
+import { changeDailyWage, getAttendanceSalary, getDailyWage, WageChange } from "@/lib/salary";
+import { getUpadBalance, getUpadLedger, UPAD_TYPE_LABELS, UpadEntry, UpadType } from "@/lib/upads";
+import { UpadLedger } from "@/components/UpadLedger";
+import { AttendanceStatus } from "@/lib/attendance";
+import { WEEKDAYS } from "@/lib/holidays";
+import { getLockedMonthMessage, isMonthLocked, MonthLock } from "@/lib/monthLocks";
 
 interface Employee {
   id: string;
@@ -20,34 +27,40 @@ interface Employee {
   contact: string;
   photoUrl: string;
   aadharPhotoUrl: string;
+  dailyWage?: number;
+  wageHistory?: WageChange[];
+  weeklyOff?: number | null;
 }
 
 interface AttendanceRecord {
   id: string;
   employeeId: string;
   date: string; // yyyy-MM-dd
-  status: "present" | "absent" | "half-day" | "leave";
-}
-
-interface UpadRecord {
-  id: string;
-  employeeId: string;
-  amount: number;
-  date: string; // yyyy-MM-dd when upad was given
-  note?: string | null; // Make note explicitly optional and allow null
+  status: AttendanceStatus;
 }
 
 const AllWorkers = () => {
-  const { data: workers, loading, error, deleteDocument } = useFirestore<Employee>("employees", orderBy("createdAt", "desc"));
+  const { can } = useAuth();
+  const { data: workers, loading, error, updateDocument, deleteDocument } = useFirestore<Employee>(
+    "employees",
+    orderBy("createdAt", "desc")
+  );
   const { data: attendanceRecords } = useFirestore<AttendanceRecord>("attendance", orderBy("date", "desc"));
-  const { data: upads, addDocument: addUpad } = useFirestore<UpadRecord>("upads", orderBy("createdAt", "desc"));
+  const { data: upads, addDocument: addUpad } = useFirestore<UpadEntry>("upads", orderBy("createdAt", "desc"));
+  const { data: monthLocks } = useFirestore<MonthLock>("monthLocks");
   const [selectedWorker, setSelectedWorker] = useState<Employee | null>(null);
   const [isDetailDialogOpen, setIsDetailDialogOpen] = useState(false);
+  const [upadType, setUpadType] = useState<UpadType>("advance");
   const [upadAmount, setUpadAmount] = useState<string>("");
   const [upadNote, setUpadNote] = useState<string>("");
   const [isSavingUpad, setIsSavingUpad] = useState(false);
   const [selectedMonth, setSelectedMonth] = useState<Date>(new Date());
   const [isChangingMonth, setIsChangingMonth] = useState(false);
+  const [newWage, setNewWage] = useState({ amount: "", effectiveFrom: "" });
+  const [isSavingWage, setIsSavingWage] = useState(false);
+
+  // The dialog keeps the worker it was opened with; read wages from the live document
+  const selectedWorkerLive = workers.find((w) => w.id === selectedWorker?.id) || selectedWorker || undefined;
 
   const getInitials = (name: string) => {
     return name
@@ -59,13 +72,62 @@ const AllWorkers = () => {
 
   const handleViewDetails = (worker: Employee) => {
     setSelectedWorker(worker);
+    setNewWage({ amount: "", effectiveFrom: format(new Date(), "yyyy-MM-dd") });
     setIsDetailDialogOpen(true);
   };
 
+  const handleSaveWage = async () => {
+    if (!selectedWorker) return;
+
+    const amount = parseFloat(newWage.amount);
+    if (isNaN(amount) || amount <= 0) {
+      toast.error("Please enter a valid daily wage");
+      return;
+    }
+    if (!newWage.effectiveFrom) {
+      toast.error("Please select the date the new wage starts from");
+      return;
+    }
+
+    setIsSavingWage(true);
+    try {
+      // Use the live document so an earlier change in this dialog isn't overwritten
+      const worker = workers.find((w) => w.id === selectedWorker.id) || selectedWorker;
+      await changeDailyWage(worker, amount, newWage.effectiveFrom);
+      setNewWage({ ...newWage, amount: "" });
+      toast.success(`Daily wage for ${worker.name} set to ₹${amount} from ${format(new Date(newWage.effectiveFrom), "dd/MM/yyyy")}`);
+    } catch (err) {
+      console.error("Failed to change daily wage:", err);
+      toast.error("Failed to change daily wage. Please try again.");
+    } finally {
+      setIsSavingWage(false);
+    }
+  };
+
+  const handleWeeklyOffChange = async (value: string) => {
+    if (!selectedWorker) return;
+    try {
+      await updateDocument(selectedWorker.id, { weeklyOff: value === "none" ? null : Number(value) });
+    } catch (err) {
+      console.error("Failed to change weekly off:", err);
+      toast.error("Failed to change weekly off. Please try again.");
+    }
+  };
+
   const handleDelete = async (worker: Employee) => {
+    // Cascade delete removes attendance and images too, so check before touching anything
+    if (!can("employees.delete")) {
+      toast.error("You don't have permission to delete employees");
+      return;
+    }
+
     try {
       // Get counts of related data
       const counts = await getRelatedDataCounts(worker.id);
+      if (counts.lockedMonths.length > 0) {
+        toast.error(`Cannot delete ${worker.name}`, { description: getLockedEmployeeMessage(counts.lockedMonths) });
+        return;
+      }
       
       // Build confirmation message
       let confirmMessage = `Are you sure you want to delete ${worker.name}?\n\n`;
@@ -109,6 +171,12 @@ const AllWorkers = () => {
         deletedItems.push(`${results.images} image(s) from Cloudinary`);
       }
 
+      if (results.imagesFailed > 0) {
+        toast.warning(`${results.imagesFailed} image(s) could not be deleted from Cloudinary`, {
+          description: "They are still stored on Cloudinary. Check the console for details.",
+        });
+      }
+
       toast.success(
         `Successfully deleted ${worker.name}`, 
         {
@@ -121,11 +189,18 @@ const AllWorkers = () => {
 
     } catch (error) {
       console.error("Error deleting employee and related data:", error);
-      toast.error("Failed to delete employee. Please try again.");
+      toast.error("Failed to delete employee. Please try again.", {
+        description: error instanceof Error ? error.message : undefined,
+      });
     }
   };
 
   const handleSaveUpad = async () => {
+    if (!can("upads.create")) {
+      toast.error("You don't have permission to record advances");
+      return;
+    }
+
     if (!selectedWorker) {
       toast.error("No worker selected");
       return;
@@ -147,13 +222,20 @@ const AllWorkers = () => {
       return;
     }
 
+    const today = format(new Date(), "yyyy-MM-dd");
+    if (isMonthLocked(monthLocks, today)) {
+      toast.error(getLockedMonthMessage(today));
+      return;
+    }
+
     setIsSavingUpad(true);
     try {
       // Prepare the upad data - omit note field if it's empty
-      const upadData: Omit<UpadRecord, 'id'> = {
+      const upadData: Omit<UpadEntry, 'id'> = {
         employeeId: selectedWorker.id,
+        type: upadType,
         amount: amt,
-        date: format(new Date(), "yyyy-MM-dd"),
+        date: today,
       };
 
       // Only add note field if it's not empty
@@ -164,7 +246,7 @@ const AllWorkers = () => {
       await addUpad(upadData);
       setUpadAmount("");
       setUpadNote("");
-      toast.success(`Successfully added advance of ₹${amt} for ${selectedWorker.name}`);
+      toast.success(`Successfully added ${UPAD_TYPE_LABELS[upadType].toLowerCase()} of ₹${amt} for ${selectedWorker.name}`);
     } catch (err) {
       console.error("Failed to save advance:", err);
       toast.error("Failed to save advance. Please try again.");
@@ -230,24 +312,21 @@ const AllWorkers = () => {
                       const currentMonth = format(new Date(), "yyyy-MM");
                       // today's record for this worker
                       const todayRecord = (attendanceRecords || []).find(r => r.employeeId === worker.id && r.date === todayISO);
-                      const salaryForStatus = (status?: string) => {
-                        if (!status) return 0;
-                        if (status === "present") return 400;
-                        if (status === "half-day") return 200;
-                        return 0; // absent/leave
-                      };
-                      const todaySalary = salaryForStatus(todayRecord?.status);
+                      const todaySalary = todayRecord ? getAttendanceSalary(todayRecord, worker) : 0;
 
                       // month-to-date salary: consider attendance records in current month
                       const monthly = (attendanceRecords || []).filter(r => r.employeeId === worker.id && r.date && r.date.startsWith(currentMonth));
-                      const monthSalary = monthly.reduce((sum, r) => sum + salaryForStatus(r.status), 0);
-                      // subtract month-to-date upads (advances) given to this worker
-                      const monthUpads = (upads || []).filter(u => u.employeeId === worker.id && u.date && u.date.startsWith(currentMonth));
-                      const monthUpadSum = monthUpads.reduce((s, u) => s + (u.amount || 0), 0);
-                      const netMonthSalary = monthSalary - monthUpadSum;
+                      const monthSalary = monthly.reduce((sum, r) => sum + getAttendanceSalary(r, worker), 0);
+                      // subtract the advance balance the worker still owes, including earlier months
+                      const upadBalance = Math.max(getUpadBalance(upads || [], worker.id, todayISO), 0);
+                      const netMonthSalary = monthSalary - upadBalance;
 
                       return (
                         <div className="space-y-2">
+                          <div className="flex justify-between items-baseline">
+                            <span className="text-sm text-muted-foreground">Daily Wage</span>
+                            <span className="text-base font-medium">{`₹${getDailyWage(worker, todayISO).toLocaleString()}`}</span>
+                          </div>
                           <div className="flex justify-between items-baseline">
                             <span className="text-sm text-muted-foreground">Today</span>
                             <span className="text-base font-medium">{`₹${todaySalary.toLocaleString()}`}</span>
@@ -264,9 +343,9 @@ const AllWorkers = () => {
                                 {Math.abs(netMonthSalary).toLocaleString()}
                               </span>
                             </div>
-                            {monthUpadSum > 0 && (
+                            {upadBalance > 0 && (
                               <div className="text-xs text-right text-muted-foreground">
-                                Deducted Advances: -₹{monthUpadSum.toLocaleString()}
+                                Advance Balance: -₹{upadBalance.toLocaleString()}
                               </div>
                             )}
                           </div>
@@ -278,10 +357,12 @@ const AllWorkers = () => {
                     <Button size="sm" variant="outline" className="flex-1" onClick={() => handleViewDetails(worker)}>
                       View Details
                     </Button>
-                    <Button size="sm" variant="destructive" className="flex-1" onClick={() => handleDelete(worker)}>
-                      <Trash2 className="mr-1 h-3 w-3" />
-                      Delete
-                    </Button>
+                    {can("employees.delete") && (
+                      <Button size="sm" variant="destructive" className="flex-1" onClick={() => handleDelete(worker)}>
+                        <Trash2 className="mr-1 h-3 w-3" />
+                        Delete
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -382,7 +463,7 @@ const AllWorkers = () => {
                   }).map((date) => {
                     const dateStr = format(date, "yyyy-MM-dd");
                     const rec = (attendanceRecords || []).find(r => r.employeeId === selectedWorker.id && r.date === dateStr);
-                    const salary = rec ? (rec.status === "present" ? 400 : rec.status === "half-day" ? 200 : 0) : 0;
+                    const salary = rec ? getAttendanceSalary(rec, selectedWorkerLive) : 0;
                     const statusLabel = rec ? rec.status : "no record";
                     return (
                       <div key={dateStr} className="flex justify-between text-sm">
@@ -392,6 +473,7 @@ const AllWorkers = () => {
                             rec ? 
                               (rec.status === 'present' ? 'text-green-600' : 
                                rec.status === 'half-day' ? 'text-yellow-600' : 
+                               rec.status === 'holiday' || rec.status === 'week-off' ? 'text-blue-600' :
                                'text-red-600') 
                               : 'text-muted-foreground'
                           }`}>
@@ -410,16 +492,12 @@ const AllWorkers = () => {
                   const monthlyRecords = (attendanceRecords || [])
                     .filter(r => r.employeeId === selectedWorker.id && r.date.startsWith(monthStr));
                   
-                  const totalSalary = monthlyRecords.reduce((sum, r) => {
-                    if (r.status === "present") return sum + 400;
-                    if (r.status === "half-day") return sum + 200;
-                    return sum;
-                  }, 0);
-
-                  const monthlyAdvances = (upads || [])
-                    .filter(u => u.employeeId === selectedWorker.id && u.date.startsWith(monthStr));
-                  const totalAdvances = monthlyAdvances.reduce((sum, u) => sum + u.amount, 0);
-                  
+                  const totalSalary = monthlyRecords.reduce((sum, r) => sum + getAttendanceSalary(r, selectedWorkerLive), 0);
+
+                  // Advances still owed at the end of the month, brought forward ones included
+                  const { closing } = getUpadLedger(upads || [], selectedWorker.id, monthStr);
+                  const totalAdvances = Math.max(closing, 0);
+
                   const netSalary = totalSalary - totalAdvances;
 
                   return (
@@ -430,7 +508,7 @@ const AllWorkers = () => {
                       </div>
                       {totalAdvances > 0 && (
                         <div className="flex justify-between text-sm">
-                          <span className="text-muted-foreground">Total Advances</span>
+                          <span className="text-muted-foreground">Advance Balance</span>
                           <span className="font-medium text-red-600">-₹{totalAdvances.toLocaleString()}</span>
                         </div>
                       )}
@@ -445,52 +523,129 @@ const AllWorkers = () => {
                 })()}
               </div>
 
-              {/* Advances (Upad) section */}
+              {/* Daily wage and its changes */}
               <div className="border-t pt-4 space-y-4">
                 <div>
-                  <p className="text-sm font-medium text-muted-foreground mb-2">Advances / Upad</p>
-                  <div className="space-y-2">
-                    {(upads || []).filter(u => u.employeeId === selectedWorker.id).slice(0, 10).map((u) => (
-                      <div key={u.id} className="flex justify-between text-sm">
-                        <div className="text-muted-foreground">{u.date}</div>
-                        <div className="flex gap-4 items-center">
-                          <div className="text-muted-foreground">{u.note || ""}</div>
-                          <div className="font-medium">{`-₹${u.amount}`}</div>
+                  <div className="flex justify-between items-baseline mb-2">
+                    <p className="text-sm font-medium text-muted-foreground">Daily Wage</p>
+                    <p className="text-lg font-bold">
+                      ₹{getDailyWage(selectedWorkerLive, format(new Date(), "yyyy-MM-dd")).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="space-y-1">
+                    {[...(selectedWorkerLive?.wageHistory || [])].reverse().map((change) => (
+                      <div key={change.effectiveFrom || "joining"} className="flex justify-between text-sm">
+                        <div className="text-muted-foreground">
+                          {change.effectiveFrom ? `From ${format(new Date(change.effectiveFrom), "dd/MM/yyyy")}` : "Since joining"}
                         </div>
+                        <div className="font-medium">₹{change.dailyWage.toLocaleString()}</div>
                       </div>
                     ))}
-                    {(upads || []).filter(u => u.employeeId === selectedWorker.id).length === 0 && (
-                      <div className="text-sm text-muted-foreground">No advances recorded</div>
-                    )}
                   </div>
                 </div>
 
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground mb-2">Record a new advance</p>
-                  <div className="grid gap-2 md:grid-cols-3">
-                    <input
-                      type="number"
-                      min="0"
-                      value={upadAmount}
-                      onChange={(e) => setUpadAmount(e.target.value)}
-                      placeholder="Amount (₹)"
-                      className="w-full border rounded px-3 py-2"
-                    />
-                    <input
-                      type="text"
-                      value={upadNote}
-                      onChange={(e) => setUpadNote(e.target.value)}
-                      placeholder="Note (optional)"
-                      className="w-full border rounded px-3 py-2 md:col-span-2"
-                    />
-                  </div>
-                  <div className="flex justify-end gap-2 mt-2">
-                    <Button variant="default" onClick={handleSaveUpad} disabled={isSavingUpad}>
-                      {isSavingUpad ? "Saving..." : "Save Advance"}
-                    </Button>
+                <div className="flex justify-between items-center">
+                  <p className="text-sm font-medium text-muted-foreground">Weekly Off</p>
+                  {can("employees.create") ? (
+                    <select
+                      value={selectedWorkerLive?.weeklyOff ?? "none"}
+                      onChange={(e) => handleWeeklyOffChange(e.target.value)}
+                      className="border rounded px-3 py-1 bg-background text-sm"
+                    >
+                      <option value="none">No weekly off</option>
+                      {WEEKDAYS.map((day, index) => (
+                        <option key={day} value={index}>
+                          {day}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <p className="text-sm font-medium">
+                      {selectedWorkerLive?.weeklyOff != null ? WEEKDAYS[selectedWorkerLive.weeklyOff] : "None"}
+                    </p>
+                  )}
+                </div>
+
+                {can("wages.manage") && (
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground mb-2">Change daily wage</p>
+                    <div className="grid gap-2 md:grid-cols-3">
+                      <input
+                        type="number"
+                        min="0"
+                        value={newWage.amount}
+                        onChange={(e) => setNewWage({ ...newWage, amount: e.target.value })}
+                        placeholder="New wage (₹/day)"
+                        className="w-full border rounded px-3 py-2"
+                      />
+                      <input
+                        type="date"
+                        value={newWage.effectiveFrom}
+                        onChange={(e) => setNewWage({ ...newWage, effectiveFrom: e.target.value })}
+                        className="w-full border rounded px-3 py-2"
+                      />
+                      <Button variant="default" onClick={handleSaveWage} disabled={isSavingWage}>
+                        {isSavingWage ? "Saving..." : "Save Wage"}
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Attendance before this date keeps the old wage.
+                    </p>
                   </div>
+                )}
+              </div>
+
+              {/* Advances (Upad) section */}
+              <div className="border-t pt-4 space-y-4">
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground mb-2">
+                    Advances / Upad - {format(selectedMonth, "MMMM yyyy")}
+                  </p>
+                  <UpadLedger
+                    employeeId={selectedWorker.id}
+                    month={format(selectedMonth, "yyyy-MM")}
+                    entries={upads || []}
+                    canEdit={can("upads.edit")}
+                    monthLocks={monthLocks}
+                  />
                 </div>
 
+                {can("upads.create") && (
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground mb-2">Record an advance or repayment</p>
+                    <div className="grid gap-2 md:grid-cols-4">
+                      <select
+                        value={upadType}
+                        onChange={(e) => setUpadType(e.target.value as UpadType)}
+                        className="w-full border rounded px-3 py-2 bg-background"
+                      >
+                        <option value="advance">{UPAD_TYPE_LABELS.advance}</option>
+                        <option value="repayment">{UPAD_TYPE_LABELS.repayment}</option>
+                      </select>
+                      <input
+                        type="number"
+                        min="0"
+                        value={upadAmount}
+                        onChange={(e) => setUpadAmount(e.target.value)}
+                        placeholder="Amount (₹)"
+                        className="w-full border rounded px-3 py-2"
+                      />
+                      <input
+                        type="text"
+                        value={upadNote}
+                        onChange={(e) => setUpadNote(e.target.value)}
+                        placeholder="Note (optional)"
+                        className="w-full border rounded px-3 py-2 md:col-span-2"
+                      />
+                    </div>
+                    <div className="flex justify-end gap-2 mt-2">
+                      <Button variant="default" onClick={handleSaveUpad} disabled={isSavingUpad}>
+                        {isSavingUpad ? "Saving..." : `Save ${UPAD_TYPE_LABELS[upadType]}`}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 <div className="flex justify-end gap-2">
                   <Button variant="outline" onClick={() => setIsDetailDialogOpen(false)}>
                     Close
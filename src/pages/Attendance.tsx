@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -9,34 +9,77 @@ import { Calendar } from "@/components/ui/calendar";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { 
   Clock, CalendarDays, Users, CheckCircle, XCircle, AlertCircle,
-  Download, Filter, Loader2, ClipboardCheck 
+  Download, Filter, Loader2, ClipboardCheck, PartyPopper
 } from "lucide-react";
 import { useFirestore } from "@/hooks/useFirestore";
 import { orderBy } from "firebase/firestore";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { DEFAULT_BUSINESS_SETTINGS, getBusinessSettings } from "@/lib/settings";
+import {
+  AttendanceStatus,
+  AttendanceTimes,
+  getAttendanceTimeFields,
+  getDefaultTimes,
+  getWorkHours,
+  isWorkingStatus,
+  saveAttendanceRecords,
+  ShiftSettings,
+  validateAttendanceTimes,
+} from "@/lib/attendance";
+import { getLeaveTypeLabel, LeaveType } from "@/lib/leaves";
+import { getHoliday, getWorkingDays, Holiday, isWeeklyOff } from "@/lib/holidays";
+import {
+  approveAttendanceCorrection,
+  AttendanceCorrection,
+  AttendanceValue,
+  CorrectionHistoryEntry,
+  describeAttendanceValue,
+} from "@/lib/attendanceCorrections";
+import { getLockedMonthMessage, isMonthLocked, MonthLock } from "@/lib/monthLocks";
+import { getLocationUrl, getSelfCheckInApproval, SelfCheckInFields } from "@/lib/selfCheckIn";
+
+// Statuses that can be set when marking; leave comes from approved leave requests
+type MarkStatus = Exclude<AttendanceStatus, "leave">;
 
 interface Employee {
   id: string;
   name: string;
   photoUrl?: string;
+  weeklyOff?: number | null;
 }
 
-interface AttendanceRecord {
+interface AttendanceRecord extends SelfCheckInFields {
   id: string;
   employeeId: string;
   employeeName: string;
   date: string;
   checkIn: string;
   checkOut?: string;
-  status: "present" | "absent" | "half-day" | "leave";
+  status: AttendanceStatus;
   workHours?: number;
+  overtimeHours?: number;
+  shiftHours?: number;
+  overtimeRate?: number;
+  leaveType?: LeaveType;
+  holidayName?: string;
+  holidayPaid?: boolean;
+  corrections?: CorrectionHistoryEntry[];
   notes?: string;
 }
 
 const Attendance = () => {
+  const { can, profile, user } = useAuth();
   const { data: employees } = useFirestore<Employee>("employees");
-  const { data: attendanceRecords, loading, addDocument, updateDocument, deleteDocument } = useFirestore<AttendanceRecord>(
+  const { data: holidays } = useFirestore<Holiday>("holidays");
+  const { data: monthLocks } = useFirestore<MonthLock>("monthLocks");
+  const {
+    data: corrections,
+    addDocument: addCorrection,
+    updateDocument: updateCorrection,
+  } = useFirestore<AttendanceCorrection>("attendanceCorrections", orderBy("createdAt", "desc"));
+  const { data: attendanceRecords, loading, updateDocument, deleteDocument } = useFirestore<AttendanceRecord>(
     "attendance",
     orderBy("date", "desc")
   );
@@ -46,10 +89,24 @@ const Attendance = () => {
   const [isBulkMarkDialogOpen, setIsBulkMarkDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingRecord, setEditingRecord] = useState<AttendanceRecord | null>(null);
+  const [editForm, setEditForm] = useState<{ status: AttendanceRecord["status"]; reason: string } & AttendanceTimes>({
+    status: "present",
+    checkIn: "",
+    checkOut: "",
+    reason: "",
+  });
+  const [decidingId, setDecidingId] = useState<string | null>(null);
   const [bulkAttendanceDate, setBulkAttendanceDate] = useState(format(new Date(), "yyyy-MM-dd"));
   const [searchQuery, setSearchQuery] = useState("");
-  const [employeeStatus, setEmployeeStatus] = useState<Record<string, "present" | "absent" | "half-day">>({}); 
+  const [employeeStatus, setEmployeeStatus] = useState<Record<string, MarkStatus>>({});
+  const [employeeTimes, setEmployeeTimes] = useState<Record<string, AttendanceTimes>>({});
   const [isSaving, setIsSaving] = useState(false);
+  const [shift, setShift] = useState<ShiftSettings>(DEFAULT_BUSINESS_SETTINGS);
+
+  // Shift start, length and overtime rate come from the business settings
+  useEffect(() => {
+    getBusinessSettings().then(setShift);
+  }, []);
 
   const filteredRecords = attendanceRecords.filter((record) => {
     const matchesEmployee = selectedEmployee === "all" || record.employeeId === selectedEmployee;
@@ -66,34 +123,69 @@ const Attendance = () => {
   const leaveToday = todayRecords.filter((r) => r.status === "leave").length;
 
   const currentMonth = format(new Date(), "yyyy-MM");
+  const todayISO = format(new Date(), "yyyy-MM-dd");
   const monthlyRecords = attendanceRecords.filter((r) => r.date.startsWith(currentMonth));
-  const totalWorkingDays = new Set(monthlyRecords.map((r) => r.date)).size;
+  // Days in the month so far that are not holidays
+  const totalWorkingDays = getWorkingDays(`${currentMonth}-01`, todayISO, holidays).length;
 
-  // Initialize employee status when dialog opens
-  const initializeEmployeeStatus = () => {
-    const status: Record<string, "present" | "absent" | "half-day"> = {};
-    employees.forEach(emp => {
-      status[emp.id] = "present"; // Default to present
-    });
-    setEmployeeStatus(status);
+  const bulkHoliday = getHoliday(holidays, bulkAttendanceDate);
+
+  // Workers default to the holiday or their weekly off on those days, and to present otherwise
+  const getEmployeeStatus = (employee: Employee): MarkStatus =>
+    employeeStatus[employee.id] ||
+    (bulkHoliday ? "holiday" : isWeeklyOff(employee, bulkAttendanceDate) ? "week-off" : "present");
+
+  const handleBulkDateChange = (date: string) => {
+    setBulkAttendanceDate(date);
+    setEmployeeStatus({});
+    setEmployeeTimes({});
   };
 
-  const setEmployeeStatusValue = (employeeId: string, status: "present" | "absent" | "half-day") => {
+  const setEmployeeStatusValue = (employeeId: string, status: MarkStatus) => {
     setEmployeeStatus(prev => ({
       ...prev,
       [employeeId]: status
     }));
+    // Switching status resets the times to that status' usual shift
+    setEmployeeTimes(prev => ({
+      ...prev,
+      [employeeId]: getDefaultTimes(status, shift)
+    }));
+  };
+
+  const getEmployeeTimes = (employeeId: string) => {
+    const employee = employees.find((emp) => emp.id === employeeId);
+    const status = employee ? getEmployeeStatus(employee) : employeeStatus[employeeId] || "present";
+    return employeeTimes[employeeId] || getDefaultTimes(status, shift);
+  };
+
+  const setEmployeeTime = (employeeId: string, field: keyof AttendanceTimes, value: string) => {
+    setEmployeeTimes(prev => ({
+      ...prev,
+      [employeeId]: { ...getEmployeeTimes(employeeId), [field]: value }
+    }));
   };
 
-  const setAllEmployeesStatus = (status: "present" | "absent" | "half-day") => {
-    const newStatus: Record<string, "present" | "absent" | "half-day"> = {};
+  const setAllEmployeesStatus = (status: MarkStatus) => {
+    const newStatus: Record<string, MarkStatus> = {};
     employees.forEach(emp => {
       newStatus[emp.id] = status;
     });
     setEmployeeStatus(newStatus);
+    setEmployeeTimes({});
   };
 
   const handleBulkMarkAttendance = async () => {
+    if (!can("attendance.edit")) {
+      toast.error("You don't have permission to mark attendance");
+      return;
+    }
+
+    if (isMonthLocked(monthLocks, bulkAttendanceDate)) {
+      toast.error(getLockedMonthMessage(bulkAttendanceDate));
+      return;
+    }
+
     if (employees.length === 0) {
       toast.error("No employees found");
       return;
@@ -108,43 +200,56 @@ const Attendance = () => {
       if (!confirm) return;
     }
 
-    setIsSaving(true);
     const existingEmployeeIds = new Set(existingForDate.map(r => r.employeeId));
-    let successCount = 0;
-    let skipCount = 0;
+    for (const employee of employees) {
+      if (existingEmployeeIds.has(employee.id)) continue;
+      const timeError = validateAttendanceTimes(getEmployeeStatus(employee), getEmployeeTimes(employee.id));
+      if (timeError) {
+        toast.error(`${employee.name}: ${timeError}`);
+        return;
+      }
+    }
 
-    try {
-      for (const employee of employees) {
-        // Skip if already marked
-        if (existingEmployeeIds.has(employee.id)) {
-          skipCount++;
-          continue;
-        }
-
-        const status = employeeStatus[employee.id] || "present";
-        const checkIn = status !== "absent" ? "09:00" : "";
-        const checkOut = status !== "absent" ? (status === "half-day" ? "13:00" : "18:00") : "";
-        const workHours = status === "present" ? 9 : status === "half-day" ? 4.5 : 0;
-        
-        await addDocument({
+    const newRecords = employees
+      .filter((employee) => !existingEmployeeIds.has(employee.id))
+      .map((employee) => {
+        const status = getEmployeeStatus(employee);
+        return {
           employeeId: employee.id,
           employeeName: employee.name,
           date: bulkAttendanceDate,
-          checkIn,
-          checkOut,
           status,
-          workHours,
-          notes: "",
-        } as Omit<AttendanceRecord, "id">);
-        
-        successCount++;
-      }
+          ...getAttendanceTimeFields(status, getEmployeeTimes(employee.id), shift),
+          // The record keeps whether the holiday was paid, like it keeps the overtime rate
+          ...(status === "holiday" && bulkHoliday
+            ? { holidayName: bulkHoliday.name, holidayPaid: bulkHoliday.paid }
+            : {}),
+          notes: status === "holiday" && bulkHoliday ? bulkHoliday.name : "",
+        };
+      });
+    if (newRecords.length === 0) {
+      toast.info("Attendance is already marked for everyone on this date");
+      return;
+    }
 
+    setIsSaving(true);
+    try {
+      // Records saved by someone else since this page loaded are skipped, never overwritten
+      const { saved, skipped } = await saveAttendanceRecords(newRecords);
+      const skipCount = employees.length - saved.length;
       toast.success(
-        `Attendance marked for ${successCount} employee(s)${skipCount > 0 ? `. Skipped ${skipCount} existing records` : ""}`
+        `Attendance marked for ${saved.length} employee(s)${skipCount > 0 ? `. Skipped ${skipCount} existing records` : ""}`,
+        skipped.length > 0
+          ? {
+              description: `Already marked by someone else meanwhile: ${skipped
+                .map((record) => record.employeeName)
+                .join(", ")}`,
+            }
+          : undefined
       );
       setIsBulkMarkDialogOpen(false);
       setEmployeeStatus({});
+      setEmployeeTimes({});
     } catch (error) {
       console.error("Error marking bulk attendance:", error);
       toast.error("Failed to mark attendance");
@@ -155,22 +260,146 @@ const Attendance = () => {
 
   const handleEditAttendance = async (record: AttendanceRecord) => {
     setEditingRecord(record);
+    setEditForm({
+      status: record.status,
+      ...(record.checkIn
+        ? { checkIn: record.checkIn, checkOut: record.checkOut || "" }
+        : getDefaultTimes(record.status, shift)),
+      reason: "",
+    });
     setIsEditDialogOpen(true);
   };
 
-  const handleUpdateAttendance = async (status: "present" | "absent" | "half-day") => {
+  const setEditStatus = (status: "present" | "absent" | "half-day") => {
+    setEditForm((prev) => ({ ...prev, status, ...getDefaultTimes(status, shift) }));
+  };
+
+  // Today's records can still be filled in (e.g. check-out); earlier ones change through a correction
+  const isPastRecord = (record: AttendanceRecord | null) => !!record && record.date < todayISO;
+  const pendingCorrections = corrections.filter((c) => c.status === "pending");
+  const editingPendingCorrection = editingRecord
+    ? pendingCorrections.find((c) => c.recordId === editingRecord.id)
+    : undefined;
+
+  const handleRequestCorrection = async () => {
+    if (!editingRecord) return;
+
+    if (isMonthLocked(monthLocks, editingRecord.date)) {
+      toast.error(getLockedMonthMessage(editingRecord.date));
+      return;
+    }
+
+    if (!editForm.reason.trim()) {
+      toast.error("Please enter the reason for this correction");
+      return;
+    }
+    if (editingPendingCorrection) {
+      toast.error("A correction for this record is already waiting for approval");
+      return;
+    }
+
+    const working = isWorkingStatus(editForm.status);
+    const previous: AttendanceValue = {
+      status: editingRecord.status,
+      checkIn: editingRecord.checkIn || "",
+      checkOut: editingRecord.checkOut || "",
+    };
+    const requested: AttendanceValue = {
+      status: editForm.status,
+      checkIn: working ? editForm.checkIn : "",
+      checkOut: working ? editForm.checkOut : "",
+    };
+    if (describeAttendanceValue(previous) === describeAttendanceValue(requested)) {
+      toast.error("Nothing has been changed");
+      return;
+    }
+
+    try {
+      await addCorrection({
+        recordId: editingRecord.id,
+        employeeId: editingRecord.employeeId,
+        employeeName: editingRecord.employeeName,
+        date: editingRecord.date,
+        previous,
+        requested,
+        reason: editForm.reason.trim(),
+        requestedBy: profile?.name || user?.email || "",
+        status: "pending",
+      });
+      toast.success("Correction sent for approval");
+      setIsEditDialogOpen(false);
+      setEditingRecord(null);
+    } catch (error) {
+      console.error("Error requesting attendance correction:", error);
+    }
+  };
+
+  const handleApproveCorrection = async (correction: AttendanceCorrection) => {
+    const record = attendanceRecords.find((r) => r.id === correction.recordId);
+    if (!record) {
+      toast.error("The attendance record for this correction no longer exists");
+      return;
+    }
+    if (isMonthLocked(monthLocks, correction.date)) {
+      toast.error(`${getLockedMonthMessage(correction.date)}. Reopen it from Payroll first.`);
+      return;
+    }
+    if (!confirm(`Change ${correction.employeeName}'s attendance on ${format(new Date(correction.date), "dd/MM/yyyy")} to ${describeAttendanceValue(correction.requested)}?`)) {
+      return;
+    }
+
+    setDecidingId(correction.id);
+    try {
+      await approveAttendanceCorrection(correction, record, shift, profile?.name || user?.email || "");
+      toast.success("Correction approved and attendance updated");
+    } catch (error) {
+      console.error("Error approving attendance correction:", error);
+      toast.error("Failed to approve correction");
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const handleRejectCorrection = async (correction: AttendanceCorrection) => {
+    const reason = prompt("Reason for rejecting this correction (optional):");
+    if (reason === null) return;
+
+    setDecidingId(correction.id);
+    try {
+      await updateCorrection(correction.id, {
+        status: "rejected",
+        decidedBy: profile?.name || user?.email || "",
+        ...(reason.trim() ? { rejectionReason: reason.trim() } : {}),
+      });
+    } catch (error) {
+      console.error("Error rejecting attendance correction:", error);
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const handleUpdateAttendance = async () => {
     if (!editingRecord) return;
+    if (!can("attendance.edit")) {
+      toast.error("You don't have permission to edit attendance");
+      return;
+    }
+
+    const timeError = validateAttendanceTimes(editForm.status, editForm);
+    if (timeError) {
+      toast.error(timeError);
+      return;
+    }
 
-    const checkIn = status !== "absent" ? "09:00" : "";
-    const checkOut = status !== "absent" ? (status === "half-day" ? "13:00" : "18:00") : "";
-    const workHours = status === "present" ? 9 : status === "half-day" ? 4.5 : 0;
+    if (isPastRecord(editingRecord)) {
+      await handleRequestCorrection();
+      return;
+    }
 
     try {
       await updateDocument(editingRecord.id, {
-        status,
-        checkIn,
-        checkOut,
-        workHours,
+        status: editForm.status,
+        ...getAttendanceTimeFields(editForm.status, editForm, shift),
       });
       toast.success("Attendance updated successfully");
       setIsEditDialogOpen(false);
@@ -181,6 +410,32 @@ const Attendance = () => {
     }
   };
 
+  // Workers' own check-ins are paid once the office approves them; a rejected one is marked absent
+  const handleApproveSelfCheckIn = async (record: AttendanceRecord) => {
+    try {
+      await updateDocument(record.id, getSelfCheckInApproval(record, shift, profile?.name || user?.email || ""));
+    } catch (error) {
+      console.error("Error approving check-in:", error);
+    }
+  };
+
+  const handleRejectSelfCheckIn = async (record: AttendanceRecord) => {
+    const reason = prompt(`Why is ${record.employeeName}'s check-in being rejected? They will be marked absent.`);
+    if (reason === null) return;
+
+    try {
+      await updateDocument(record.id, {
+        status: "absent",
+        ...getAttendanceTimeFields("absent", { checkIn: "", checkOut: "" }, shift),
+        selfCheckInStatus: "rejected",
+        selfCheckInDecidedBy: profile?.name || user?.email || "",
+        ...(reason.trim() ? { selfCheckInRejectionReason: reason.trim() } : {}),
+      });
+    } catch (error) {
+      console.error("Error rejecting check-in:", error);
+    }
+  };
+
   const handleDeleteAttendance = async (id: string) => {
     if (!window.confirm("Are you sure you want to delete this attendance record?")) return;
     
@@ -199,6 +454,8 @@ const Attendance = () => {
       absent: "bg-red-100 text-red-800 border-red-200",
       "half-day": "bg-yellow-100 text-yellow-800 border-yellow-200",
       leave: "bg-blue-100 text-blue-800 border-blue-200",
+      holiday: "bg-purple-100 text-purple-800 border-purple-200",
+      "week-off": "bg-gray-100 text-gray-800 border-gray-200",
     };
     return colors[status as keyof typeof colors] || "";
   };
@@ -209,6 +466,8 @@ const Attendance = () => {
       absent: <XCircle className="h-4 w-4" />,
       "half-day": <AlertCircle className="h-4 w-4" />,
       leave: <CalendarDays className="h-4 w-4" />,
+      holiday: <PartyPopper className="h-4 w-4" />,
+      "week-off": <CalendarDays className="h-4 w-4" />,
     };
     return icons[status as keyof typeof icons] || null;
   };
@@ -221,6 +480,7 @@ const Attendance = () => {
       CheckOut: record.checkOut || "N/A",
       Status: record.status,
       WorkHours: record.workHours || "0",
+      Overtime: record.overtimeHours || "0",
       Notes: record.notes || "",
     }));
 
@@ -247,12 +507,14 @@ const Attendance = () => {
         <div className="flex gap-2">
           {/* Bulk Mark Attendance Dialog */}
           <Dialog open={isBulkMarkDialogOpen} onOpenChange={setIsBulkMarkDialogOpen}>
-            <DialogTrigger asChild>
-              <Button variant="default">
-                <ClipboardCheck className="mr-2 h-4 w-4" />
-                Bulk Mark Attendance
-              </Button>
-            </DialogTrigger>
+            {can("attendance.edit") && (
+              <DialogTrigger asChild>
+                <Button variant="default">
+                  <ClipboardCheck className="mr-2 h-4 w-4" />
+                  Bulk Mark Attendance
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Bulk Mark Attendance</DialogTitle>
@@ -264,9 +526,15 @@ const Attendance = () => {
                     type="date"
                     className="w-full px-3 py-2 border rounded-md"
                     value={bulkAttendanceDate}
-                    onChange={(e) => setBulkAttendanceDate(e.target.value)}
-                    onFocus={initializeEmployeeStatus}
+                    onChange={(e) => handleBulkDateChange(e.target.value)}
                   />
+                  {bulkHoliday && (
+                    <p className="flex items-center gap-2 text-sm text-purple-700">
+                      <PartyPopper className="h-4 w-4" />
+                      {bulkHoliday.name} is a {bulkHoliday.paid ? "paid" : "unpaid"} holiday. Workers are marked on
+                      holiday unless you change them.
+                    </p>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -310,15 +578,35 @@ const Attendance = () => {
                       employees.filter(emp => 
                         emp.name.toLowerCase().includes(searchQuery.toLowerCase())
                       ).map((employee) => {
-                        const status = employeeStatus[employee.id] || "present";
+                        const status = getEmployeeStatus(employee);
+                        const times = getEmployeeTimes(employee.id);
                         return (
                           <div
                             key={employee.id}
-                            className="flex items-center justify-between p-2 hover:bg-gray-50 rounded border"
+                            className="flex flex-wrap items-center justify-between gap-2 p-2 hover:bg-gray-50 rounded border"
                           >
                             <span className="text-sm font-medium flex-1">
                               {employee.name}
                             </span>
+                            {isWorkingStatus(status) && (
+                              <div className="flex items-center gap-1 text-sm">
+                                <input
+                                  type="time"
+                                  aria-label="Check in"
+                                  className="px-2 py-1 border rounded-md"
+                                  value={times.checkIn}
+                                  onChange={(e) => setEmployeeTime(employee.id, "checkIn", e.target.value)}
+                                />
+                                <span className="text-muted-foreground">to</span>
+                                <input
+                                  type="time"
+                                  aria-label="Check out"
+                                  className="px-2 py-1 border rounded-md"
+                                  value={times.checkOut}
+                                  onChange={(e) => setEmployeeTime(employee.id, "checkOut", e.target.value)}
+                                />
+                              </div>
+                            )}
                             <div className="flex gap-2">
                               <Button
                                 type="button"
@@ -344,6 +632,26 @@ const Attendance = () => {
                               >
                                 Absent
                               </Button>
+                              {bulkHoliday && (
+                                <Button
+                                  type="button"
+                                  size="sm"
+                                  variant={status === "holiday" ? "default" : "outline"}
+                                  onClick={() => setEmployeeStatusValue(employee.id, "holiday")}
+                                >
+                                  Holiday
+                                </Button>
+                              )}
+                              {isWeeklyOff(employee, bulkAttendanceDate) && (
+                                <Button
+                                  type="button"
+                                  size="sm"
+                                  variant={status === "week-off" ? "default" : "outline"}
+                                  onClick={() => setEmployeeStatusValue(employee.id, "week-off")}
+                                >
+                                  Week Off
+                                </Button>
+                              )}
                             </div>
                           </div>
                         );
@@ -357,9 +665,10 @@ const Attendance = () => {
 
                   <div className="flex items-center justify-between pt-2 border-t">
                     <span className="text-sm text-muted-foreground">
-                      Present: <strong className="text-green-600">{Object.values(employeeStatus).filter(s => s === "present").length}</strong> | 
-                      Half Day: <strong className="text-yellow-600">{Object.values(employeeStatus).filter(s => s === "half-day").length}</strong> | 
-                      Absent: <strong className="text-red-600">{Object.values(employeeStatus).filter(s => s === "absent").length}</strong>
+                      Present: <strong className="text-green-600">{employees.filter(emp => getEmployeeStatus(emp) === "present").length}</strong> | 
+                      Half Day: <strong className="text-yellow-600">{employees.filter(emp => getEmployeeStatus(emp) === "half-day").length}</strong> | 
+                      Absent: <strong className="text-red-600">{employees.filter(emp => getEmployeeStatus(emp) === "absent").length}</strong> | 
+                      Holiday/Off: <strong className="text-purple-600">{employees.filter(emp => ["holiday", "week-off"].includes(getEmployeeStatus(emp))).length}</strong>
                     </span>
                   </div>
                 </div>
@@ -395,7 +704,9 @@ const Attendance = () => {
           <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Edit Attendance - {editingRecord?.employeeName}</DialogTitle>
+                <DialogTitle>
+                  {isPastRecord(editingRecord) ? "Request Correction" : "Edit Attendance"} - {editingRecord?.employeeName}
+                </DialogTitle>
               </DialogHeader>
               <div className="space-y-4">
                 <p className="text-sm text-muted-foreground">
@@ -406,30 +717,96 @@ const Attendance = () => {
                   <div className="flex gap-2">
                     <Button
                       type="button"
-                      variant={editingRecord?.status === "present" ? "default" : "outline"}
-                      onClick={() => handleUpdateAttendance("present")}
+                      variant={editForm.status === "present" ? "default" : "outline"}
+                      onClick={() => setEditStatus("present")}
                       className="flex-1"
                     >
                       Present
                     </Button>
                     <Button
                       type="button"
-                      variant={editingRecord?.status === "half-day" ? "default" : "outline"}
-                      onClick={() => handleUpdateAttendance("half-day")}
+                      variant={editForm.status === "half-day" ? "default" : "outline"}
+                      onClick={() => setEditStatus("half-day")}
                       className="flex-1"
                     >
                       Half Day
                     </Button>
                     <Button
                       type="button"
-                      variant={editingRecord?.status === "absent" ? "default" : "outline"}
-                      onClick={() => handleUpdateAttendance("absent")}
+                      variant={editForm.status === "absent" ? "default" : "outline"}
+                      onClick={() => setEditStatus("absent")}
                       className="flex-1"
                     >
                       Absent
                     </Button>
                   </div>
                 </div>
+                {isWorkingStatus(editForm.status) && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Check In</label>
+                      <input
+                        type="time"
+                        className="w-full px-3 py-2 border rounded-md"
+                        value={editForm.checkIn}
+                        onChange={(e) => setEditForm({ ...editForm, checkIn: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Check Out</label>
+                      <input
+                        type="time"
+                        className="w-full px-3 py-2 border rounded-md"
+                        value={editForm.checkOut}
+                        onChange={(e) => setEditForm({ ...editForm, checkOut: e.target.value })}
+                      />
+                    </div>
+                    <p className="col-span-2 text-sm text-muted-foreground">
+                      Work hours: {getWorkHours(editForm.checkIn, editForm.checkOut)}h
+                      {editForm.status === "present" &&
+                        getWorkHours(editForm.checkIn, editForm.checkOut) > shift.shiftHours &&
+                        ` (overtime ${getAttendanceTimeFields(editForm.status, editForm, shift).overtimeHours}h)`}
+                    </p>
+                  </div>
+                )}
+                {isPastRecord(editingRecord) && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Reason for correction</label>
+                    <textarea
+                      className="w-full px-3 py-2 border rounded-md text-sm"
+                      rows={2}
+                      value={editForm.reason}
+                      onChange={(e) => setEditForm({ ...editForm, reason: e.target.value })}
+                      placeholder="e.g. Worker was at a site visit, marked absent by mistake"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Past attendance changes pay, so the change is applied once the owner approves it.
+                    </p>
+                  </div>
+                )}
+                {editingPendingCorrection && (
+                  <p className="text-sm text-yellow-700">
+                    Waiting for approval: {describeAttendanceValue(editingPendingCorrection.requested)} (requested by{" "}
+                    {editingPendingCorrection.requestedBy})
+                  </p>
+                )}
+                <Button onClick={handleUpdateAttendance} className="w-full" disabled={!!editingPendingCorrection}>
+                  {isPastRecord(editingRecord) ? "Request Correction" : "Save"}
+                </Button>
+                {editingRecord?.corrections?.length ? (
+                  <div className="border-t pt-3 space-y-2">
+                    <p className="text-sm font-medium">Correction history</p>
+                    {editingRecord.corrections.map((c) => (
+                      <div key={c.correctionId} className="text-xs text-muted-foreground">
+                        {describeAttendanceValue(c.previous)} → {describeAttendanceValue(c.requested)}: {c.reason}
+                        <div>
+                          Requested by {c.requestedBy}, approved by {c.approvedBy} on{" "}
+                          {format(c.approvedAt.toDate(), "dd/MM/yyyy")}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
               </div>
             </DialogContent>
           </Dialog>
@@ -487,10 +864,13 @@ const Attendance = () => {
       </div>
 
       <Tabs defaultValue="daily" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="daily">Daily View</TabsTrigger>
           <TabsTrigger value="monthly">Monthly Report</TabsTrigger>
           <TabsTrigger value="calendar">Calendar View</TabsTrigger>
+          <TabsTrigger value="corrections">
+            Corrections{pendingCorrections.length > 0 ? ` (${pendingCorrections.length})` : ""}
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="daily" className="space-y-4">
@@ -548,34 +928,93 @@ const Attendance = () => {
                         <TableCell className="font-medium">{record.employeeName}</TableCell>
                         <TableCell>{record.checkIn}</TableCell>
                         <TableCell>{record.checkOut || "—"}</TableCell>
-                        <TableCell>{record.workHours ? `${record.workHours}h` : "—"}</TableCell>
+                        <TableCell>
+                          {record.workHours ? `${record.workHours}h` : "—"}
+                          {record.overtimeHours ? (
+                            <span className="ml-1 text-xs text-orange-600">+{record.overtimeHours}h OT</span>
+                          ) : null}
+                        </TableCell>
                         <TableCell>
                           <Badge className={getStatusColor(record.status)}>
                             <span className="flex items-center gap-1">
                               {getStatusIcon(record.status)}
-                              {record.status}
+                              {record.status === "leave" && record.leaveType
+                                ? getLeaveTypeLabel(record.leaveType)
+                                : record.status}
                             </span>
                           </Badge>
+                          {record.corrections?.length ? (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              Corrected {record.corrections.length}×
+                            </div>
+                          ) : null}
+                          {record.selfCheckInStatus && (
+                            <div className="text-xs text-muted-foreground mt-1 space-y-0.5">
+                              <div>Self check-in: {record.selfCheckInStatus}</div>
+                              <div className="flex gap-2">
+                                {record.checkInPhotoUrl && (
+                                  <a href={record.checkInPhotoUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                                    In selfie
+                                  </a>
+                                )}
+                                {record.checkInLocation && (
+                                  <a href={getLocationUrl(record.checkInLocation)} target="_blank" rel="noopener noreferrer" className="underline">
+                                    In location
+                                  </a>
+                                )}
+                                {record.checkOutPhotoUrl && (
+                                  <a href={record.checkOutPhotoUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                                    Out selfie
+                                  </a>
+                                )}
+                                {record.checkOutLocation && (
+                                  <a href={getLocationUrl(record.checkOutLocation)} target="_blank" rel="noopener noreferrer" className="underline">
+                                    Out location
+                                  </a>
+                                )}
+                              </div>
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="text-sm text-muted-foreground">
                           {record.notes || "—"}
                         </TableCell>
                         <TableCell>
                           <div className="flex gap-2">
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => handleEditAttendance(record)}
-                            >
-                              Edit
-                            </Button>
-                            <Button
-                              variant="destructive"
-                              size="sm"
-                              onClick={() => handleDeleteAttendance(record.id)}
-                            >
-                              Delete
-                            </Button>
+                            {isMonthLocked(monthLocks, record.date) ? (
+                              <span className="text-xs text-muted-foreground">Locked</span>
+                            ) : (
+                              <>
+                                {can("attendance.edit") && record.selfCheckInStatus === "pending" && (
+                                  <>
+                                    <Button size="sm" onClick={() => handleApproveSelfCheckIn(record)}>
+                                      Approve
+                                    </Button>
+                                    <Button variant="outline" size="sm" onClick={() => handleRejectSelfCheckIn(record)}>
+                                      Reject
+                                    </Button>
+                                  </>
+                                )}
+                                {can("attendance.edit") && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleEditAttendance(record)}
+                                  >
+                                    Edit
+                                  </Button>
+                                )}
+                                {can("attendance.delete") && (
+                                  <Button
+                                    variant="destructive"
+                                    size="sm"
+                                    onClick={() => handleDeleteAttendance(record.id)}
+                                  >
+                                    Delete
+                                  </Button>
+                                )}
+                              </>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -608,6 +1047,7 @@ const Attendance = () => {
                     <TableHead>Absent</TableHead>
                     <TableHead>Half Day</TableHead>
                     <TableHead>Leave</TableHead>
+                    <TableHead>Holiday / Off</TableHead>
                     <TableHead>Attendance %</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -618,8 +1058,10 @@ const Attendance = () => {
                     const absent = empRecords.filter((r) => r.status === "absent").length;
                     const halfDay = empRecords.filter((r) => r.status === "half-day").length;
                     const leave = empRecords.filter((r) => r.status === "leave").length;
-                    const total = empRecords.length || 1;
-                    const percentage = Math.round((present / total) * 100);
+                    const off = empRecords.filter((r) => r.status === "holiday" || r.status === "week-off").length;
+                    // Out of the days this worker was expected to work: holidays and their weekly off excluded
+                    const total = getWorkingDays(`${currentMonth}-01`, todayISO, holidays, emp).length || 1;
+                    const percentage = Math.min(Math.round((present / total) * 100), 100);
 
                     return (
                       <TableRow key={emp.id}>
@@ -628,6 +1070,7 @@ const Attendance = () => {
                         <TableCell className="text-red-600">{absent}</TableCell>
                         <TableCell className="text-yellow-600">{halfDay}</TableCell>
                         <TableCell className="text-blue-600">{leave}</TableCell>
+                        <TableCell className="text-purple-600">{off}</TableCell>
                         <TableCell>
                           <Badge variant={percentage >= 80 ? "default" : "destructive"}>
                             {percentage}%
@@ -642,6 +1085,91 @@ const Attendance = () => {
           </Card>
         </TabsContent>
 
+        <TabsContent value="corrections" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Attendance Corrections</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Changes to past attendance, applied once approved
+              </p>
+            </CardHeader>
+            <CardContent>
+              {corrections.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Requested By</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {corrections.map((correction) => (
+                      <TableRow key={correction.id}>
+                        <TableCell>{format(new Date(correction.date), "dd/MM/yyyy")}</TableCell>
+                        <TableCell className="font-medium">{correction.employeeName}</TableCell>
+                        <TableCell className="text-sm">
+                          {describeAttendanceValue(correction.previous)} → {describeAttendanceValue(correction.requested)}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {correction.reason}
+                          {correction.rejectionReason && (
+                            <div className="text-red-600">Rejected: {correction.rejectionReason}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{correction.requestedBy}</TableCell>
+                        <TableCell>
+                          <Badge
+                            className={
+                              correction.status === "approved"
+                                ? "bg-green-100 text-green-800 border-green-200"
+                                : correction.status === "rejected"
+                                  ? "bg-red-100 text-red-800 border-red-200"
+                                  : "bg-yellow-100 text-yellow-800 border-yellow-200"
+                            }
+                          >
+                            {correction.status}
+                          </Badge>
+                          {correction.decidedBy && (
+                            <div className="text-xs text-muted-foreground mt-1">by {correction.decidedBy}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {correction.status === "pending" && can("attendance.approve") && (
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                onClick={() => handleApproveCorrection(correction)}
+                                disabled={decidingId === correction.id}
+                              >
+                                Approve
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleRejectCorrection(correction)}
+                                disabled={decidingId === correction.id}
+                              >
+                                Reject
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-10 text-muted-foreground">No correction requests</div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="calendar" className="space-y-4">
           <Card>
             <CardHeader>
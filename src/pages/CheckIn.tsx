@@ -0,0 +1,251 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Camera, Loader2, LogIn, LogOut, MapPin } from "lucide-react";
+import { format } from "date-fns";
+import { where } from "firebase/firestore";
+import { toast } from "sonner";
+import { useFirestore } from "@/hooks/useFirestore";
+import { useAuth } from "@/hooks/useAuth";
+import { useCloudinary } from "@/hooks/useCloudinary";
+import { blobToFile, compressImage } from "@/lib/imageCompression";
+import { DEFAULT_BUSINESS_SETTINGS, getBusinessSettings } from "@/lib/settings";
+import { AttendanceStatus, getAttendanceTimeFields, ShiftSettings } from "@/lib/attendance";
+import {
+  CheckInLocation,
+  getCurrentLocation,
+  getLocationUrl,
+  selfCheckIn,
+  SelfCheckInFields,
+  selfCheckOut,
+} from "@/lib/selfCheckIn";
+
+interface Employee {
+  id: string;
+  name: string;
+}
+
+interface AttendanceRecord extends SelfCheckInFields {
+  id: string;
+  employeeId: string;
+  date: string;
+  status: AttendanceStatus;
+  checkIn?: string;
+  checkOut?: string;
+  workHours?: number;
+  overtimeHours?: number;
+  shiftHours?: number;
+  overtimeRate?: number;
+}
+
+const APPROVAL_STYLES = {
+  pending: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  approved: "bg-green-100 text-green-800 border-green-200",
+  rejected: "bg-red-100 text-red-800 border-red-200",
+};
+
+/**
+ * Check in and out from the worker's phone with a selfie and location
+ */
+const CheckIn = () => {
+  const { profile } = useAuth();
+
+  return (
+    <div className="space-y-6 max-w-md mx-auto">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Check In</h1>
+        <p className="text-muted-foreground mt-1">{format(new Date(), "EEEE, dd MMMM yyyy")}</p>
+      </div>
+
+      {profile?.employeeId ? (
+        <CheckInToday employeeId={profile.employeeId} />
+      ) : (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground">
+            Your login is not linked to a worker yet. Ask the office to link it in Users & Roles.
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+const CheckInToday = ({ employeeId }: { employeeId: string }) => {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const { data: employees } = useFirestore<Employee>("employees");
+  const { data: records, loading } = useFirestore<AttendanceRecord>(
+    "attendance",
+    where("employeeId", "==", employeeId),
+    where("date", "==", today)
+  );
+  const { uploadImage } = useCloudinary();
+  const [shift, setShift] = useState<ShiftSettings>(DEFAULT_BUSINESS_SETTINGS);
+  const [step, setStep] = useState<string | null>(null);
+  const selfieInputRef = useRef<HTMLInputElement>(null);
+
+  // Shift start, length and overtime rate come from the business settings
+  useEffect(() => {
+    getBusinessSettings().then(setShift);
+  }, []);
+
+  const employee = employees.find((e) => e.id === employeeId);
+  const record = records[0];
+  const markedByOffice = !!record && !record.selfCheckInStatus;
+  const canCheckIn = !record;
+  const canCheckOut =
+    !!record && !!record.selfCheckInStatus && record.selfCheckInStatus !== "rejected" && !record.checkOut;
+  // Hours are saved when the office approves the day; until then show what they will come to
+  const hours =
+    record?.selfCheckInStatus === "pending"
+      ? getAttendanceTimeFields("present", { checkIn: record.checkIn || "", checkOut: record.checkOut || "" }, shift)
+      : record;
+
+  const handleSelfie = async (file: File | null) => {
+    if (!file) return;
+    if (!employee) {
+      toast.error("Your worker details could not be loaded");
+      return;
+    }
+
+    try {
+      setStep("Getting your location...");
+      const location: CheckInLocation = await getCurrentLocation();
+
+      setStep("Uploading selfie...");
+      const compressed = await compressImage(file, 640, 640, 0.6);
+      const photoUrl = await uploadImage(blobToFile(compressed, file.name || "selfie.jpg"), "attendance/selfies");
+
+      const time = format(new Date(), "HH:mm");
+      if (canCheckOut && record) {
+        await selfCheckOut(record, time, photoUrl, location);
+        toast.success(`Checked out at ${time}`);
+      } else {
+        await selfCheckIn(employee, today, time, photoUrl, location);
+        toast.success(`Checked in at ${time}`);
+      }
+    } catch (error) {
+      console.error("Error saving self check-in:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save, please try again");
+    } finally {
+      setStep(null);
+      if (selfieInputRef.current) selfieInputRef.current.value = "";
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const renderLocation = (location?: CheckInLocation) =>
+    location ? (
+      <a
+        href={getLocationUrl(location)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-1 text-xs text-primary underline"
+      >
+        <MapPin className="h-3 w-3" /> Location (±{location.accuracy} m)
+      </a>
+    ) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          {employee?.name || "Today"}
+          {record?.selfCheckInStatus && (
+            <Badge className={APPROVAL_STYLES[record.selfCheckInStatus]}>
+              {record.selfCheckInStatus === "pending" ? "Waiting for approval" : record.selfCheckInStatus}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {markedByOffice ? (
+          <p className="text-muted-foreground">
+            The office has already marked you <span className="font-medium text-foreground">{record.status}</span>{" "}
+            for today.
+          </p>
+        ) : record ? (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Check In</p>
+              <p className="text-2xl font-bold">{record.checkIn || "—"}</p>
+              {record.checkInPhotoUrl && (
+                <img src={record.checkInPhotoUrl} alt="Check-in selfie" className="h-24 w-24 rounded object-cover" />
+              )}
+              {renderLocation(record.checkInLocation)}
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Check Out</p>
+              <p className="text-2xl font-bold">{record.checkOut || "—"}</p>
+              {record.checkOutPhotoUrl && (
+                <img src={record.checkOutPhotoUrl} alt="Check-out selfie" className="h-24 w-24 rounded object-cover" />
+              )}
+              {renderLocation(record.checkOutLocation)}
+            </div>
+            {record.checkOut && (
+              <p className="col-span-2 text-sm text-muted-foreground">
+                {hours?.workHours || 0}h worked
+                {hours?.overtimeHours ? `, ${hours.overtimeHours}h overtime` : ""}
+              </p>
+            )}
+            {record.selfCheckInStatus === "rejected" && record.selfCheckInRejectionReason && (
+              <p className="col-span-2 text-sm text-red-600">Rejected: {record.selfCheckInRejectionReason}</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-muted-foreground">
+            You have not checked in today. Your shift starts at {shift.shiftStart}.
+          </p>
+        )}
+
+        {(canCheckIn || canCheckOut) && (
+          <>
+            <input
+              ref={selfieInputRef}
+              type="file"
+              accept="image/*"
+              capture="user"
+              className="hidden"
+              onChange={(e) => handleSelfie(e.target.files?.[0] || null)}
+            />
+            <Button
+              className="w-full h-14 text-lg"
+              variant={canCheckOut ? "outline" : "default"}
+              disabled={!!step || !employee}
+              onClick={() => selfieInputRef.current?.click()}
+            >
+              {step ? (
+                <>
+                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                  {step}
+                </>
+              ) : canCheckOut ? (
+                <>
+                  <LogOut className="mr-2 h-5 w-5" />
+                  Check Out
+                </>
+              ) : (
+                <>
+                  <LogIn className="mr-2 h-5 w-5" />
+                  Check In
+                </>
+              )}
+            </Button>
+            <p className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
+              <Camera className="h-3 w-3" /> Take a selfie at the site. Your location is saved with it.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CheckIn;
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -7,11 +7,18 @@ import { Textarea } from "@/components/ui/textarea";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { CalendarIcon, Loader2 } from "lucide-react";
+import { CalendarIcon, Loader2, UserCheck } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { useFirestore } from "@/hooks/useFirestore";
+import { Customer, getCustomerByPhone, normalizePhone, upsertCustomer } from "@/lib/customers";
+import { calculateEndDate, formatRate, getMembershipStatus, MEMBERSHIP_DURATIONS } from "@/lib/membership";
+import { buildPendingWork } from "@/lib/works";
+import { generateVisitsForMember, VISIT_FREQUENCIES } from "@/lib/visits";
+import { isValidGstin } from "@/lib/settings";
+import { getUnitLabel, SERVICE_UNITS } from "@/lib/services";
+import { useServices } from "@/hooks/useServices";
 
 interface PendingWork {
   id: string;
@@ -26,6 +33,9 @@ interface PendingWork {
   date: string;
   membershipDuration?: string;
   type?: string; // "membership" or "individual"
+  customerId?: string;
+  customerGstin?: string;
+  memberId?: string;
 }
 
 interface MembershipMember {
@@ -38,6 +48,9 @@ interface MembershipMember {
   membershipType: string;
   rate: string;
   membershipDuration?: string;
+  endDate?: string;
+  visitFrequency?: string;
+  customerId?: string;
 }
 
 interface Employee {
@@ -50,6 +63,7 @@ const ContactForm = () => {
   const { data: employees } = useFirestore<Employee>("employees");
   const { addDocument: addPendingWork } = useFirestore<PendingWork>("pendingWorks");
   const { addDocument: addMember } = useFirestore<MembershipMember>("membershipMembers");
+  const { services } = useServices();
   
   const [date, setDate] = useState<Date>();
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -63,7 +77,57 @@ const ContactForm = () => {
     workerName: "",
     secondWorkerName: "",
     membershipDuration: "",
+    visitFrequency: "once",
+    customerGstin: "",
   });
+  const [quantity, setQuantity] = useState("");
+  const [existingCustomer, setExistingCustomer] = useState<Customer | null>(null);
+
+  const selectedService = services.find((service) => service.nameGu === formData.inquiryType);
+
+  const handleServiceChange = (nameGu: string) => {
+    const service = services.find((s) => s.nameGu === nameGu);
+    setQuantity("");
+    setFormData({
+      ...formData,
+      inquiryType: nameGu,
+      rate: service?.defaultRate ? String(service.defaultRate) : formData.rate,
+    });
+  };
+
+  const handleQuantityChange = (value: string) => {
+    setQuantity(value);
+    if (selectedService?.defaultRate && Number(value) > 0) {
+      setFormData({ ...formData, rate: String(Math.round(selectedService.defaultRate * Number(value) * 100) / 100) });
+    }
+  };
+
+  // Look up the customer as soon as a valid phone number is typed
+  const normalizedContact = normalizePhone(formData.contact);
+  useEffect(() => {
+    if (!normalizedContact) {
+      setExistingCustomer(null);
+      return;
+    }
+
+    let cancelled = false;
+    getCustomerByPhone(normalizedContact).then((customer) => {
+      if (cancelled) return;
+      setExistingCustomer(customer);
+      if (customer) {
+        // Autofill without overwriting anything already typed
+        setFormData((prev) => ({
+          ...prev,
+          name: prev.name || customer.name,
+          address: prev.address || customer.address,
+        }));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [normalizedContact]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -76,39 +140,66 @@ const ContactForm = () => {
         setIsSubmitting(false);
         return;
       }
-      // 1. Create Pending Work entry
-      const pendingWorkData = {
-        customerName: formData.name,
+      if (formData.customerGstin && !isValidGstin(formData.customerGstin)) {
+        toast.error("Please enter a valid GSTIN");
+        setIsSubmitting(false);
+        return;
+      }
+      // 1. Find or create the customer (keyed by normalized phone number)
+      const customerId = await upsertCustomer({
+        name: formData.name,
         contact: formData.contact,
         address: formData.address,
-        workType: formData.inquiryType,
-        description: `${formData.type === "membership" ? "Membership" : "Individual Work"} - ${formData.inquiryType}`,
-        estimatedCost: formData.rate ? Number(formData.rate) : 0,
-        status: "pending" as const,
-        assignedTo: formData.workerName,
-        secondWorker: formData.secondWorkerName,
-        date: date ? format(date, "yyyy-MM-dd") : format(new Date(), "yyyy-MM-dd"),
-        membershipDuration: formData.membershipDuration,
-        type: formData.type,
-      };
+      });
 
-      await addPendingWork(pendingWorkData as Omit<PendingWork, "id">);
-      
-      // 2. If membership type, create Membership Member
+      const workDate = date ? format(date, "yyyy-MM-dd") : format(new Date(), "yyyy-MM-dd");
+
+      // 2. If membership type, create Membership Member (first, so the work can link to it)
+      let memberId: string | undefined;
+      let memberData: Omit<MembershipMember, "id"> | undefined;
       if (formData.type === "membership") {
-        const memberData = {
+        const endDate = calculateEndDate(workDate, formData.membershipDuration);
+        memberData = {
           name: formData.name,
           contact: formData.contact,
           address: formData.address,
-          status: "Active",
-          joinDate: date ? format(date, "yyyy-MM-dd") : format(new Date(), "yyyy-MM-dd"),
+          status: endDate ? getMembershipStatus(endDate) : "Active",
+          joinDate: workDate,
           membershipType: formData.inquiryType,
-          rate: formData.rate ? `₹${formData.rate}` : "₹0",
+          rate: formatRate(formData.rate),
           membershipDuration: formData.membershipDuration,
+          visitFrequency: formData.visitFrequency,
+          ...(endDate ? { endDate } : {}),
+          ...(customerId ? { customerId } : {}),
         };
 
-        await addMember(memberData as Omit<MembershipMember, "id">);
-        
+        memberId = await addMember(memberData);
+      }
+
+      // 3. Create Pending Work entry
+      const pendingWorkData = buildPendingWork({
+        customerName: formData.name,
+        contact: formData.contact,
+        address: formData.address,
+        workType: formData.inquiryType,
+        type: formData.type,
+        rate: formData.rate,
+        date: workDate,
+        assignedTo: formData.workerName,
+        secondWorker: formData.secondWorkerName,
+        membershipDuration: formData.membershipDuration,
+        customerId,
+        customerGstin: formData.customerGstin,
+        memberId,
+        ...(memberId ? { membershipWork: "signup" as const } : {}),
+      });
+
+      await addPendingWork(pendingWorkData as Omit<PendingWork, "id">);
+
+      if (memberId && memberData) {
+        // 4. Schedule the rest of the visits for recurring memberships
+        await generateVisitsForMember({ id: memberId, ...memberData });
+
         toast.success("Inquiry added to Pending Works & Membership Member created!", {
           description: `${formData.name} has been added as a member`,
         });
@@ -129,8 +220,12 @@ const ContactForm = () => {
         workerName: "",
         secondWorkerName: "",
         membershipDuration: "",
+        visitFrequency: "once",
+        customerGstin: "",
       });
       setDate(undefined);
+      setQuantity("");
+      setExistingCustomer(null);
     } catch (err) {
       console.error("Error saving inquiry:", err);
       toast.error("Failed to save inquiry. Please try again.");
@@ -173,29 +268,56 @@ const ContactForm = () => {
                   onChange={(e) => setFormData({ ...formData, contact: e.target.value })}
                   required
                 />
+                {existingCustomer && (
+                  <p className="text-xs text-green-600 flex items-center gap-1">
+                    <UserCheck className="h-3 w-3" />
+                    Existing customer: {existingCustomer.name}
+                  </p>
+                )}
               </div>
 
               <div className="space-y-2">
                 <Label htmlFor="inquiryType">Inquiry Type</Label>
                 <Select
                   value={formData.inquiryType}
-                  onValueChange={(value) => setFormData({ ...formData, inquiryType: value })}
+                  onValueChange={handleServiceChange}
                   required
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Select service type" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="પાર્કિંગ સફાઈ">પાર્કિંગ સફાઈ</SelectItem>
-                    <SelectItem value="ચેર ડ્રાઇકલિંનીગ">ચેર ડ્રાઇકલિંનીગ</SelectItem>
-                    <SelectItem value="ઘર સફાઈ">ઘર સફાઈ</SelectItem>
-                    <SelectItem value="કાર્પેટ સફાઈ">કાર્પેટ સફાઈ</SelectItem>
-                    <SelectItem value="સોલર સફાઈ">સોલર સફાઈ</SelectItem>
-                    <SelectItem value="ઓફિસ સફાઈ">ઓફિસ સફાઈ</SelectItem>
+                    {services.map((service) => (
+                      <SelectItem key={service.id} value={service.nameGu}>
+                        {service.nameGu}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
+                {selectedService && selectedService.defaultRate > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {selectedService.nameEn}: ₹{selectedService.defaultRate.toLocaleString()}{" "}
+                    {getUnitLabel(selectedService.unit).toLowerCase()}
+                  </p>
+                )}
               </div>
 
+              {selectedService && selectedService.unit !== "flat" && (
+                <div className="space-y-2">
+                  <Label htmlFor="quantity">
+                    {SERVICE_UNITS.find((unit) => unit.value === selectedService.unit)?.quantityLabel}
+                  </Label>
+                  <Input
+                    id="quantity"
+                    type="number"
+                    min="0"
+                    placeholder="Used to calculate the rate"
+                    value={quantity}
+                    onChange={(e) => handleQuantityChange(e.target.value)}
+                  />
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label>Work Date</Label>
                 <Popover>
@@ -261,21 +383,32 @@ const ContactForm = () => {
                       <SelectValue placeholder="Select duration" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="10days">10 days</SelectItem>
-                      <SelectItem value="15days">15 days</SelectItem>
-                      <SelectItem value="20days">20 days</SelectItem>
-                      <SelectItem value="30days">30 days</SelectItem>
-                      <SelectItem value="60days">60 days</SelectItem>
-                      <SelectItem value="3month">3 months</SelectItem>
-                      <SelectItem value="4month">4 months</SelectItem>
-                      <SelectItem value="5month">5 months</SelectItem>
-                      <SelectItem value="6month">6 months</SelectItem>
-                      <SelectItem value="7month">7 months</SelectItem>
-                      <SelectItem value="8month">8 months</SelectItem>
-                      <SelectItem value="9month">9 months</SelectItem>
-                      <SelectItem value="10month">10 months</SelectItem>
-                      <SelectItem value="11month">11 months</SelectItem>
-                      <SelectItem value="12month">12 months</SelectItem>
+                      {MEMBERSHIP_DURATIONS.map((duration) => (
+                        <SelectItem key={duration.value} value={duration.value}>
+                          {duration.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {formData.type === "membership" && (
+                <div className="space-y-2">
+                  <Label htmlFor="visitFrequency">Visit Frequency</Label>
+                  <Select
+                    value={formData.visitFrequency}
+                    onValueChange={(value) => setFormData({ ...formData, visitFrequency: value })}
+                  >
+                    <SelectTrigger id="visitFrequency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {VISIT_FREQUENCIES.map((frequency) => (
+                        <SelectItem key={frequency.value} value={frequency.value}>
+                          {frequency.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -332,6 +465,17 @@ const ContactForm = () => {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="customerGstin">Customer GSTIN (optional)</Label>
+              <Input
+                id="customerGstin"
+                placeholder="For a GST tax invoice, e.g. 24ABCDE1234F1Z5"
+                maxLength={15}
+                value={formData.customerGstin}
+                onChange={(e) => setFormData({ ...formData, customerGstin: e.target.value.toUpperCase() })}
+              />
+            </div>
+
             <Button type="submit" className="w-full" disabled={isSubmitting}>
               {isSubmitting ? (
                 <>
@@ -0,0 +1,224 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Briefcase, Calendar, CheckCircle, DollarSign, Loader2, MapPin, Phone } from "lucide-react";
+import { format } from "date-fns";
+import { where } from "firebase/firestore";
+import { useFirestore } from "@/hooks/useFirestore";
+import { Customer, getCustomer } from "@/lib/customers";
+import { getEffectiveStatus } from "@/lib/membership";
+
+interface PendingWork {
+  id: string;
+  customerName: string;
+  workType: string;
+  estimatedCost: number;
+  status: "pending" | "in-progress" | "completed";
+  completedTime?: string;
+  date: string;
+  type?: string;
+}
+
+interface MembershipMember {
+  id: string;
+  name: string;
+  status: string;
+  joinDate: string;
+  membershipType: string;
+  rate: string;
+  membershipDuration?: string;
+  periodStart?: string;
+  endDate?: string;
+}
+
+const CustomerProfile = () => {
+  const { id = "" } = useParams();
+  // Remount when navigating between customers so the queries below re-subscribe
+  return <CustomerHistory key={id} customerId={id} />;
+};
+
+const CustomerHistory = ({ customerId }: { customerId: string }) => {
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [customerLoading, setCustomerLoading] = useState(true);
+
+  const { data: works, loading: worksLoading } = useFirestore<PendingWork>(
+    "pendingWorks",
+    where("customerId", "==", customerId)
+  );
+  const { data: memberships, loading: membershipsLoading } = useFirestore<MembershipMember>(
+    "membershipMembers",
+    where("customerId", "==", customerId)
+  );
+
+  useEffect(() => {
+    getCustomer(customerId)
+      .then(setCustomer)
+      .finally(() => setCustomerLoading(false));
+  }, [customerId]);
+
+  if (customerLoading || worksLoading || membershipsLoading) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <p className="ml-3 text-muted-foreground">Loading customer...</p>
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <Card>
+        <CardContent className="py-10 text-center">
+          <p className="text-muted-foreground">Customer not found</p>
+          <Button asChild variant="outline" className="mt-4">
+            <Link to="/completed-works">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to works
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const sortedWorks = [...works].sort((a, b) => (b.date || "").localeCompare(a.date || ""));
+  const completedWorks = sortedWorks.filter((w) => w.status === "completed");
+  const totalBilled = completedWorks.reduce((sum, w) => sum + Number(w.estimatedCost || 0), 0);
+  const lastServiceDate = completedWorks
+    .map((w) => w.completedTime || w.date)
+    .filter(Boolean)
+    .sort()
+    .pop();
+
+  const stats = [
+    { title: "Total Works", value: works.length, icon: Briefcase, color: "text-primary" },
+    { title: "Completed", value: completedWorks.length, icon: CheckCircle, color: "text-success" },
+    { title: "Total Billed", value: `₹${totalBilled.toLocaleString()}`, icon: DollarSign, color: "text-primary" },
+    {
+      title: "Last Service",
+      value: lastServiceDate ? format(new Date(lastServiceDate), "dd MMM yyyy") : "-",
+      icon: Calendar,
+      color: "text-warning",
+    },
+  ];
+
+  const getStatusVariant = (status: string) => {
+    if (status === "completed") return "default";
+    if (status === "in-progress") return "secondary";
+    return "outline";
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">{customer.name || customer.contact}</h1>
+        <div className="flex flex-wrap gap-4 text-sm text-muted-foreground mt-2">
+          <span className="flex items-center gap-1">
+            <Phone className="h-4 w-4" />
+            {customer.contact || customer.phone}
+          </span>
+          {customer.address && (
+            <span className="flex items-center gap-1">
+              <MapPin className="h-4 w-4" />
+              {customer.address}
+            </span>
+          )}
+          {customer.createdAt && (
+            <span>Customer since {format(customer.createdAt.toDate(), "dd MMM yyyy")}</span>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+        {stats.map((stat) => (
+          <Card key={stat.title}>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{stat.title}</CardTitle>
+              <stat.icon className={`h-5 w-5 ${stat.color}`} />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-foreground">{stat.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {memberships.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Memberships</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Joined</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {memberships.map((member) => (
+                  <TableRow key={member.id}>
+                    <TableCell>{member.joinDate}</TableCell>
+                    <TableCell>{member.membershipType || "-"}</TableCell>
+                    <TableCell>{member.membershipDuration || "-"}</TableCell>
+                    <TableCell>{member.rate || "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{getEffectiveStatus(member)}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Service History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {sortedWorks.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Work</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedWorks.map((work) => (
+                  <TableRow key={work.id}>
+                    <TableCell>{work.date}</TableCell>
+                    <TableCell>{work.workType}</TableCell>
+                    <TableCell className="capitalize">{work.type || "individual"}</TableCell>
+                    <TableCell>
+                      <Badge variant={getStatusVariant(work.status)} className="capitalize">
+                        {work.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">₹{Number(work.estimatedCost || 0).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center text-muted-foreground py-6">No works for this customer yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CustomerProfile;
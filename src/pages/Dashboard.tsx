@@ -2,6 +2,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Users, DollarSign, Clock, CheckCircle } from "lucide-react";
 import { useFirestore } from "@/hooks/useFirestore";
 import { format } from "date-fns";
+import { getAttendanceSalary, WageChange } from "@/lib/salary";
 
 interface Employee {
   id: string;
@@ -10,6 +11,8 @@ interface Employee {
   contact: string;
   photoUrl: string;
   aadharPhotoUrl: string;
+  dailyWage?: number;
+  wageHistory?: WageChange[];
 }
 
 interface Inquiry {
@@ -91,21 +94,17 @@ const Dashboard = () => {
   // Revenue is counted from completed works (sum of estimatedCost)
   const todaysRateTotal = todaysCompletedWorks.reduce((sum: number, w: any) => sum + (Number(w.estimatedCost) || 0), 0);
 
-  // Worker salary should be based on attendance records (per day), not per-work
-  const workerSalaryPerDay = 400; // default per-day salary for 'present'
-  const salaryForStatus = (status?: string) => {
-    if (!status) return 0;
-    if (status === "present") return workerSalaryPerDay;
-    if (status === "half-day") return Math.round(workerSalaryPerDay / 2);
-    return 0; // absent/leave
-  };
+  // Worker salary should be based on attendance records (per day), not per-work,
+  // at each employee's own daily wage
+  const salaryForRecord = (record: AttendanceRecord) =>
+    getAttendanceSalary(record, employees.find((e) => e.id === record.employeeId));
 
   // Attendance entries for today
   const todaysAttendance = (attendanceRecords || []).filter((r: any) => r.date === todayISO);
   // Total worker salary is sum of per-record salary based on status
-  const totalWorkerSalary = todaysAttendance.reduce((sum: number, r: any) => sum + salaryForStatus(r.status), 0);
+  const totalWorkerSalary = todaysAttendance.reduce((sum: number, r: AttendanceRecord) => sum + salaryForRecord(r), 0);
   // Number of workers counted for salary (present or half-day)
-  const workerCountToday = todaysAttendance.filter((r: any) => salaryForStatus(r.status) > 0).length;
+  const workerCountToday = todaysAttendance.filter((r: AttendanceRecord) => salaryForRecord(r) > 0).length;
   const todaysProfit = todaysRateTotal - totalWorkerSalary;
 
   const stats = [
@@ -143,7 +142,6 @@ const Dashboard = () => {
   const expense = {
     inquiriesToday: todaysInquiriesCount,
     rateToday: todaysRateTotal,
-    workerSalaryPerDay,
     workerCountToday,
     totalWorkerSalary,
     profit: todaysProfit,
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { IndianRupee, Loader2, Phone, Users, Wallet } from "lucide-react";
+import { format } from "date-fns";
+import { where } from "firebase/firestore";
+import { useFirestore } from "@/hooks/useFirestore";
+import { useAuth } from "@/hooks/useAuth";
+import { normalizePhone } from "@/lib/customers";
+import { getAmountDue, getPaymentStatus, getWorkTotal } from "@/lib/payments";
+import { RecordPaymentDialog } from "@/components/RecordPaymentDialog";
+
+interface PendingWork {
+  id: string;
+  customerName: string;
+  contact: string;
+  workType: string;
+  estimatedCost: number;
+  status: "pending" | "in-progress" | "completed";
+  date: string;
+  customerId?: string;
+  invoiceNumber?: string;
+  invoiceTotal?: number;
+  amountPaid?: number;
+}
+
+interface CustomerDues {
+  key: string;
+  customerId?: string;
+  customerName: string;
+  contact: string;
+  works: PendingWork[];
+  billed: number;
+  paid: number;
+  due: number;
+}
+
+/**
+ * Outstanding dues per customer, for completed works that are not fully paid
+ */
+const Dues = () => {
+  const { can } = useAuth();
+  const { data: works, loading } = useFirestore<PendingWork>("pendingWorks", where("status", "==", "completed"));
+  const [payingWork, setPayingWork] = useState<PendingWork | null>(null);
+
+  // Group by customer record, falling back to the phone number for works created before customers existed
+  const customers = new Map<string, CustomerDues>();
+  works
+    .filter((work) => getAmountDue(work) > 0)
+    .forEach((work) => {
+      const key = work.customerId || normalizePhone(work.contact) || work.contact;
+      const entry = customers.get(key) || {
+        key,
+        customerId: work.customerId,
+        customerName: work.customerName,
+        contact: work.contact,
+        works: [],
+        billed: 0,
+        paid: 0,
+        due: 0,
+      };
+      entry.works.push(work);
+      entry.billed += getWorkTotal(work);
+      entry.paid += Number(work.amountPaid || 0);
+      entry.due += getAmountDue(work);
+      customers.set(key, entry);
+    });
+
+  const dues = [...customers.values()].sort((a, b) => b.due - a.due);
+  const totalDue = dues.reduce((sum, customer) => sum + customer.due, 0);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Outstanding Dues</h1>
+        <p className="text-muted-foreground mt-1">Completed works that are not fully paid, by customer</p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Total Outstanding</CardTitle>
+            <Wallet className="h-5 w-5 text-destructive" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-foreground">₹{totalDue.toLocaleString()}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Customers with Dues</CardTitle>
+            <Users className="h-5 w-5 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-foreground">{dues.length}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : dues.length > 0 ? (
+        dues.map((customer) => (
+          <Card key={customer.key}>
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="text-xl">
+                    {customer.customerId && can("customers.view") ? (
+                      <Link to={`/customers/${customer.customerId}`} className="hover:underline">
+                        {customer.customerName}
+                      </Link>
+                    ) : (
+                      customer.customerName
+                    )}
+                  </CardTitle>
+                  <p className="flex items-center gap-1 text-sm text-muted-foreground mt-1">
+                    <Phone className="h-4 w-4" />
+                    {customer.contact}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <div className="text-xl font-bold text-destructive">₹{customer.due.toLocaleString()}</div>
+                  <p className="text-xs text-muted-foreground">
+                    of ₹{customer.billed.toLocaleString()} · paid ₹{customer.paid.toLocaleString()}
+                  </p>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Work</TableHead>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Due</TableHead>
+                    {can("payments.record") && <TableHead />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {customer.works
+                    .sort((a, b) => a.date.localeCompare(b.date))
+                    .map((work) => (
+                      <TableRow key={work.id}>
+                        <TableCell>{work.date ? format(new Date(work.date), "dd/MM/yyyy") : "-"}</TableCell>
+                        <TableCell>
+                          {work.workType}
+                          {getPaymentStatus(work) === "partial" && (
+                            <Badge variant="outline" className="ml-2 text-xs">
+                              Partly paid
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{work.invoiceNumber || "-"}</TableCell>
+                        <TableCell className="text-right">₹{getWorkTotal(work).toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-medium">₹{getAmountDue(work).toLocaleString()}</TableCell>
+                        {can("payments.record") && (
+                          <TableCell className="text-right">
+                            <Button size="sm" variant="outline" onClick={() => setPayingWork(work)}>
+                              <IndianRupee className="mr-1 h-3 w-3" />
+                              Record Payment
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      ) : (
+        <Card>
+          <CardContent className="py-10 text-center">
+            <p className="text-muted-foreground">No outstanding dues. All completed works are paid.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <RecordPaymentDialog work={payingWork} onOpenChange={(open) => !open && setPayingWork(null)} />
+    </div>
+  );
+};
+
+export default Dues;
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { useState } from "react";
 import { Calendar } from "@/components/ui/calendar";
 import { toast } from "sonner";
+import { getAttendanceSalary, getDailyWage, WageChange } from "@/lib/salary";
 
 interface PendingWork {
   id: string;
@@ -34,9 +35,17 @@ interface AttendanceRecord {
   status: "present" | "absent" | "half-day" | "leave";
 }
 
+interface Employee {
+  id: string;
+  name: string;
+  dailyWage?: number;
+  wageHistory?: WageChange[];
+}
+
 const Expense = () => {
   const { data: works, loading: worksLoading } = useFirestore<PendingWork>("pendingWorks");
   const { data: attendanceRecords, loading: attendanceLoading } = useFirestore<AttendanceRecord>("attendance");
+  const { data: employees } = useFirestore<Employee>("employees");
   const { data: expenseRecords, addDocument: addExpense, loading: expenseLoading } = useFirestore<OtherExpense>("otherExpenses");
   
   // State for other costs
@@ -121,14 +130,8 @@ const Expense = () => {
     0
   );
 
-  // Worker salary calculations
-  const workerSalaryPerDay = 400; // default per-day salary for 'present'
-  const salaryForStatus = (status?: string) => {
-    if (!status) return 0;
-    if (status === "present") return workerSalaryPerDay;
-    if (status === "half-day") return Math.round(workerSalaryPerDay / 2);
-    return 0; // absent/leave
-  };
+  // Worker salary calculations, at each employee's daily wage on the selected date
+  const getEmployee = (employeeId: string) => employees.find((e) => e.id === employeeId);
 
   // Selected date's attendance records
   const selectedDateAttendance = (attendanceRecords || []).filter(
@@ -137,7 +140,7 @@ const Expense = () => {
   
   // Calculate total worker salary for selected date
   const totalWorkerSalary = selectedDateAttendance.reduce(
-    (sum, r) => sum + salaryForStatus(r.status),
+    (sum, r) => sum + getAttendanceSalary(r, getEmployee(r.employeeId)),
     0
   );
 
@@ -146,6 +149,13 @@ const Expense = () => {
     (r) => r.status === "present" || r.status === "half-day"
   ).length;
 
+  // Daily wages of the workers counted, shown as a single amount or a range
+  const dailyWages = selectedDateAttendance
+    .filter((r) => r.status === "present" || r.status === "half-day")
+    .map((r) => getDailyWage(getEmployee(r.employeeId), selectedDateISO));
+  const minDailyWage = dailyWages.length ? Math.min(...dailyWages) : 0;
+  const maxDailyWage = dailyWages.length ? Math.max(...dailyWages) : 0;
+
   // Get selected date's saved expenses
   const savedExpenses = (expenseRecords || []).filter(
     (expense) => expense.date === selectedDateISO
@@ -235,7 +245,9 @@ const Expense = () => {
                     Worker salary (per day)
                   </span>
                   <span className="text-lg font-bold">
-                    ₹{workerSalaryPerDay.toLocaleString()}
+                    {minDailyWage === maxDailyWage
+                      ? `₹${maxDailyWage.toLocaleString()}`
+                      : `₹${minDailyWage.toLocaleString()} - ₹${maxDailyWage.toLocaleString()}`}
                   </span>
                 </div>
 
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { orderBy } from "firebase/firestore";
+import { toast } from "sonner";
+import { useFirestore } from "@/hooks/useFirestore";
+import { useAuth } from "@/hooks/useAuth";
+import { Holiday } from "@/lib/holidays";
+
+const emptyForm = () => ({ date: "", name: "", paid: true });
+
+/**
+ * Holiday calendar used when marking attendance and working out pay
+ */
+const Holidays = () => {
+  const { can } = useAuth();
+  const { data: holidays, loading, addDocument, deleteDocument } = useFirestore<Holiday>("holidays", orderBy("date"));
+  const [year, setYear] = useState(format(new Date(), "yyyy"));
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const yearHolidays = holidays.filter((h) => h.date.startsWith(year));
+  const canManage = can("holidays.manage");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.date || !formData.name.trim()) {
+      toast.error("Please enter the date and name of the holiday");
+      return;
+    }
+    const existing = holidays.find((h) => h.date === formData.date);
+    if (existing) {
+      toast.error(`${format(parseISO(existing.date), "dd/MM/yyyy")} is already a holiday (${existing.name})`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await addDocument({ date: formData.date, name: formData.name.trim(), paid: formData.paid });
+      setYear(formData.date.slice(0, 4));
+      setFormData(emptyForm());
+    } catch (error) {
+      console.error("Error saving holiday:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (holiday: Holiday) => {
+    if (!confirm(`Remove ${holiday.name} from the holiday list? Attendance already marked is not changed.`)) return;
+    try {
+      await deleteDocument(holiday.id);
+    } catch (error) {
+      console.error("Error deleting holiday:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Holidays</h1>
+          <p className="text-muted-foreground mt-1">Festival and public holidays for all workers</p>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="holidayYear">Year</Label>
+          <Input
+            id="holidayYear"
+            type="number"
+            min="2000"
+            max="2100"
+            value={year}
+            onChange={(e) => setYear(e.target.value)}
+            className="w-28"
+          />
+        </div>
+      </div>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Holiday</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="holidayDate">Date</Label>
+                <Input
+                  id="holidayDate"
+                  type="date"
+                  value={formData.date}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="holidayName">Name</Label>
+                <Input
+                  id="holidayName"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. Diwali, Uttarayan"
+                  required
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="holidayPaid"
+                  checked={formData.paid}
+                  onCheckedChange={(paid) => setFormData({ ...formData, paid })}
+                />
+                <Label htmlFor="holidayPaid">Paid holiday</Label>
+              </div>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                Add Holiday
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {year} ({yearHolidays.length} holiday{yearHolidays.length === 1 ? "" : "s"})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-10">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : yearHolidays.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Day</TableHead>
+                  <TableHead>Holiday</TableHead>
+                  <TableHead>Pay</TableHead>
+                  {canManage && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {yearHolidays.map((holiday) => (
+                  <TableRow key={holiday.id}>
+                    <TableCell>{format(parseISO(holiday.date), "dd/MM/yyyy")}</TableCell>
+                    <TableCell>{format(parseISO(holiday.date), "EEEE")}</TableCell>
+                    <TableCell className="font-medium">{holiday.name}</TableCell>
+                    <TableCell>
+                      <Badge variant={holiday.paid ? "default" : "secondary"}>{holiday.paid ? "Paid" : "Unpaid"}</Badge>
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(holiday)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center text-muted-foreground py-6">No holidays added for {year}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Holidays;
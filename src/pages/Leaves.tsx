@@ -0,0 +1,404 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Check, Loader2, Plus, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { orderBy } from "firebase/firestore";
+import { toast } from "sonner";
+import { useFirestore } from "@/hooks/useFirestore";
+import { useAuth } from "@/hooks/useAuth";
+import { BusinessSettings, DEFAULT_BUSINESS_SETTINGS, getBusinessSettings } from "@/lib/settings";
+import {
+  approveLeaveRequest,
+  getLeaveBalances,
+  getLeaveDates,
+  getLeaveTypeLabel,
+  LEAVE_TYPES,
+  LeaveEmployee,
+  LeaveRequest,
+  LeaveStatus,
+  LeaveType,
+} from "@/lib/leaves";
+import { getLockedMonthMessage, isMonthLocked, MonthLock } from "@/lib/monthLocks";
+import { Holiday } from "@/lib/holidays";
+
+interface Employee {
+  id: string;
+  name: string;
+  weeklyOff?: number | null;
+}
+
+const STATUS_STYLES: Record<LeaveStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  approved: "bg-green-100 text-green-800 border-green-200",
+  rejected: "bg-red-100 text-red-800 border-red-200",
+};
+
+const emptyForm = () => ({
+  employeeId: "",
+  type: "casual" as LeaveType,
+  fromDate: format(new Date(), "yyyy-MM-dd"),
+  toDate: format(new Date(), "yyyy-MM-dd"),
+  reason: "",
+});
+
+/**
+ * Leave requests for workers, their approval and each worker's yearly paid leave balance
+ */
+const Leaves = () => {
+  const { can, profile } = useAuth();
+  const { data: employees } = useFirestore<Employee>("employees");
+  const {
+    data: requests,
+    loading,
+    addDocument,
+    updateDocument,
+  } = useFirestore<LeaveRequest>("leaveRequests", orderBy("createdAt", "desc"));
+  const { data: monthLocks } = useFirestore<MonthLock>("monthLocks");
+  const { data: holidays } = useFirestore<Holiday>("holidays");
+  const [settings, setSettings] = useState<BusinessSettings>(DEFAULT_BUSINESS_SETTINGS);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getBusinessSettings().then(setSettings);
+  }, []);
+
+  const year = format(new Date(), "yyyy");
+  const allowance = { sick: settings.sickLeavePerYear, casual: settings.casualLeavePerYear };
+  const pending = requests.filter((r) => r.status === "pending");
+  const decided = requests.filter((r) => r.status !== "pending");
+  // Holidays and the worker's weekly off inside the range aren't counted
+  const formDays = getLeaveDates(
+    formData.fromDate,
+    formData.toDate,
+    holidays,
+    employees.find((emp) => emp.id === formData.employeeId)
+  ).length;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const employee = employees.find((emp) => emp.id === formData.employeeId);
+    if (!employee) {
+      toast.error("Please select a worker");
+      return;
+    }
+    if (formData.toDate < formData.fromDate) {
+      toast.error("The leave must end on or after the day it starts");
+      return;
+    }
+    if (formDays === 0) {
+      toast.error("These dates are all holidays or the worker's weekly off");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await addDocument({
+        employeeId: employee.id,
+        employeeName: employee.name,
+        type: formData.type,
+        fromDate: formData.fromDate,
+        toDate: formData.toDate,
+        days: formDays,
+        ...(formData.reason.trim() ? { reason: formData.reason.trim() } : {}),
+        status: "pending",
+        ...(profile?.name ? { requestedBy: profile.name } : {}),
+      } as Omit<LeaveRequest, "id">);
+      setFormData(emptyForm());
+    } catch (error) {
+      console.error("Error saving leave request:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleApprove = async (request: LeaveRequest) => {
+    const employee: LeaveEmployee = employees.find((emp) => emp.id === request.employeeId) || {
+      id: request.employeeId,
+    };
+    const dates = getLeaveDates(request.fromDate, request.toDate, holidays, employee);
+    const lockedDate = dates.find((date) => isMonthLocked(monthLocks, date));
+    if (lockedDate) {
+      toast.error(getLockedMonthMessage(lockedDate));
+      return;
+    }
+
+    // Count working days as of now: holidays may have been added since the request was made
+    const days = dates.length;
+    const balance = getLeaveBalances(requests, employee, request.fromDate.slice(0, 4), allowance, holidays).find(
+      (b) => b.type === request.type
+    );
+    const overAllowance = balance && days > balance.remaining;
+    const message = overAllowance
+      ? `${request.employeeName} has only ${Math.max(balance.remaining, 0)} ${getLeaveTypeLabel(request.type).toLowerCase()} day(s) left. Approve ${days} day(s) anyway?`
+      : `Approve ${days} day(s) of ${getLeaveTypeLabel(request.type).toLowerCase()} for ${request.employeeName}? Attendance will be marked as leave for these days.`;
+    if (!confirm(message)) return;
+
+    setDecidingId(request.id);
+    try {
+      await approveLeaveRequest(request, profile?.name || "", holidays, employee);
+      toast.success("Leave approved and attendance marked");
+    } catch (error) {
+      console.error("Error approving leave:", error);
+      toast.error("Failed to approve leave");
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const handleReject = async (request: LeaveRequest) => {
+    const reason = prompt(`Reason for rejecting ${request.employeeName}'s leave (optional):`);
+    if (reason === null) return;
+
+    setDecidingId(request.id);
+    try {
+      await updateDocument(request.id, {
+        status: "rejected",
+        decidedBy: profile?.name || "",
+        ...(reason.trim() ? { rejectionReason: reason.trim() } : {}),
+      });
+    } catch (error) {
+      console.error("Error rejecting leave:", error);
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const formatRange = (request: LeaveRequest) =>
+    request.fromDate === request.toDate
+      ? format(parseISO(request.fromDate), "dd/MM/yyyy")
+      : `${format(parseISO(request.fromDate), "dd/MM/yyyy")} - ${format(parseISO(request.toDate), "dd/MM/yyyy")}`;
+
+  const renderRequests = (list: LeaveRequest[], showActions: boolean) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Worker</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Dates</TableHead>
+          <TableHead className="text-right">Days</TableHead>
+          <TableHead>Reason</TableHead>
+          <TableHead>Status</TableHead>
+          {showActions && <TableHead />}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {list.map((request) => (
+          <TableRow key={request.id}>
+            <TableCell className="font-medium">{request.employeeName}</TableCell>
+            <TableCell>{getLeaveTypeLabel(request.type)}</TableCell>
+            <TableCell>{formatRange(request)}</TableCell>
+            <TableCell className="text-right">{request.days}</TableCell>
+            <TableCell className="text-sm text-muted-foreground">
+              {request.reason || "—"}
+              {request.rejectionReason && <div className="text-red-600">Rejected: {request.rejectionReason}</div>}
+            </TableCell>
+            <TableCell>
+              <Badge className={STATUS_STYLES[request.status]}>{request.status}</Badge>
+              {request.decidedBy && <div className="text-xs text-muted-foreground mt-1">by {request.decidedBy}</div>}
+            </TableCell>
+            {showActions && (
+              <TableCell className="text-right">
+                {can("leaves.approve") && (
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" onClick={() => handleApprove(request)} disabled={decidingId === request.id}>
+                      {decidingId === request.id ? (
+                        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                      ) : (
+                        <Check className="mr-1 h-3 w-3" />
+                      )}
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReject(request)}
+                      disabled={decidingId === request.id}
+                    >
+                      <X className="mr-1 h-3 w-3" />
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Leave Requests</h1>
+        <p className="text-muted-foreground mt-1">Request, approve and track worker leave</p>
+      </div>
+
+      {can("leaves.request") && (
+        <Card>
+          <CardHeader>
+            <CardTitle>New Leave Request</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Worker</Label>
+                <Select value={formData.employeeId} onValueChange={(employeeId) => setFormData({ ...formData, employeeId })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select worker" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {employees.map((emp) => (
+                      <SelectItem key={emp.id} value={emp.id}>
+                        {emp.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Leave Type</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(type) => setFormData({ ...formData, type: type as LeaveType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEAVE_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leaveReason">Reason</Label>
+                <Input
+                  id="leaveReason"
+                  value={formData.reason}
+                  onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                  placeholder="Optional"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leaveFrom">From</Label>
+                <Input
+                  id="leaveFrom"
+                  type="date"
+                  value={formData.fromDate}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      fromDate: e.target.value,
+                      toDate: formData.toDate < e.target.value ? e.target.value : formData.toDate,
+                    })
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leaveTo">To</Label>
+                <Input
+                  id="leaveTo"
+                  type="date"
+                  min={formData.fromDate}
+                  value={formData.toDate}
+                  onChange={(e) => setFormData({ ...formData, toDate: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="flex items-end">
+                <Button type="submit" disabled={isSaving} className="w-full">
+                  {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                  Request {formDays} Day(s)
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Pending ({pending.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {pending.length > 0 ? (
+                renderRequests(pending, true)
+              ) : (
+                <p className="text-center text-muted-foreground py-6">No leave requests waiting for approval</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Leave Balance {year}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Worker</TableHead>
+                    <TableHead className="text-right">Sick (used / allowed)</TableHead>
+                    <TableHead className="text-right">Casual (used / allowed)</TableHead>
+                    <TableHead className="text-right">Paid Leave Left</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {employees.map((emp) => {
+                    const [sick, casual] = getLeaveBalances(requests, emp, year, allowance, holidays);
+                    const left = Math.max(sick.remaining, 0) + Math.max(casual.remaining, 0);
+                    return (
+                      <TableRow key={emp.id}>
+                        <TableCell className="font-medium">{emp.name}</TableCell>
+                        <TableCell className="text-right">
+                          {sick.used} / {sick.allowed}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {casual.used} / {casual.allowed}
+                        </TableCell>
+                        <TableCell className={`text-right font-bold ${left > 0 ? "text-green-600" : "text-red-600"}`}>
+                          {left}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {decided.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>History</CardTitle>
+              </CardHeader>
+              <CardContent>{renderRequests(decided, false)}</CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Leaves;
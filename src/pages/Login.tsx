@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import { FirebaseError } from "firebase/app";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -7,43 +8,65 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Lock, User } from "lucide-react";
 import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
 
-// Fixed credentials
-const FIXED_CREDENTIALS = {
-  username: "safaymission@gmail.com",
-  password: "Safay@123."
+/**
+ * Map Firebase Auth error codes to messages we can show to the user
+ */
+const getLoginErrorMessage = (error: unknown) => {
+  if (error instanceof FirebaseError) {
+    switch (error.code) {
+      case "auth/invalid-credential":
+      case "auth/invalid-email":
+      case "auth/user-not-found":
+      case "auth/wrong-password":
+        return "Invalid email or password";
+      case "auth/user-disabled":
+        return "This account has been disabled";
+      case "auth/too-many-requests":
+        return "Too many failed attempts. Please try again later";
+      case "auth/network-request-failed":
+        return "Network error. Check your connection and try again";
+    }
+  }
+  return "Login failed. Please try again";
 };
 
 const Login = () => {
   const navigate = useNavigate();
-  const [username, setUsername] = useState("");
+  const location = useLocation();
+  const { user, loading, signIn } = useAuth();
+  const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
-  const handleLogin = (e: React.FormEvent) => {
+  // Send users back to the page they tried to open before logging in
+  const redirectTo = (location.state as { from?: { pathname: string } } | null)?.from?.pathname || "/";
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
     setIsLoading(true);
 
-    // Simulate a small delay for better UX
-    setTimeout(() => {
-      if (username === FIXED_CREDENTIALS.username && password === FIXED_CREDENTIALS.password) {
-        // Set authentication in sessionStorage instead of localStorage
-        // This will clear when the browser/tab is closed
-        sessionStorage.setItem("isAuthenticated", "true");
-        sessionStorage.setItem("loginTime", new Date().toISOString());
-        
-        toast.success("Login successful!");
-        navigate("/");
-      } else {
-        setError("Invalid username or password");
-        toast.error("Login failed");
-      }
+    try {
+      await signIn(email, password);
+      toast.success("Login successful!");
+      navigate(redirectTo, { replace: true });
+    } catch (err) {
+      console.error("Login error:", err);
+      setError(getLoginErrorMessage(err));
+      toast.error("Login failed");
+    } finally {
       setIsLoading(false);
-    }, 500);
+    }
   };
 
+  // Already signed in (e.g. page refresh within the same session)
+  if (!loading && user) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-900 via-gray-800 to-black p-4">
       <Card className="w-full max-w-md shadow-2xl">
@@ -54,15 +77,15 @@ const Login = () => {
         <CardContent>
           <form onSubmit={handleLogin} className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="username">Username</Label>
+              <Label htmlFor="email">Email</Label>
               <div className="relative">
                 <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
-                  id="username"
-                  type="text"
-                  placeholder="Enter username"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
+                  id="email"
+                  type="email"
+                  placeholder="Enter email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
                   className="pl-10"
                   required
                   autoComplete="username"
@@ -1,13 +1,19 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Phone, MapPin, Calendar, Loader2, DollarSign, Edit, Trash2 } from "lucide-react";
+import { Phone, MapPin, Calendar, Loader2, DollarSign, Edit, Trash2, RefreshCw } from "lucide-react";
 import { useFirestore } from "@/hooks/useFirestore";
 import { orderBy } from "firebase/firestore";
 import { Button } from "@/components/ui/button";
-import { format, addDays, addMonths, parseISO, isSameDay, differenceInCalendarDays } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { toast } from "sonner";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { RenewMembershipDialog } from "@/components/RenewMembershipDialog";
+import { generateVisitsForMember, VISIT_FREQUENCIES } from "@/lib/visits";
+import { EXPIRING_SOON_DAYS, getDaysRemaining, getEffectiveStatus, getEndDate, syncMembershipStatuses } from "@/lib/membership";
 
 interface MembershipMember {
   id: string;
@@ -19,13 +25,38 @@ interface MembershipMember {
   membershipType: string;
   rate: string;
   membershipDuration?: string;
+  periodStart?: string;
+  endDate?: string;
+  visitFrequency?: string;
+  customerId?: string;
 }
 
+type MemberFilter = "all" | "expiring" | "expired";
+
 const MembershipMembers = () => {
-  const { data: members, loading, deleteDocument } = useFirestore<MembershipMember>(
+  const { can } = useAuth();
+  const { data: members, loading, updateDocument, deleteDocument } = useFirestore<MembershipMember>(
     "membershipMembers",
     orderBy("createdAt", "desc")
   );
+  const [filter, setFilter] = useState<MemberFilter>("all");
+  const [renewingMember, setRenewingMember] = useState<MembershipMember | null>(null);
+
+  // Keep the stored status/end date in step with the calendar, so other pages see expired members too
+  const canEditMembers = can("members.edit");
+  useEffect(() => {
+    if (loading || !canEditMembers || members.length === 0) return;
+    syncMembershipStatuses(members).catch((error) => {
+      console.error("Error updating membership statuses:", error);
+    });
+  }, [members, loading, canEditMembers]);
+
+  const filteredMembers = members.filter((member) => {
+    if (filter === "all") return true;
+    const status = getEffectiveStatus(member);
+    if (filter === "expired") return status === "Expired";
+    return status === "Expiring Soon";
+  });
 
   const getInitials = (name: string) => {
     return name
@@ -47,18 +78,44 @@ const MembershipMembers = () => {
     }
   };
 
+  const handleFrequencyChange = async (member: MembershipMember, visitFrequency: string) => {
+    try {
+      await updateDocument(member.id, { visitFrequency });
+      const created = await generateVisitsForMember({ ...member, visitFrequency });
+      if (created > 0) {
+        toast.success(`Scheduled ${created} upcoming visit${created > 1 ? "s" : ""} for ${member.name}`);
+      }
+    } catch (error) {
+      console.error("Error updating visit frequency:", error);
+      toast.error("Failed to update visit frequency");
+    }
+  };
+
   const getStatusVariant = (status: string) => {
     const lower = status.toLowerCase();
     if (lower === "active") return "default";
-    if (lower === "inactive") return "secondary";
+    if (lower === "expired") return "destructive";
+    if (lower === "inactive" || lower === "expiring soon") return "secondary";
     return "outline";
   };
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold text-foreground">Membership Members</h1>
-        <p className="text-muted-foreground mt-1">View and manage your membership customers</p>
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Membership Members</h1>
+          <p className="text-muted-foreground mt-1">View and manage your membership customers</p>
+        </div>
+        <Select value={filter} onValueChange={(value) => setFilter(value as MemberFilter)}>
+          <SelectTrigger className="w-full md:w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All members</SelectItem>
+            <SelectItem value="expiring">Expiring this week</SelectItem>
+            <SelectItem value="expired">Expired</SelectItem>
+          </SelectContent>
+        </Select>
       </div>
 
       {loading ? (
@@ -66,9 +123,9 @@ const MembershipMembers = () => {
           <Loader2 className="h-8 w-8 animate-spin text-primary" />
           <p className="ml-3 text-muted-foreground">Loading members...</p>
         </div>
-      ) : members && members.length > 0 ? (
+      ) : filteredMembers.length > 0 ? (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {members.map((member) => (
+          {filteredMembers.map((member) => (
             <Card key={member.id} className="hover:shadow-lg transition-shadow">
               <CardHeader className="pb-3">
                 <div className="flex items-center gap-4">
@@ -78,9 +135,17 @@ const MembershipMembers = () => {
                     </AvatarFallback>
                   </Avatar>
                   <div className="flex-1">
-                    <CardTitle className="text-lg">{member.name}</CardTitle>
-                    <Badge variant={getStatusVariant(member.status)} className="mt-1">
-                      {member.status}
+                    <CardTitle className="text-lg">
+                      {member.customerId && can("customers.view") ? (
+                        <Link to={`/customers/${member.customerId}`} className="hover:underline">
+                          {member.name}
+                        </Link>
+                      ) : (
+                        member.name
+                      )}
+                    </CardTitle>
+                    <Badge variant={getStatusVariant(getEffectiveStatus(member))} className="mt-1">
+                      {getEffectiveStatus(member)}
                     </Badge>
                   </div>
                 </div>
@@ -100,43 +165,28 @@ const MembershipMembers = () => {
                 </div>
                 {member.membershipDuration && (
                   (() => {
-                    // compute next work date based on membershipDuration
-                    let nextDate: Date | null = null;
-                    try {
-                      const join = parseISO(member.joinDate);
-                      const d = member.membershipDuration;
-                      if (d.endsWith("days")) {
-                        const n = parseInt(d.replace("days", ""), 10) || 0;
-                        nextDate = addDays(join, n);
-                      } else if (d.endsWith("month")) {
-                        const n = parseInt(d.replace("month", ""), 10) || 0;
-                        nextDate = addMonths(join, n);
-                      }
-                    } catch (err) {
-                      console.error("Failed to compute next date:", err);
-                    }
-
-                    const today = new Date();
-                    const isWorkDay = nextDate ? isSameDay(nextDate, today) : false;
-                    const daysRemaining = nextDate ? differenceInCalendarDays(nextDate, today) : null;
-                    const displayNext = nextDate ? format(nextDate, "yyyy-MM-dd") : null;
+                    const endDate = getEndDate(member);
+                    const daysRemaining = endDate ? getDaysRemaining(endDate) : null;
 
                     return (
                       <div className="mt-2">
                         <div className="flex items-center gap-2 text-sm">
                           <Badge variant="secondary">Duration: {member.membershipDuration}</Badge>
                         </div>
-                        {displayNext && (
+                        {endDate && daysRemaining !== null && (
                           <div className="mt-2 text-sm">
-                            <div>Next work date: <span className="font-medium">{displayNext}</span></div>
-                            {daysRemaining !== null && daysRemaining > 0 && (
+                            <div>Ends on: <span className="font-medium">{format(parseISO(endDate), "dd MMM yyyy")}</span></div>
+                            {daysRemaining > EXPIRING_SOON_DAYS && (
                               <div className="text-xs text-muted-foreground">{daysRemaining} day(s) remaining</div>
                             )}
-                            {daysRemaining !== null && daysRemaining < 0 && (
-                              <div className="text-xs text-destructive">Overdue by {Math.abs(daysRemaining)} day(s)</div>
+                            {daysRemaining > 0 && daysRemaining <= EXPIRING_SOON_DAYS && (
+                              <div className="text-xs text-warning font-medium">Expires in {daysRemaining} day(s)</div>
                             )}
-                            {isWorkDay && (
-                              <div className="mt-3 p-3 bg-rose-600 text-white rounded text-center text-lg font-bold">WORK DAY</div>
+                            {daysRemaining < 0 && (
+                              <div className="text-xs text-destructive">Expired {Math.abs(daysRemaining)} day(s) ago</div>
+                            )}
+                            {daysRemaining === 0 && (
+                              <div className="mt-3 p-3 bg-rose-600 text-white rounded text-center text-lg font-bold">LAST DAY</div>
                             )}
                           </div>
                         )}
@@ -144,6 +194,32 @@ const MembershipMembers = () => {
                     );
                   })()
                 )}
+                {canEditMembers ? (
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">Visits:</span>
+                    <Select
+                      value={member.visitFrequency || "once"}
+                      onValueChange={(value) => handleFrequencyChange(member, value)}
+                    >
+                      <SelectTrigger className="h-8 flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {VISIT_FREQUENCIES.map((frequency) => (
+                          <SelectItem key={frequency.value} value={frequency.value}>
+                            {frequency.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  member.visitFrequency && member.visitFrequency !== "once" && (
+                    <div className="text-sm text-muted-foreground">
+                      Visits: {VISIT_FREQUENCIES.find((f) => f.value === member.visitFrequency)?.label}
+                    </div>
+                  )
+                )}
                 {member.membershipType && (
                   <div className="flex items-center gap-2 text-sm">
                     <Badge variant="outline" className="text-xs">
@@ -157,17 +233,32 @@ const MembershipMembers = () => {
                     <span>{member.rate}</span>
                   </div>
                 )}
-                <div className="flex gap-2 pt-2">
-                  <Button
-                    variant="destructive"
-                    size="sm"
-                    className="w-full"
-                    onClick={() => handleDelete(member.id, member.name)}
-                  >
-                    <Trash2 className="h-4 w-4 mr-1" />
-                    Remove
-                  </Button>
-                </div>
+                {(can("members.edit") || can("members.delete")) && (
+                  <div className="flex gap-2 pt-2">
+                    {can("members.edit") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => setRenewingMember(member)}
+                      >
+                        <RefreshCw className="h-4 w-4 mr-1" />
+                        Renew
+                      </Button>
+                    )}
+                    {can("members.delete") && (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => handleDelete(member.id, member.name)}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))}
@@ -175,13 +266,26 @@ const MembershipMembers = () => {
       ) : (
         <Card>
           <CardContent className="py-10 text-center">
-            <p className="text-muted-foreground">No membership members yet</p>
-            <p className="text-sm text-muted-foreground mt-2">
-              Add inquiries with "Membership" type in the Contact Form to create members
-            </p>
+            {filter !== "all" && members.length > 0 ? (
+              <p className="text-muted-foreground">
+                {filter === "expired" ? "No expired memberships" : "No memberships expiring this week"}
+              </p>
+            ) : (
+              <>
+                <p className="text-muted-foreground">No membership members yet</p>
+                <p className="text-sm text-muted-foreground mt-2">
+                  Add inquiries with "Membership" type in the Contact Form to create members
+                </p>
+              </>
+            )}
           </CardContent>
         </Card>
       )}
+
+      <RenewMembershipDialog
+        member={renewingMember}
+        onOpenChange={(open) => !open && setRenewingMember(null)}
+      />
     </div>
   );
 };
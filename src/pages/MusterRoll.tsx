@@ -0,0 +1,418 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Download, FileText, Loader2, Lock } from "lucide-react";
+import { endOfMonth, format, parseISO } from "date-fns";
+import { where } from "firebase/firestore";
+import { toast } from "sonner";
+import { useFirestore } from "@/hooks/useFirestore";
+import { useAuth } from "@/hooks/useAuth";
+import { DEFAULT_BUSINESS_SETTINGS, getBusinessSettings } from "@/lib/settings";
+import {
+  AttendanceStatus,
+  getAttendanceTimeFields,
+  getDefaultTimes,
+  isWorkingStatus,
+  saveAttendanceRecords,
+  ShiftSettings,
+} from "@/lib/attendance";
+import { AttendanceCorrection, AttendanceValue } from "@/lib/attendanceCorrections";
+import { getHoliday, Holiday, isWeeklyOff } from "@/lib/holidays";
+import { getLeaveTypeLabel, LeaveType } from "@/lib/leaves";
+import { getLockedMonthMessage, isMonthLocked, MonthLock } from "@/lib/monthLocks";
+import { getMonthDates, getMusterRoll, getMusterRollCsv, MUSTER_CODES } from "@/lib/musterRoll";
+import { downloadMusterRollPdf } from "@/lib/musterRollPdf";
+
+interface Employee {
+  id: string;
+  name: string;
+  weeklyOff?: number | null;
+}
+
+interface AttendanceRecord {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+  date: string; // yyyy-MM-dd
+  status: AttendanceStatus;
+  checkIn?: string;
+  checkOut?: string;
+  overtimeHours?: number;
+  leaveType?: LeaveType;
+  holidayName?: string;
+  holidayPaid?: boolean;
+  notes?: string;
+}
+
+const CELL_STYLES: Record<AttendanceStatus, string> = {
+  present: "bg-green-100 text-green-800",
+  "half-day": "bg-yellow-100 text-yellow-800",
+  absent: "bg-red-100 text-red-800",
+  leave: "bg-blue-100 text-blue-800",
+  holiday: "bg-purple-100 text-purple-800",
+  "week-off": "bg-gray-100 text-gray-600",
+};
+
+const STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: "Present",
+  "half-day": "Half Day",
+  absent: "Absent",
+  leave: "Leave",
+  holiday: "Holiday",
+  "week-off": "Weekly Off",
+};
+
+const MusterRoll = () => {
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Muster Roll</h1>
+          <p className="text-muted-foreground mt-1">Every worker's attendance for the month, day by day</p>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="musterMonth">Month</Label>
+          <Input
+            id="musterMonth"
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="w-44"
+          />
+        </div>
+      </div>
+
+      {/* Remount per month so the date-filtered queries re-subscribe */}
+      <MusterRollMonth key={month} month={month} />
+    </div>
+  );
+};
+
+const MusterRollMonth = ({ month }: { month: string }) => {
+  const { can, profile, user } = useAuth();
+  const monthStart = `${month}-01`;
+  const monthEnd = format(endOfMonth(parseISO(monthStart)), "yyyy-MM-dd");
+
+  const { data: employees, loading: employeesLoading } = useFirestore<Employee>("employees");
+  const {
+    data: attendance,
+    loading: attendanceLoading,
+    updateDocument,
+  } = useFirestore<AttendanceRecord>("attendance", where("date", ">=", monthStart), where("date", "<=", monthEnd));
+  const { data: corrections, addDocument: addCorrection } = useFirestore<AttendanceCorrection>(
+    "attendanceCorrections",
+    where("date", ">=", monthStart),
+    where("date", "<=", monthEnd)
+  );
+  const { data: holidays } = useFirestore<Holiday>("holidays");
+  const { data: monthLocks } = useFirestore<MonthLock>("monthLocks");
+  const [shift, setShift] = useState<ShiftSettings>(DEFAULT_BUSINESS_SETTINGS);
+  const [openCell, setOpenCell] = useState<string | null>(null);
+  const [savingCell, setSavingCell] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Shift start, length and overtime rate come from the business settings
+  useEffect(() => {
+    getBusinessSettings().then(setShift);
+  }, []);
+
+  if (employeesLoading || attendanceLoading) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const dates = getMonthDates(month);
+  const todayISO = format(new Date(), "yyyy-MM-dd");
+  const monthLabel = format(parseISO(monthStart), "MMMM yyyy");
+  const locked = isMonthLocked(monthLocks, month);
+  const canEdit = can("attendance.edit") && !locked;
+  const rows = getMusterRoll(
+    [...employees].sort((a, b) => a.name.localeCompare(b.name)),
+    attendance,
+    month
+  );
+
+  // Statuses that can be set from the grid; leave comes from approved leave requests
+  const getStatusOptions = (employee: Employee, date: string): AttendanceStatus[] => [
+    "present",
+    "half-day",
+    "absent",
+    ...(getHoliday(holidays, date) ? (["holiday"] as const) : []),
+    ...(isWeeklyOff(employee, date) ? (["week-off"] as const) : []),
+  ];
+
+  const handleSetStatus = async (employee: Employee, date: string, record: AttendanceRecord | undefined, status: AttendanceStatus) => {
+    if (isMonthLocked(monthLocks, date)) {
+      toast.error(getLockedMonthMessage(date));
+      return;
+    }
+    if (record?.status === status) {
+      setOpenCell(null);
+      return;
+    }
+
+    const cellKey = `${employee.id}_${date}`;
+    const times = getDefaultTimes(status, shift);
+
+    // Past records change through a correction request, like on the attendance page
+    if (record && record.date < todayISO) {
+      if (corrections.some((c) => c.recordId === record.id && c.status === "pending")) {
+        toast.error("A correction for this record is already waiting for approval");
+        return;
+      }
+      const reason = prompt(
+        `Why should ${employee.name}'s attendance on ${format(parseISO(date), "dd/MM/yyyy")} be ${STATUS_LABELS[status].toLowerCase()}?`
+      );
+      if (reason === null) return;
+      if (!reason.trim()) {
+        toast.error("Please enter the reason for this correction");
+        return;
+      }
+
+      const previous: AttendanceValue = {
+        status: record.status,
+        checkIn: record.checkIn || "",
+        checkOut: record.checkOut || "",
+      };
+      setSavingCell(cellKey);
+      try {
+        await addCorrection({
+          recordId: record.id,
+          employeeId: employee.id,
+          employeeName: record.employeeName,
+          date,
+          previous,
+          requested: { status, ...times },
+          reason: reason.trim(),
+          requestedBy: profile?.name || user?.email || "",
+          status: "pending",
+        });
+        toast.success("Correction sent for approval");
+        setOpenCell(null);
+      } catch (error) {
+        console.error("Error requesting attendance correction:", error);
+      } finally {
+        setSavingCell(null);
+      }
+      return;
+    }
+
+    // The record keeps whether the holiday was paid, like bulk marking does
+    const holiday = status === "holiday" ? getHoliday(holidays, date) : undefined;
+    const holidayFields = holiday ? { holidayName: holiday.name, holidayPaid: holiday.paid } : {};
+
+    setSavingCell(cellKey);
+    try {
+      if (record) {
+        await updateDocument(record.id, { status, ...getAttendanceTimeFields(status, times, shift), ...holidayFields });
+      } else {
+        const { saved } = await saveAttendanceRecords([
+          {
+            employeeId: employee.id,
+            employeeName: employee.name,
+            date,
+            status,
+            ...getAttendanceTimeFields(status, times, shift),
+            ...holidayFields,
+            notes: holiday ? holiday.name : "",
+          },
+        ]);
+        if (saved.length > 0) {
+          toast.success("Attendance saved");
+        } else {
+          toast.error(`${employee.name} was already marked for this day by someone else`);
+        }
+      }
+      setOpenCell(null);
+    } catch (error) {
+      console.error("Error saving attendance:", error);
+      toast.error("Failed to save attendance");
+    } finally {
+      setSavingCell(null);
+    }
+  };
+
+  const handleExportPdf = async () => {
+    setIsExporting(true);
+    try {
+      await downloadMusterRollPdf(rows, month);
+    } catch (error) {
+      console.error("Error generating muster roll PDF:", error);
+      toast.error("Failed to generate PDF");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportCsv = () => {
+    const blob = new Blob([getMusterRollCsv(rows, month)], { type: "text/csv" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `muster_roll_${month}.csv`;
+    a.click();
+    toast.success("Muster roll exported successfully");
+  };
+
+  const getCellTitle = (date: string, record: AttendanceRecord | undefined) => {
+    const day = format(parseISO(date), "EEE dd/MM/yyyy");
+    if (!record) return `${day}: not marked`;
+    const detail =
+      record.status === "leave" && record.leaveType
+        ? getLeaveTypeLabel(record.leaveType)
+        : record.status === "holiday" && record.holidayName
+          ? record.holidayName
+          : STATUS_LABELS[record.status];
+    const times = isWorkingStatus(record.status) && record.checkIn ? ` ${record.checkIn}-${record.checkOut || "?"}` : "";
+    return `${day}: ${detail}${times}${record.overtimeHours ? ` (OT ${record.overtimeHours}h)` : ""}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <CardTitle className="flex items-center gap-2">
+            {monthLabel}
+            {locked && (
+              <Badge variant="secondary" className="gap-1">
+                <Lock className="h-3 w-3" /> Locked
+              </Badge>
+            )}
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleExportCsv} disabled={rows.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExportPdf} disabled={rows.length === 0 || isExporting}>
+              {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+              Muster Roll PDF
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground pt-2">
+          {(Object.keys(MUSTER_CODES) as AttendanceStatus[]).map((status) => (
+            <span key={status} className="flex items-center gap-1">
+              <span className={`inline-block rounded px-1 font-semibold ${CELL_STYLES[status]}`}>{MUSTER_CODES[status]}</span>
+              {STATUS_LABELS[status]}
+            </span>
+          ))}
+          {canEdit && <span>Click a day to mark or correct it</span>}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rows.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 z-10 bg-card border px-2 py-1 text-left min-w-40">Worker</th>
+                  {dates.map((date) => (
+                    <th
+                      key={date}
+                      className={`border px-0.5 py-1 font-medium min-w-7 ${getHoliday(holidays, date) ? "bg-purple-50" : ""} ${date === todayISO ? "ring-2 ring-inset ring-primary" : ""}`}
+                      title={getHoliday(holidays, date)?.name}
+                    >
+                      <div>{date.slice(8)}</div>
+                      <div className="text-muted-foreground">{format(parseISO(date), "EEEEE")}</div>
+                    </th>
+                  ))}
+                  <th className="border px-1 py-1">P</th>
+                  <th className="border px-1 py-1">HD</th>
+                  <th className="border px-1 py-1">A</th>
+                  <th className="border px-1 py-1">L</th>
+                  <th className="border px-1 py-1">Off</th>
+                  <th className="border px-1 py-1">Days</th>
+                  <th className="border px-1 py-1">OT</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ employee, cells, totals }) => (
+                  <tr key={employee.id}>
+                    <td className="sticky left-0 z-10 bg-card border px-2 py-1 font-medium whitespace-nowrap">
+                      {employee.name}
+                    </td>
+                    {cells.map((record, index) => {
+                      const date = dates[index];
+                      const cellKey = `${employee.id}_${date}`;
+                      const content = (
+                        <div
+                          className={`h-7 flex items-center justify-center font-semibold ${record ? CELL_STYLES[record.status] : ""}`}
+                          title={getCellTitle(date, record)}
+                        >
+                          {savingCell === cellKey ? (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          ) : record ? (
+                            MUSTER_CODES[record.status]
+                          ) : (
+                            ""
+                          )}
+                        </div>
+                      );
+
+                      // Leave is marked by approving a leave request, and future days can't be marked yet
+                      const editable = canEdit && date <= todayISO && record?.status !== "leave";
+                      return (
+                        <td key={date} className="border p-0 text-center">
+                          {editable ? (
+                            <Popover open={openCell === cellKey} onOpenChange={(open) => setOpenCell(open ? cellKey : null)}>
+                              <PopoverTrigger asChild>
+                                <button type="button" className="w-full hover:opacity-75">
+                                  {content}
+                                </button>
+                              </PopoverTrigger>
+                              <PopoverContent className="w-48 p-2 space-y-1">
+                                <p className="text-xs text-muted-foreground px-1 pb-1">
+                                  {employee.name}, {format(parseISO(date), "dd/MM/yyyy")}
+                                  {record && date < todayISO ? " (needs approval)" : ""}
+                                </p>
+                                {getStatusOptions(employee, date).map((status) => (
+                                  <Button
+                                    key={status}
+                                    size="sm"
+                                    variant={record?.status === status ? "default" : "ghost"}
+                                    className="w-full justify-start"
+                                    disabled={savingCell === cellKey}
+                                    onClick={() => handleSetStatus(employee, date, record, status)}
+                                  >
+                                    {STATUS_LABELS[status]}
+                                  </Button>
+                                ))}
+                              </PopoverContent>
+                            </Popover>
+                          ) : (
+                            content
+                          )}
+                        </td>
+                      );
+                    })}
+                    <td className="border px-1 text-center">{totals.present}</td>
+                    <td className="border px-1 text-center">{totals.halfDays}</td>
+                    <td className="border px-1 text-center">{totals.absent}</td>
+                    <td className="border px-1 text-center">{totals.leave}</td>
+                    <td className="border px-1 text-center">{totals.off}</td>
+                    <td className="border px-1 text-center font-semibold">{totals.daysWorked}</td>
+                    <td className="border px-1 text-center">{totals.overtimeHours || ""}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-6">No workers added yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MusterRoll;
@@ -0,0 +1,412 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle, Download, Loader2, Lock, LockOpen } from "lucide-react";
+import { endOfMonth, format, parseISO } from "date-fns";
+import { where } from "firebase/firestore";
+import { toast } from "sonner";
+import { useFirestore } from "@/hooks/useFirestore";
+import { useAuth } from "@/hooks/useAuth";
+import { WageChange } from "@/lib/salary";
+import {
+  buildPayrollEntry,
+  finalizePayrollRun,
+  getNetPay,
+  PAYOUT_METHODS,
+  PayoutMethod,
+  PayrollEntry,
+  PayrollRun,
+} from "@/lib/payroll";
+import { downloadSalarySlipPdf } from "@/lib/salarySlipPdf";
+import { UpadEntry } from "@/lib/upads";
+import { AttendanceStatus } from "@/lib/attendance";
+import { lockMonth, MonthLock, reopenMonth } from "@/lib/monthLocks";
+
+interface Employee {
+  id: string;
+  name: string;
+  dailyWage?: number;
+  wageHistory?: WageChange[];
+}
+
+interface AttendanceRecord {
+  id: string;
+  employeeId: string;
+  date: string; // yyyy-MM-dd
+  status: AttendanceStatus;
+  overtimeHours?: number;
+  shiftHours?: number;
+  overtimeRate?: number;
+  selfCheckInStatus?: "pending" | "approved" | "rejected";
+}
+
+type Adjustments = Record<string, { bonus: string; deduction: string; deductionNote: string }>;
+
+const Payroll = () => {
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Payroll</h1>
+          <p className="text-muted-foreground mt-1">Monthly salary, advances and salary slips</p>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="payrollMonth">Month</Label>
+          <Input
+            id="payrollMonth"
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="w-44"
+          />
+        </div>
+      </div>
+
+      {/* Remount per month so the date-filtered queries re-subscribe */}
+      <PayrollMonth key={month} month={month} />
+    </div>
+  );
+};
+
+const PayrollMonth = ({ month }: { month: string }) => {
+  const { can, profile, user } = useAuth();
+  const monthStart = `${month}-01`;
+  const monthEnd = format(endOfMonth(parseISO(monthStart)), "yyyy-MM-dd");
+
+  const { data: employees, loading: employeesLoading } = useFirestore<Employee>("employees");
+  const { data: attendance, loading: attendanceLoading } = useFirestore<AttendanceRecord>(
+    "attendance",
+    where("date", ">=", monthStart),
+    where("date", "<=", monthEnd)
+  );
+  const { data: upads, loading: upadsLoading } = useFirestore<UpadEntry>("upads");
+  const { data: runs, loading: runsLoading } = useFirestore<PayrollRun>("payrollRuns", where("month", "==", month));
+  const { data: locks } = useFirestore<MonthLock>("monthLocks");
+
+  const [adjustments, setAdjustments] = useState<Adjustments>({});
+  const [payout, setPayout] = useState({ paidOn: format(new Date(), "yyyy-MM-dd"), paymentMethod: "cash" as PayoutMethod });
+  const [isFinalizing, setIsFinalizing] = useState(false);
+
+  if (employeesLoading || attendanceLoading || upadsLoading || runsLoading) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const run = runs[0];
+  const lock = locks.find((l) => l.id === month);
+  const userName = profile?.name || user?.email || "";
+  const monthLabel = format(parseISO(monthStart), "MMMM yyyy");
+
+  // Draft: everyone who worked this month or has advances to recover
+  const draftEntries: PayrollEntry[] = employees
+    .map((employee) => {
+      const entry = buildPayrollEntry(
+        employee,
+        attendance.filter((r) => r.employeeId === employee.id),
+        upads,
+        month
+      );
+      const adjustment = adjustments[employee.id];
+      const withAdjustments = {
+        ...entry,
+        bonus: Number(adjustment?.bonus) || 0,
+        deduction: Number(adjustment?.deduction) || 0,
+        ...(adjustment?.deductionNote?.trim() ? { deductionNote: adjustment.deductionNote.trim() } : {}),
+      };
+      return { ...withAdjustments, netPay: getNetPay(withAdjustments) };
+    })
+    .filter(
+      (entry) =>
+        entry.presentDays + entry.halfDays + entry.leaveDays + entry.absentDays + (entry.holidayDays || 0) > 0 ||
+        entry.advanceBalance > 0
+    );
+
+  const entries = run ? run.entries : draftEntries;
+  const totalNetPay = entries.reduce((sum, e) => sum + e.netPay, 0);
+
+  const setAdjustment = (employeeId: string, field: keyof Adjustments[string], value: string) => {
+    setAdjustments((prev) => ({
+      ...prev,
+      [employeeId]: { bonus: "", deduction: "", deductionNote: "", ...prev[employeeId], [field]: value },
+    }));
+  };
+
+  const handleFinalize = async () => {
+    if (draftEntries.length === 0) return;
+    const negative = draftEntries.filter((e) => e.netPay < 0);
+    const pendingCheckIns = attendance.filter((r) => r.selfCheckInStatus === "pending").length;
+    const warning =
+      (negative.length ? `\n\n${negative.map((e) => e.employeeName).join(", ")} will have a negative net pay.` : "") +
+      (pendingCheckIns ? `\n\n${pendingCheckIns} self check-in(s) are still waiting for approval and won't be paid.` : "");
+    if (
+      !confirm(
+        `Finalize payroll for ${monthLabel}? ₹${totalNetPay.toLocaleString()} to ${draftEntries.length} worker(s).` +
+          `\nRecovered advances will be deducted in the upad ledger, the month's attendance and upads will be locked` +
+          ` and the run can't be changed afterwards.${warning}`
+      )
+    ) {
+      return;
+    }
+
+    setIsFinalizing(true);
+    try {
+      await finalizePayrollRun(month, draftEntries, payout, userName);
+      toast.success(`Payroll for ${monthLabel} saved`);
+    } catch (error) {
+      console.error("Error finalizing payroll:", error);
+      toast.error("Failed to finalize payroll");
+    } finally {
+      setIsFinalizing(false);
+    }
+  };
+
+  const handleLock = async () => {
+    if (!confirm(`Lock ${monthLabel}? Attendance and upads for the month can't be changed until it is reopened.`)) return;
+    try {
+      await lockMonth(month, userName);
+      toast.success(`${monthLabel} locked`);
+    } catch (error) {
+      console.error("Error locking month:", error);
+      toast.error("Failed to lock month");
+    }
+  };
+
+  const handleReopen = async () => {
+    const reason = prompt(`Why does ${monthLabel} need to be reopened? This is kept in the month's history.`);
+    if (reason === null) return;
+    if (!reason.trim()) {
+      toast.error("A reason is required to reopen a month");
+      return;
+    }
+    try {
+      await reopenMonth(month, userName, reason.trim());
+      toast.success(`${monthLabel} reopened`);
+    } catch (error) {
+      console.error("Error reopening month:", error);
+      toast.error("Failed to reopen month");
+    }
+  };
+
+  const handleDownloadSlip = async (entry: PayrollEntry) => {
+    if (!run) return;
+    try {
+      await downloadSalarySlipPdf(run, entry);
+    } catch (error) {
+      console.error("Error generating salary slip:", error);
+      toast.error("Failed to generate salary slip");
+    }
+  };
+
+  const formatPay = (amount: number) => `${amount < 0 ? "-" : ""}₹${Math.abs(amount).toLocaleString()}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle>{monthLabel}</CardTitle>
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            {lock?.locked && (
+              <Badge variant="outline" className="border-orange-600 text-orange-600">
+                <Lock className="mr-1 h-3 w-3" />
+                Locked
+              </Badge>
+            )}
+            {run ? (
+              <Badge variant="outline" className="border-green-600 text-green-600">
+                <CheckCircle className="mr-1 h-3 w-3" />
+                Paid on {format(parseISO(run.paidOn), "dd/MM/yyyy")}
+              </Badge>
+            ) : (
+              <Badge variant="secondary">Draft</Badge>
+            )}
+            {lock?.locked
+              ? can("months.reopen") && (
+                  <Button size="sm" variant="outline" onClick={handleReopen}>
+                    <LockOpen className="mr-1 h-3 w-3" />
+                    Reopen
+                  </Button>
+                )
+              : (
+                  <Button size="sm" variant="outline" onClick={handleLock}>
+                    <Lock className="mr-1 h-3 w-3" />
+                    Lock Month
+                  </Button>
+                )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries.length === 0 ? (
+          <p className="text-center text-muted-foreground py-6">No attendance or advances for this month</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Worker</TableHead>
+                  <TableHead className="text-right">Present</TableHead>
+                  <TableHead className="text-right">Half Day</TableHead>
+                  <TableHead className="text-right">Wage</TableHead>
+                  <TableHead className="text-right">Salary</TableHead>
+                  <TableHead className="text-right">Advances</TableHead>
+                  <TableHead className="text-right">Bonus</TableHead>
+                  <TableHead className="text-right">Deduction</TableHead>
+                  <TableHead className="text-right">Net Pay</TableHead>
+                  {run && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.employeeId}>
+                    <TableCell className="font-medium">{entry.employeeName}</TableCell>
+                    <TableCell className="text-right">{entry.presentDays}</TableCell>
+                    <TableCell className="text-right">{entry.halfDays}</TableCell>
+                    <TableCell className="text-right">₹{entry.dailyWage.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      ₹{entry.attendanceSalary.toLocaleString()}
+                      {entry.overtimePay ? (
+                        <div className="text-xs text-muted-foreground">
+                          incl. ₹{entry.overtimePay.toLocaleString()} OT ({entry.overtimeHours}h)
+                        </div>
+                      ) : null}
+                    </TableCell>
+                    <TableCell className="text-right text-red-600">
+                      {entry.advances > 0 ? `-₹${entry.advances.toLocaleString()}` : "-"}
+                      {entry.advanceBalance > entry.advances && (
+                        <div className="text-xs text-muted-foreground">
+                          ₹{(entry.advanceBalance - entry.advances).toLocaleString()} carried forward
+                        </div>
+                      )}
+                    </TableCell>
+                    {run ? (
+                      <>
+                        <TableCell className="text-right">{entry.bonus ? `₹${entry.bonus.toLocaleString()}` : "-"}</TableCell>
+                        <TableCell className="text-right">
+                          {entry.deduction ? `-₹${entry.deduction.toLocaleString()}` : "-"}
+                          {entry.deductionNote && (
+                            <div className="text-xs text-muted-foreground">{entry.deductionNote}</div>
+                          )}
+                        </TableCell>
+                      </>
+                    ) : (
+                      <>
+                        <TableCell className="text-right">
+                          <Input
+                            type="number"
+                            min="0"
+                            value={adjustments[entry.employeeId]?.bonus || ""}
+                            onChange={(e) => setAdjustment(entry.employeeId, "bonus", e.target.value)}
+                            className="w-24 ml-auto"
+                          />
+                        </TableCell>
+                        <TableCell className="text-right space-y-1">
+                          <Input
+                            type="number"
+                            min="0"
+                            value={adjustments[entry.employeeId]?.deduction || ""}
+                            onChange={(e) => setAdjustment(entry.employeeId, "deduction", e.target.value)}
+                            className="w-24 ml-auto"
+                          />
+                          {Number(adjustments[entry.employeeId]?.deduction) > 0 && (
+                            <Input
+                              placeholder="Reason"
+                              value={adjustments[entry.employeeId]?.deductionNote || ""}
+                              onChange={(e) => setAdjustment(entry.employeeId, "deductionNote", e.target.value)}
+                              className="w-32 ml-auto"
+                            />
+                          )}
+                        </TableCell>
+                      </>
+                    )}
+                    <TableCell className={`text-right font-bold ${entry.netPay >= 0 ? "text-green-600" : "text-red-600"}`}>
+                      {formatPay(entry.netPay)}
+                    </TableCell>
+                    {run && (
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="outline" onClick={() => handleDownloadSlip(entry)}>
+                          <Download className="mr-1 h-3 w-3" />
+                          Slip
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={8} className="text-right font-bold">
+                    Total
+                  </TableCell>
+                  <TableCell className="text-right font-bold">{formatPay(totalNetPay)}</TableCell>
+                  {run && <TableCell />}
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+
+        {!run && draftEntries.length > 0 && (
+          <div className="flex flex-wrap items-end gap-4 border-t pt-4">
+            <div className="space-y-1">
+              <Label htmlFor="paidOn">Paid On</Label>
+              <Input
+                id="paidOn"
+                type="date"
+                value={payout.paidOn}
+                onChange={(e) => setPayout({ ...payout, paidOn: e.target.value })}
+                className="w-44"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Paid By</Label>
+              <Select
+                value={payout.paymentMethod}
+                onValueChange={(value) => setPayout({ ...payout, paymentMethod: value as PayoutMethod })}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYOUT_METHODS.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleFinalize} disabled={isFinalizing || !payout.paidOn}>
+              {isFinalizing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+              Finalize & Pay
+            </Button>
+          </div>
+        )}
+
+        {lock?.history?.length ? (
+          <div className="border-t pt-4 space-y-1">
+            <p className="text-sm font-medium text-muted-foreground">Lock history</p>
+            {lock.history.map((event, index) => (
+              <div key={index} className="text-xs text-muted-foreground">
+                {format(event.at.toDate(), "dd/MM/yyyy HH:mm")} · {event.action === "lock" ? "Locked" : "Reopened"} by{" "}
+                {event.by || "unknown"}
+                {event.reason && `: ${event.reason}`}
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Payroll;
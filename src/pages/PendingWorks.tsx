@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
@@ -8,11 +9,19 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Clock, MapPin, Phone, DollarSign, Loader2, Trash2, Edit, CheckCircle, Share2 } from "lucide-react";
+import { Clock, MapPin, Phone, DollarSign, Loader2, Trash2, Edit, CheckCircle, Share2, IndianRupee } from "lucide-react";
 import { useFirestore } from "@/hooks/useFirestore";
-import { orderBy, collection, query, where, getDocs, deleteDoc } from "firebase/firestore";
+import { orderBy } from "firebase/firestore";
 import { toast } from "sonner";
-import { db } from "@/lib/firebase";
+import { upsertCustomer } from "@/lib/customers";
+import { BusinessSettings, getBusinessSettings, isValidGstin } from "@/lib/settings";
+import { buildUpiLink } from "@/lib/upi";
+import { getMembershipWorkKind, MembershipWorkKind } from "@/lib/works";
+import { deleteMembershipSignup, skipVisit } from "@/lib/visits";
+import { useAuth } from "@/hooks/useAuth";
+import { getAmountDue } from "@/lib/payments";
+import { RecordPaymentDialog } from "@/components/RecordPaymentDialog";
+import { PaymentStatusBadge } from "@/components/PaymentStatusBadge";
 
 interface PendingWork {
   id: string;
@@ -29,6 +38,13 @@ interface PendingWork {
   completedTime?: string;
   date: string;
   type?: string; // "membership" or "individual"
+  customerId?: string;
+  memberId?: string;
+  membershipWork?: MembershipWorkKind;
+  customerGstin?: string;
+  invoiceNumber?: string;
+  invoiceTotal?: number;
+  amountPaid?: number;
 }
 
 interface MembershipMember {
@@ -45,6 +61,7 @@ interface Employee {
 }
 
 const PendingWorks = () => {
+  const { can } = useAuth();
   const { data: employees } = useFirestore<Employee>("employees");
   const { data: works, loading, updateDocument, deleteDocument } = useFirestore<PendingWork>(
     "pendingWorks",
@@ -53,6 +70,13 @@ const PendingWorks = () => {
 
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedWork, setSelectedWork] = useState<PendingWork | null>(null);
+  const [payingWork, setPayingWork] = useState<PendingWork | null>(null);
+  const [businessSettings, setBusinessSettings] = useState<BusinessSettings | null>(null);
+
+  // Loaded up front so sharing doesn't wait on Firestore (browsers only allow share right after a click)
+  useEffect(() => {
+    getBusinessSettings().then(setBusinessSettings);
+  }, []);
   const [formData, setFormData] = useState<{
     customerName: string;
     contact: string;
@@ -64,6 +88,7 @@ const PendingWorks = () => {
     assignedTo: string;
     secondWorker: string;
     date: string;
+    customerGstin: string;
   }>({
     customerName: "",
     contact: "",
@@ -75,6 +100,7 @@ const PendingWorks = () => {
     assignedTo: "",
     secondWorker: "",
     date: new Date().toISOString().split('T')[0],
+    customerGstin: "",
   });
 
   const resetForm = () => {
@@ -89,44 +115,10 @@ const PendingWorks = () => {
       assignedTo: "",
       secondWorker: "",
       date: new Date().toISOString().split('T')[0],
+      customerGstin: "",
     });
   };
 
-  /**
-   * Delete related membership member if work type is membership
-   */
-  const deleteMembershipMember = async (work: PendingWork) => {
-    if (work.type !== "membership") {
-      return 0; // Not a membership, nothing to delete
-    }
-
-    try {
-      // Find membership member by matching name and contact
-      const membersRef = collection(db, "membershipMembers");
-      const q = query(
-        membersRef,
-        where("name", "==", work.customerName),
-        where("contact", "==", work.contact)
-      );
-      const snapshot = await getDocs(q);
-
-      if (snapshot.empty) {
-        console.log("No matching membership member found");
-        return 0;
-      }
-
-      // Delete all matching members (should be only one, but just in case)
-      const deletions = snapshot.docs.map(doc => deleteDoc(doc.ref));
-      await Promise.all(deletions);
-
-      console.log(`Deleted ${snapshot.size} membership member(s)`);
-      return snapshot.size;
-    } catch (error) {
-      console.error("Error deleting membership member:", error);
-      return 0;
-    }
-  };
-
   const handleEdit = (work: PendingWork) => {
     setSelectedWork(work);
     setFormData({
@@ -140,6 +132,7 @@ const PendingWorks = () => {
       assignedTo: work.assignedTo || "",
       secondWorker: work.secondWorker || "",
       date: work.date,
+      customerGstin: work.customerGstin || "",
     });
     setIsEditDialogOpen(true);
   };
@@ -147,8 +140,21 @@ const PendingWorks = () => {
   const handleUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedWork) return;
+    if (formData.customerGstin && !isValidGstin(formData.customerGstin)) {
+      toast.error("Please enter a valid GSTIN");
+      return;
+    }
     try {
-      await updateDocument(selectedWork.id, formData);
+      // Keep the customer record (and link) in sync with the edited details
+      const customerId = await upsertCustomer({
+        name: formData.customerName,
+        contact: formData.contact,
+        address: formData.address,
+      });
+      await updateDocument(selectedWork.id, {
+        ...formData,
+        ...(customerId ? { customerId } : {}),
+      });
       setIsEditDialogOpen(false);
       resetForm();
       setSelectedWork(null);
@@ -173,6 +179,18 @@ const PendingWorks = () => {
       const encodedAddress = encodeURIComponent(work.address);
       const googleMapsLink = `https://www.google.com/maps/search/?api=1&query=${encodedAddress}`;
 
+      // Let the customer pay straight from the message
+      const amountDue = getAmountDue(work);
+      const upiLink =
+        businessSettings?.upiVpa && amountDue > 0
+          ? buildUpiLink({
+              vpa: businessSettings.upiVpa,
+              payeeName: businessSettings.upiPayeeName,
+              amount: amountDue,
+              note: work.invoiceNumber ? `Invoice ${work.invoiceNumber}` : work.workType,
+            })
+          : "";
+
       const workDetails = `
 🏗️ Work Details from Safay Hub
 
@@ -192,6 +210,7 @@ ${work.description}
 
 ${assignedWorkers.length > 0 ? `👷 Assigned Workers:\n${assignedWorkers.map((w, i) => `${i + 1}. ${w}`).join('\n')}` : ''}
 ${work.startTime ? `\n⏱️ Started: ${format(new Date(work.startTime), "dd/MM/yyyy HH:mm")}` : ''}
+${upiLink ? `\n💳 Pay ₹${amountDue.toLocaleString()} via UPI (${businessSettings?.upiVpa}):\n${upiLink}` : ''}
 `.trim();
 
       if (navigator.share) {
@@ -213,11 +232,16 @@ ${work.startTime ? `\n⏱️ Started: ${format(new Date(work.startTime), "dd/MM/
   };
 
   const handleDelete = async (work: PendingWork) => {
+    const kind = work.type === "membership" ? getMembershipWorkKind(work) : null;
+    const removesMember = kind === "signup";
+
     // Build confirmation message
     let confirmMessage = `Are you sure you want to delete this work for ${work.customerName}?`;
     
-    if (work.type === "membership") {
-      confirmMessage += "\n\n⚠️ This will also delete the associated membership member!";
+    if (removesMember) {
+      confirmMessage += "\n\n⚠️ This will also delete the associated membership member and its upcoming visits!";
+    } else if (kind === "visit") {
+      confirmMessage += "\n\nThis visit will not be scheduled again.";
     }
     
     confirmMessage += "\n\nThis action cannot be undone.";
@@ -227,29 +251,40 @@ ${work.startTime ? `\n⏱️ Started: ${format(new Date(work.startTime), "dd/MM/
     }
 
     const deleteToast = toast.loading(
-      work.type === "membership" 
+      removesMember 
         ? `Deleting work and membership member...` 
         : `Deleting work...`
     );
 
     try {
-      // Delete membership member first if applicable
-      const memberDeleted = await deleteMembershipMember(work);
-
-      // Then delete the pending work
-      await deleteDocument(work.id);
-
-      // Show success message
-      if (work.type === "membership" && memberDeleted > 0) {
-        toast.success(`Successfully deleted pending work`, {
+      // A visit is skipped rather than just deleted, so the scheduler doesn't bring it back
+      if (kind === "visit" && work.memberId) {
+        await skipVisit({ id: work.id, memberId: work.memberId, date: work.date });
+        toast.success("Successfully deleted visit", {
           id: deleteToast,
-          description: `Also deleted ${memberDeleted} membership member(s)`
+          description: "It won't be scheduled again",
         });
-      } else {
-        toast.success("Successfully deleted pending work", {
+        return;
+      }
+
+      // Deleting a signup removes its membership, and the visits still to do, with it
+      if (removesMember) {
+        const deleted = await deleteMembershipSignup(work);
+        const visits = `${deleted.visits} visit${deleted.visits === 1 ? "" : "s"} still to do`;
+        toast.success(`Successfully deleted pending work`, {
           id: deleteToast,
+          description:
+            deleted.members > 0
+              ? `Also deleted the membership member and its ${visits}`
+              : "No membership member was found for it",
         });
+        return;
       }
+
+      await deleteDocument(work.id);
+      toast.success("Successfully deleted pending work", {
+        id: deleteToast,
+      });
     } catch (error) {
       console.error("Error deleting work:", error);
       toast.error("Failed to delete work. Please try again.", {
@@ -338,6 +373,16 @@ ${work.startTime ? `\n⏱️ Started: ${format(new Date(work.startTime), "dd/MM/
         />
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="customerGstin">Customer GSTIN (optional)</Label>
+        <Input
+          id="customerGstin"
+          maxLength={15}
+          value={formData.customerGstin}
+          onChange={(e) => setFormData({ ...formData, customerGstin: e.target.value.toUpperCase() })}
+        />
+      </div>
+
       <div className="grid gap-4 md:grid-cols-2">
         <div className="space-y-2">
           <Label htmlFor="workType">Work Type</Label>
@@ -470,7 +515,15 @@ ${work.startTime ? `\n⏱️ Started: ${format(new Date(work.startTime), "dd/MM/
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
                       <div className="flex items-center gap-2">
-                        <CardTitle className="text-xl">{work.customerName}</CardTitle>
+                        <CardTitle className="text-xl">
+                          {work.customerId && can("customers.view") ? (
+                            <Link to={`/customers/${work.customerId}`} className="hover:underline">
+                              {work.customerName}
+                            </Link>
+                          ) : (
+                            work.customerName
+                          )}
+                        </CardTitle>
                         {work.type && (
                           <Badge variant={work.type === "membership" ? "default" : "secondary"} className="text-xs">
                             {work.type === "membership" ? "👑 Membership" : "📋 Individual"}
@@ -480,11 +533,14 @@ ${work.startTime ? `\n⏱️ Started: ${format(new Date(work.startTime), "dd/MM/
                       </div>
                       <p className="text-sm text-muted-foreground mt-1">{work.workType}</p>
                     </div>
-                    <Badge variant={getStatusBadge(work.status) as any}>
-                      <span className={getStatusColor(work.status)}>
-                        {work.status.replace("-", " ").toUpperCase()}
-                      </span>
-                    </Badge>
+                    <div className="flex flex-col items-end gap-1">
+                      <Badge variant={getStatusBadge(work.status) as any}>
+                        <span className={getStatusColor(work.status)}>
+                          {work.status.replace("-", " ").toUpperCase()}
+                        </span>
+                      </Badge>
+                      {can("payments.view") && !!work.amountPaid && <PaymentStatusBadge work={work} />}
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-3">
@@ -541,7 +597,7 @@ ${work.startTime ? `\n⏱️ Started: ${format(new Date(work.startTime), "dd/MM/
                     </div>
                   )}
                   <div className="flex gap-2 pt-2 flex-wrap">
-                    {work.status !== "completed" && (
+                    {work.status !== "completed" && can("works.status") && (
                       <Button
                         size="sm"
                         variant="default"
@@ -551,18 +607,28 @@ ${work.startTime ? `\n⏱️ Started: ${format(new Date(work.startTime), "dd/MM/
                         {work.status === "pending" ? "Start Work" : "Complete"}
                       </Button>
                     )}
-                    <Button size="sm" variant="outline" onClick={() => handleEdit(work)}>
-                      <Edit className="mr-1 h-3 w-3" />
-                      Edit
-                    </Button>
+                    {can("works.edit") && (
+                      <Button size="sm" variant="outline" onClick={() => handleEdit(work)}>
+                        <Edit className="mr-1 h-3 w-3" />
+                        Edit
+                      </Button>
+                    )}
+                    {can("payments.record") && getAmountDue(work) > 0 && (
+                      <Button size="sm" variant="outline" onClick={() => setPayingWork(work)}>
+                        <IndianRupee className="mr-1 h-3 w-3" />
+                        Record Payment
+                      </Button>
+                    )}
                     <Button size="sm" variant="secondary" onClick={() => handleShare(work)}>
                       <Share2 className="mr-1 h-3 w-3" />
                       Share
                     </Button>
-                    <Button size="sm" variant="destructive" onClick={() => handleDelete(work)}>
-                      <Trash2 className="mr-1 h-3 w-3" />
-                      Delete
-                    </Button>
+                    {can("works.delete") && (
+                      <Button size="sm" variant="destructive" onClick={() => handleDelete(work)}>
+                        <Trash2 className="mr-1 h-3 w-3" />
+                        Delete
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -582,6 +648,8 @@ ${work.startTime ? `\n⏱️ Started: ${format(new Date(work.startTime), "dd/MM/
         </>
       )}
 
+      <RecordPaymentDialog work={payingWork} onOpenChange={(open) => !open && setPayingWork(null)} />
+
       {/* Edit Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
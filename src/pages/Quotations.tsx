@@ -0,0 +1,568 @@
+import { useState } from "react";
+import { addDays, format } from "date-fns";
+import { orderBy } from "firebase/firestore";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, Download, Edit, Loader2, MapPin, Phone, Plus, Send, Trash2, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { useFirestore } from "@/hooks/useFirestore";
+import { useServices } from "@/hooks/useServices";
+import { useAuth } from "@/hooks/useAuth";
+import { getCustomerByPhone, normalizePhone } from "@/lib/customers";
+import {
+  acceptQuotation,
+  calculateQuoteTotals,
+  getItemAmount,
+  getQuoteNumber,
+  Quotation,
+  QUOTATION_STATUS_LABELS,
+  QuotationStatus,
+} from "@/lib/quotations";
+import { downloadQuotationPdf } from "@/lib/quotationPdf";
+import { SERVICE_UNITS, ServiceUnit } from "@/lib/services";
+
+interface ItemForm {
+  description: string;
+  serviceId: string;
+  quantity: string;
+  unit: ServiceUnit;
+  rate: string;
+}
+
+const CUSTOM_SERVICE = "custom";
+
+const emptyItem = (): ItemForm => ({
+  description: "",
+  serviceId: CUSTOM_SERVICE,
+  quantity: "1",
+  unit: "flat",
+  rate: "",
+});
+
+const emptyForm = () => ({
+  customerName: "",
+  contact: "",
+  address: "",
+  date: format(new Date(), "yyyy-MM-dd"),
+  validUntil: format(addDays(new Date(), 15), "yyyy-MM-dd"),
+  discount: "",
+  taxRate: "",
+  notes: "",
+  items: [emptyItem()],
+});
+
+const Quotations = () => {
+  const { can } = useAuth();
+  const { services } = useServices();
+  const { data: quotations, loading, addDocument, updateDocument } = useFirestore<Quotation>(
+    "quotations",
+    orderBy("createdAt", "desc")
+  );
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const itemsForTotals = formData.items.map((item) => ({ quantity: Number(item.quantity), rate: Number(item.rate) }));
+  const totals = calculateQuoteTotals(itemsForTotals, Number(formData.discount), Number(formData.taxRate));
+
+  const openNew = () => {
+    setEditingId(null);
+    setFormData(emptyForm());
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (quote: Quotation) => {
+    setEditingId(quote.id);
+    setFormData({
+      customerName: quote.customerName,
+      contact: quote.contact,
+      address: quote.address,
+      date: quote.date,
+      validUntil: quote.validUntil || "",
+      discount: quote.discount ? String(quote.discount) : "",
+      taxRate: quote.taxRate ? String(quote.taxRate) : "",
+      notes: quote.notes || "",
+      items: quote.items.map((item) => ({
+        description: item.description,
+        serviceId: item.serviceId || CUSTOM_SERVICE,
+        quantity: String(item.quantity),
+        unit: item.unit,
+        rate: String(item.rate),
+      })),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const updateItem = (index: number, changes: Partial<ItemForm>) => {
+    setFormData({
+      ...formData,
+      items: formData.items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    });
+  };
+
+  const handleServiceChange = (index: number, serviceId: string) => {
+    const service = services.find((s) => s.id === serviceId);
+    if (!service) {
+      updateItem(index, { serviceId });
+      return;
+    }
+    updateItem(index, {
+      serviceId,
+      description: service.nameGu,
+      unit: service.unit,
+      rate: service.defaultRate ? String(service.defaultRate) : formData.items[index].rate,
+    });
+  };
+
+  // Fill in the customer when a known phone number is typed
+  const handleContactBlur = async () => {
+    if (!normalizePhone(formData.contact) || formData.customerName) return;
+    const customer = await getCustomerByPhone(formData.contact);
+    if (customer) {
+      setFormData((current) => ({
+        ...current,
+        customerName: current.customerName || customer.name,
+        address: current.address || customer.address,
+      }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const items = formData.items
+      .filter((item) => item.description.trim() && Number(item.quantity) > 0)
+      .map((item) => ({
+        description: item.description.trim(),
+        ...(item.serviceId !== CUSTOM_SERVICE ? { serviceId: item.serviceId } : {}),
+        quantity: Number(item.quantity),
+        unit: item.unit,
+        rate: Number(item.rate) || 0,
+        amount: getItemAmount({ quantity: Number(item.quantity), rate: Number(item.rate) }),
+      }));
+
+    if (items.length === 0) {
+      toast.error("Add at least one line item");
+      return;
+    }
+
+    const discount = Number(formData.discount) || 0;
+    const taxRate = Number(formData.taxRate) || 0;
+    const quoteData = {
+      customerName: formData.customerName.trim(),
+      contact: formData.contact.trim(),
+      address: formData.address.trim(),
+      date: formData.date,
+      validUntil: formData.validUntil,
+      items,
+      discount,
+      taxRate,
+      ...calculateQuoteTotals(items, discount, taxRate),
+      notes: formData.notes.trim(),
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await updateDocument(editingId, quoteData);
+      } else {
+        await addDocument({ ...quoteData, status: "draft" as QuotationStatus });
+      }
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error("Error saving quotation:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDownload = async (quote: Quotation) => {
+    setBusyId(quote.id);
+    try {
+      await downloadQuotationPdf(quote);
+      toast.success("Quotation downloaded");
+    } catch (error) {
+      console.error("Failed to generate quotation PDF:", error);
+      toast.error("Failed to generate quotation. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAccept = async (quote: Quotation) => {
+    // Schedule the work for the quote date, or today if that has passed
+    const today = format(new Date(), "yyyy-MM-dd");
+    const workDate = quote.date > today ? quote.date : today;
+    if (!confirm(`Accept quotation for ${quote.customerName}? A pending work of ₹${quote.total.toLocaleString()} will be created for ${workDate}.`)) {
+      return;
+    }
+
+    setBusyId(quote.id);
+    try {
+      await acceptQuotation(quote, workDate);
+      toast.success("Quotation accepted", { description: "The work has been added to Pending Works" });
+    } catch (error) {
+      console.error("Error accepting quotation:", error);
+      toast.error("Failed to accept quotation", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleStatusChange = async (quote: Quotation, status: QuotationStatus) => {
+    try {
+      await updateDocument(quote.id, { status });
+    } catch (error) {
+      console.error("Error updating quotation:", error);
+    }
+  };
+
+  const getStatusVariant = (status: QuotationStatus) => {
+    if (status === "accepted") return "default";
+    if (status === "rejected") return "destructive";
+    if (status === "sent") return "secondary";
+    return "outline";
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Quotations</h1>
+          <p className="text-muted-foreground mt-1">Prepare quotes with line items and turn accepted ones into works</p>
+        </div>
+        <Button onClick={openNew}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Quotation
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : quotations.length > 0 ? (
+        <div className="grid gap-4">
+          {quotations.map((quote) => {
+            const isOpen = quote.status === "draft" || quote.status === "sent";
+            return (
+              <Card key={quote.id} className="hover:shadow-lg transition-shadow">
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <CardTitle className="text-xl">{quote.customerName}</CardTitle>
+                        <Badge variant={getStatusVariant(quote.status)}>{QUOTATION_STATUS_LABELS[quote.status]}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {getQuoteNumber(quote)} · {format(new Date(quote.date), "dd MMM yyyy")}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-2xl font-bold text-primary">₹{quote.total.toLocaleString()}</div>
+                      <p className="text-xs text-muted-foreground">
+                        {quote.items.length} item{quote.items.length !== 1 ? "s" : ""}
+                      </p>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Phone className="h-4 w-4" />
+                      {quote.contact}
+                    </span>
+                    {quote.address && (
+                      <span className="flex items-center gap-1">
+                        <MapPin className="h-4 w-4" />
+                        {quote.address}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-sm space-y-1">
+                    {quote.items.map((item, index) => (
+                      <div key={index} className="flex justify-between">
+                        <span>
+                          {item.description} × {item.quantity} @ ₹{item.rate.toLocaleString()}
+                        </span>
+                        <span>₹{item.amount.toLocaleString()}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-2 pt-2">
+                    <Button variant="outline" size="sm" onClick={() => handleDownload(quote)} disabled={busyId === quote.id}>
+                      <Download className="h-4 w-4 mr-1" />
+                      PDF
+                    </Button>
+                    {isOpen && (
+                      <Button variant="outline" size="sm" onClick={() => openEdit(quote)}>
+                        <Edit className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                    )}
+                    {quote.status === "draft" && (
+                      <Button variant="outline" size="sm" onClick={() => handleStatusChange(quote, "sent")}>
+                        <Send className="h-4 w-4 mr-1" />
+                        Mark Sent
+                      </Button>
+                    )}
+                    {isOpen && can("works.create") && (
+                      <Button size="sm" onClick={() => handleAccept(quote)} disabled={busyId === quote.id}>
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Accept
+                      </Button>
+                    )}
+                    {isOpen && (
+                      <Button variant="destructive" size="sm" onClick={() => handleStatusChange(quote, "rejected")}>
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="py-10 text-center">
+            <p className="text-muted-foreground">No quotations yet</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Quotation" : "New Quotation"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="quoteContact">Contact</Label>
+                <Input
+                  id="quoteContact"
+                  value={formData.contact}
+                  onChange={(e) => setFormData({ ...formData, contact: e.target.value })}
+                  onBlur={handleContactBlur}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quoteName">Customer Name</Label>
+                <Input
+                  id="quoteName"
+                  value={formData.customerName}
+                  onChange={(e) => setFormData({ ...formData, customerName: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quoteAddress">Address</Label>
+              <Input
+                id="quoteAddress"
+                value={formData.address}
+                onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="quoteDate">Quote Date</Label>
+                <Input
+                  id="quoteDate"
+                  type="date"
+                  value={formData.date}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quoteValid">Valid Until</Label>
+                <Input
+                  id="quoteValid"
+                  type="date"
+                  value={formData.validUntil}
+                  onChange={(e) => setFormData({ ...formData, validUntil: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Line Items</Label>
+              {formData.items.map((item, index) => (
+                <div key={index} className="grid gap-2 rounded-md border p-3 md:grid-cols-12 md:items-end">
+                  <div className="space-y-1 md:col-span-3">
+                    <span className="text-xs text-muted-foreground">Service</span>
+                    <Select value={item.serviceId} onValueChange={(value) => handleServiceChange(index, value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={CUSTOM_SERVICE}>Custom item</SelectItem>
+                        {services.map((service) => (
+                          <SelectItem key={service.id} value={service.id}>
+                            {service.nameGu}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1 md:col-span-3">
+                    <span className="text-xs text-muted-foreground">Description</span>
+                    <Input
+                      value={item.description}
+                      onChange={(e) => updateItem(index, { description: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-1 md:col-span-2">
+                    <span className="text-xs text-muted-foreground">
+                      {SERVICE_UNITS.find((unit) => unit.value === item.unit)?.quantityLabel}
+                    </span>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={item.quantity}
+                      onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-1 md:col-span-2">
+                    <span className="text-xs text-muted-foreground">Rate (₹)</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={item.rate}
+                      onChange={(e) => updateItem(index, { rate: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-2 md:col-span-2">
+                    <span className="text-sm font-medium">
+                      ₹{getItemAmount({ quantity: Number(item.quantity), rate: Number(item.rate) }).toLocaleString()}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={formData.items.length === 1}
+                      onClick={() => setFormData({ ...formData, items: formData.items.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {item.serviceId === CUSTOM_SERVICE && (
+                    <div className="space-y-1 md:col-span-3">
+                      <span className="text-xs text-muted-foreground">Unit</span>
+                      <Select value={item.unit} onValueChange={(value) => updateItem(index, { unit: value as ServiceUnit })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SERVICE_UNITS.map((unit) => (
+                            <SelectItem key={unit.value} value={unit.value}>
+                              {unit.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setFormData({ ...formData, items: [...formData.items, emptyItem()] })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Line
+              </Button>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="quoteDiscount">Discount (₹)</Label>
+                <Input
+                  id="quoteDiscount"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={formData.discount}
+                  onChange={(e) => setFormData({ ...formData, discount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quoteTax">Tax (%)</Label>
+                <Input
+                  id="quoteTax"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={formData.taxRate}
+                  onChange={(e) => setFormData({ ...formData, taxRate: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="quoteNotes">Notes</Label>
+              <Textarea
+                id="quoteNotes"
+                rows={2}
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              />
+            </div>
+
+            <div className="rounded-md bg-muted p-3 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span>Subtotal</span>
+                <span>₹{totals.subtotal.toLocaleString()}</span>
+              </div>
+              {Number(formData.discount) > 0 && (
+                <div className="flex justify-between">
+                  <span>Discount</span>
+                  <span>- ₹{Number(formData.discount).toLocaleString()}</span>
+                </div>
+              )}
+              {Number(formData.taxRate) > 0 && (
+                <div className="flex justify-between">
+                  <span>Tax ({formData.taxRate}%)</span>
+                  <span>₹{totals.taxAmount.toLocaleString()}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-bold text-base">
+                <span>Total</span>
+                <span>₹{totals.total.toLocaleString()}</span>
+              </div>
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingId ? "Save Quotation" : "Create Quotation"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Quotations;
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react";
+import { orderBy } from "firebase/firestore";
+import { useFirestore } from "@/hooks/useFirestore";
+import { getUnitLabel, Service, SERVICE_UNITS, ServiceUnit } from "@/lib/services";
+import { DEFAULT_SAC_CODE } from "@/lib/settings";
+
+const emptyForm = {
+  nameGu: "",
+  nameEn: "",
+  defaultRate: "",
+  unit: "flat" as ServiceUnit,
+  sacCode: DEFAULT_SAC_CODE,
+};
+
+const Services = () => {
+  const { data: services, loading, addDocument, updateDocument, deleteDocument } = useFirestore<Service>(
+    "services",
+    orderBy("nameEn")
+  );
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+  };
+
+  const handleEdit = (service: Service) => {
+    setEditingId(service.id);
+    setFormData({
+      nameGu: service.nameGu,
+      nameEn: service.nameEn,
+      defaultRate: String(service.defaultRate ?? ""),
+      unit: service.unit,
+      sacCode: service.sacCode || "",
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    const serviceData = {
+      nameGu: formData.nameGu.trim(),
+      nameEn: formData.nameEn.trim(),
+      defaultRate: Number(formData.defaultRate) || 0,
+      unit: formData.unit,
+      sacCode: formData.sacCode.trim(),
+    };
+
+    try {
+      if (editingId) {
+        await updateDocument(editingId, serviceData);
+      } else {
+        await addDocument({ ...serviceData, active: true });
+      }
+      resetForm();
+    } catch (error) {
+      console.error("Error saving service:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (service: Service) => {
+    if (!confirm(`Delete ${service.nameEn}? Existing works keep their service name.`)) return;
+    try {
+      await deleteDocument(service.id);
+      if (editingId === service.id) resetForm();
+    } catch (error) {
+      console.error("Error deleting service:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Services</h1>
+        <p className="text-muted-foreground mt-1">Work types and default rates offered in the Contact Form</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? "Edit Service" : "Add Service"}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="nameGu">Name (Gujarati)</Label>
+                <Input
+                  id="nameGu"
+                  value={formData.nameGu}
+                  onChange={(e) => setFormData({ ...formData, nameGu: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="nameEn">Name (English)</Label>
+                <Input
+                  id="nameEn"
+                  value={formData.nameEn}
+                  onChange={(e) => setFormData({ ...formData, nameEn: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="defaultRate">Default Rate (₹)</Label>
+                <Input
+                  id="defaultRate"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.defaultRate}
+                  onChange={(e) => setFormData({ ...formData, defaultRate: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Unit</Label>
+                <Select
+                  value={formData.unit}
+                  onValueChange={(value) => setFormData({ ...formData, unit: value as ServiceUnit })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SERVICE_UNITS.map((unit) => (
+                      <SelectItem key={unit.value} value={unit.value}>
+                        {unit.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sacCode">SAC Code</Label>
+                <Input
+                  id="sacCode"
+                  inputMode="numeric"
+                  maxLength={6}
+                  value={formData.sacCode}
+                  onChange={(e) => setFormData({ ...formData, sacCode: e.target.value.replace(/\D/g, "") })}
+                  placeholder={DEFAULT_SAC_CODE}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                {editingId ? "Save Changes" : "Add Service"}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Services</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-10">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : services.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Service</TableHead>
+                  <TableHead>Default Rate</TableHead>
+                  <TableHead>SAC</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {services.map((service) => (
+                  <TableRow key={service.id}>
+                    <TableCell>
+                      <div className="font-medium">{service.nameGu}</div>
+                      <div className="text-xs text-muted-foreground">{service.nameEn}</div>
+                    </TableCell>
+                    <TableCell>
+                      ₹{Number(service.defaultRate || 0).toLocaleString()}{" "}
+                      <span className="text-xs text-muted-foreground">{getUnitLabel(service.unit).toLowerCase()}</span>
+                    </TableCell>
+                    <TableCell>{service.sacCode || "-"}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={service.active !== false}
+                        onCheckedChange={(active) => updateDocument(service.id, { active })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(service)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => handleDelete(service)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center text-muted-foreground py-6">No services yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Services;
@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Save } from "lucide-react";
+import { toast } from "sonner";
+import {
+  BusinessSettings,
+  DEFAULT_BUSINESS_SETTINGS,
+  getBusinessSettings,
+  getGstinStateCode,
+  isValidGstin,
+  saveBusinessSettings,
+} from "@/lib/settings";
+import { isValidUpiVpa } from "@/lib/upi";
+
+const Settings = () => {
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    ...DEFAULT_BUSINESS_SETTINGS,
+    gstRate: String(DEFAULT_BUSINESS_SETTINGS.gstRate),
+    shiftHours: String(DEFAULT_BUSINESS_SETTINGS.shiftHours),
+    overtimeRate: String(DEFAULT_BUSINESS_SETTINGS.overtimeRate),
+    sickLeavePerYear: String(DEFAULT_BUSINESS_SETTINGS.sickLeavePerYear),
+    casualLeavePerYear: String(DEFAULT_BUSINESS_SETTINGS.casualLeavePerYear),
+  });
+
+  useEffect(() => {
+    getBusinessSettings()
+      .then((settings) =>
+        setFormData({
+          ...settings,
+          gstRate: String(settings.gstRate),
+          shiftHours: String(settings.shiftHours),
+          overtimeRate: String(settings.overtimeRate),
+          sickLeavePerYear: String(settings.sickLeavePerYear),
+          casualLeavePerYear: String(settings.casualLeavePerYear),
+        })
+      )
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleGstinChange = (value: string) => {
+    const gstin = value.toUpperCase();
+    // The first two digits of a GSTIN are the state code
+    const stateCode = getGstinStateCode(gstin);
+    setFormData({ ...formData, gstin, ...(stateCode.length === 2 ? { stateCode } : {}) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const gstin = formData.gstin.trim().toUpperCase();
+    if (gstin && !isValidGstin(gstin)) {
+      toast.error("Please enter a valid GSTIN");
+      return;
+    }
+    const upiVpa = formData.upiVpa.trim();
+    if (upiVpa && !isValidUpiVpa(upiVpa)) {
+      toast.error("Please enter a valid UPI ID, e.g. name@okaxis");
+      return;
+    }
+
+    const shiftHours = Number(formData.shiftHours);
+    if (!shiftHours || shiftHours <= 0 || shiftHours > 24) {
+      toast.error("Please enter a shift length between 1 and 24 hours");
+      return;
+    }
+
+    const settings: BusinessSettings = {
+      gstin,
+      stateName: formData.stateName.trim(),
+      stateCode: formData.stateCode.trim(),
+      gstRate: Number(formData.gstRate) || 0,
+      pricesIncludeGst: formData.pricesIncludeGst,
+      upiVpa,
+      upiPayeeName: formData.upiPayeeName.trim(),
+      shiftStart: formData.shiftStart || DEFAULT_BUSINESS_SETTINGS.shiftStart,
+      shiftHours,
+      overtimeRate: Number(formData.overtimeRate) || 0,
+      sickLeavePerYear: Number(formData.sickLeavePerYear) || 0,
+      casualLeavePerYear: Number(formData.casualLeavePerYear) || 0,
+    };
+
+    setIsSaving(true);
+    try {
+      await saveBusinessSettings(settings);
+      toast.success("Settings saved");
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      toast.error("Failed to save settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Settings</h1>
+        <p className="text-muted-foreground mt-1">Business details printed on bills and quotations, and attendance rules</p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>GST</CardTitle>
+              <CardDescription>
+                Once a GSTIN is saved, every new bill is issued as a tax invoice with the CGST/SGST (or IGST) breakdown.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="gstin">GSTIN</Label>
+                  <Input
+                    id="gstin"
+                    maxLength={15}
+                    value={formData.gstin}
+                    onChange={(e) => handleGstinChange(e.target.value)}
+                    placeholder="e.g. 24ABCDE1234F1Z5"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="gstRate">GST Rate (%)</Label>
+                  <Input
+                    id="gstRate"
+                    type="number"
+                    min="0"
+                    max="28"
+                    step="0.01"
+                    value={formData.gstRate}
+                    onChange={(e) => setFormData({ ...formData, gstRate: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="stateName">State</Label>
+                  <Input
+                    id="stateName"
+                    value={formData.stateName}
+                    onChange={(e) => setFormData({ ...formData, stateName: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="stateCode">State Code</Label>
+                  <Input
+                    id="stateCode"
+                    inputMode="numeric"
+                    maxLength={2}
+                    value={formData.stateCode}
+                    onChange={(e) => setFormData({ ...formData, stateCode: e.target.value.replace(/\D/g, "") })}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between rounded-lg border p-4">
+                <div>
+                  <Label htmlFor="pricesIncludeGst">Rates include GST</Label>
+                  <p className="text-sm text-muted-foreground">
+                    When on, GST is worked out of the work amount instead of being added on top.
+                  </p>
+                </div>
+                <Switch
+                  id="pricesIncludeGst"
+                  checked={formData.pricesIncludeGst}
+                  onCheckedChange={(pricesIncludeGst) => setFormData({ ...formData, pricesIncludeGst })}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>UPI Payments</CardTitle>
+              <CardDescription>
+                New bills get a QR code for their total, and shared work details get a payment link for the
+                amount still due. Bills already issued keep the UPI ID they were issued with.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="upiVpa">UPI ID</Label>
+                  <Input
+                    id="upiVpa"
+                    value={formData.upiVpa}
+                    onChange={(e) => setFormData({ ...formData, upiVpa: e.target.value })}
+                    placeholder="e.g. safay@okaxis"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="upiPayeeName">Payee Name</Label>
+                  <Input
+                    id="upiPayeeName"
+                    value={formData.upiPayeeName}
+                    onChange={(e) => setFormData({ ...formData, upiPayeeName: e.target.value })}
+                    required={!!formData.upiVpa}
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Attendance, Overtime & Leave</CardTitle>
+              <CardDescription>
+                Hours worked beyond the shift length are overtime, paid per hour at the daily wage divided by the
+                shift length, times the overtime rate. Changes apply to attendance marked from now on. Sick and
+                casual leave are paid, up to the yearly allowance per worker.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="shiftStart">Shift Starts At</Label>
+                  <Input
+                    id="shiftStart"
+                    type="time"
+                    value={formData.shiftStart}
+                    onChange={(e) => setFormData({ ...formData, shiftStart: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="shiftHours">Shift Length (hours)</Label>
+                  <Input
+                    id="shiftHours"
+                    type="number"
+                    min="1"
+                    max="24"
+                    step="0.5"
+                    value={formData.shiftHours}
+                    onChange={(e) => setFormData({ ...formData, shiftHours: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="overtimeRate">Overtime Rate (× hourly wage)</Label>
+                  <Input
+                    id="overtimeRate"
+                    type="number"
+                    min="0"
+                    step="0.25"
+                    value={formData.overtimeRate}
+                    onChange={(e) => setFormData({ ...formData, overtimeRate: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sickLeavePerYear">Sick Leave (days / year)</Label>
+                  <Input
+                    id="sickLeavePerYear"
+                    type="number"
+                    min="0"
+                    value={formData.sickLeavePerYear}
+                    onChange={(e) => setFormData({ ...formData, sickLeavePerYear: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="casualLeavePerYear">Casual Leave (days / year)</Label>
+                  <Input
+                    id="casualLeavePerYear"
+                    type="number"
+                    min="0"
+                    value={formData.casualLeavePerYear}
+                    onChange={(e) => setFormData({ ...formData, casualLeavePerYear: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Settings
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default Settings;
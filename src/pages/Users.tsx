@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, UserPlus } from "lucide-react";
+import { FirebaseError } from "firebase/app";
+import { toast } from "sonner";
+import { useFirestore } from "@/hooks/useFirestore";
+import { useAuth, UserProfile } from "@/hooks/useAuth";
+import { createUserAccount } from "@/lib/userAccounts";
+import { Role, ROLES, ROLE_LABELS } from "@/lib/permissions";
+
+interface Employee {
+  id: string;
+  name: string;
+}
+
+const NO_EMPLOYEE = "none";
+
+const Users = () => {
+  const { user } = useAuth();
+  const { data: users, loading, updateDocument } = useFirestore<UserProfile>("users");
+  const { data: employees } = useFirestore<Employee>("employees");
+
+  const [isCreating, setIsCreating] = useState(false);
+  const [formData, setFormData] = useState({
+    name: "",
+    email: "",
+    password: "",
+    role: "supervisor" as Role,
+    employeeId: NO_EMPLOYEE,
+  });
+
+  const resetForm = () => {
+    setFormData({
+      name: "",
+      email: "",
+      password: "",
+      role: "supervisor",
+      employeeId: NO_EMPLOYEE,
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.password.length < 6) {
+      toast.error("Password must be at least 6 characters");
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      await createUserAccount({
+        name: formData.name,
+        email: formData.email,
+        password: formData.password,
+        role: formData.role,
+        employeeId: formData.employeeId !== NO_EMPLOYEE ? formData.employeeId : undefined,
+      });
+      toast.success(`Login created for ${formData.name}`);
+      resetForm();
+    } catch (err) {
+      if (err instanceof FirebaseError && err.code === "auth/email-already-in-use") {
+        toast.error("An account with this email already exists");
+      } else {
+        toast.error("Failed to create user. Please try again.");
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRoleChange = async (profile: UserProfile, role: Role) => {
+    try {
+      await updateDocument(profile.id, { role });
+    } catch (err) {
+      console.error("Error changing role:", err);
+    }
+  };
+
+  const handleEmployeeChange = async (profile: UserProfile, employeeId: string) => {
+    try {
+      await updateDocument(profile.id, { employeeId: employeeId !== NO_EMPLOYEE ? employeeId : "" });
+    } catch (err) {
+      console.error("Error linking employee:", err);
+    }
+  };
+
+  const handleActiveChange = async (profile: UserProfile, active: boolean) => {
+    try {
+      await updateDocument(profile.id, { active });
+    } catch (err) {
+      console.error("Error changing user status:", err);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Users & Roles</h1>
+        <p className="text-muted-foreground mt-1">Manage who can login and what they can do</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add User</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="userName">Name</Label>
+                <Input
+                  id="userName"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="userEmail">Email</Label>
+                <Input
+                  id="userEmail"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="userPassword">Password</Label>
+                <Input
+                  id="userPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  value={formData.password}
+                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select
+                  value={formData.role}
+                  onValueChange={(value) => setFormData({ ...formData, role: value as Role })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.role === "field-worker" && (
+                <div className="space-y-2">
+                  <Label>Linked Employee</Label>
+                  <Select
+                    value={formData.employeeId}
+                    onValueChange={(value) => setFormData({ ...formData, employeeId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select employee" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_EMPLOYEE}>Not linked</SelectItem>
+                      {employees.map((employee) => (
+                        <SelectItem key={employee.id} value={employee.id}>
+                          {employee.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <Button type="submit" disabled={isCreating}>
+              {isCreating ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                <>
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  Create Login
+                </>
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Users</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-10">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : users.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Linked Employee</TableHead>
+                  <TableHead>Active</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((profile) => {
+                  // Owners can't demote or disable themselves and lock everyone out
+                  const isSelf = profile.id === user?.uid;
+                  return (
+                    <TableRow key={profile.id}>
+                      <TableCell className="font-medium">
+                        {profile.name}
+                        {isSelf && <Badge variant="outline" className="ml-2">You</Badge>}
+                      </TableCell>
+                      <TableCell>{profile.email}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={profile.role}
+                          onValueChange={(value) => handleRoleChange(profile, value as Role)}
+                          disabled={isSelf}
+                        >
+                          <SelectTrigger className="w-[160px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {profile.role === "field-worker" ? (
+                          <Select
+                            value={profile.employeeId || NO_EMPLOYEE}
+                            onValueChange={(value) => handleEmployeeChange(profile, value)}
+                          >
+                            <SelectTrigger className="w-[180px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_EMPLOYEE}>Not linked</SelectItem>
+                              {employees.map((employee) => (
+                                <SelectItem key={employee.id} value={employee.id}>
+                                  {employee.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={profile.active !== false}
+                          onCheckedChange={(checked) => handleActiveChange(profile, checked)}
+                          disabled={isSelf}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-10 text-muted-foreground">No users yet</div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Users;
@@ -0,0 +1,62 @@
+/**
+ * Firebase emulator helpers for tests
+ * Talks to the emulators' REST APIs directly, so test data can be set up without going
+ * through the security rules. Suites using these are skipped when the emulators aren't running.
+ */
+
+export const PROJECT_ID = "demo-safay";
+const API_KEY = "demo-api-key";
+
+const authHost = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+const firestoreHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+export const emulatorsRunning = !!authHost && !!firestoreHost;
+
+const request = async (url: string, init: RequestInit = {}) => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`${init.method || "GET"} ${url} failed: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+};
+
+/**
+ * Remove every account and document from the emulators
+ */
+export const clearEmulators = async () => {
+  await request(`http://${authHost}/emulator/v1/projects/${PROJECT_ID}/accounts`, { method: "DELETE" });
+  await request(`http://${firestoreHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`, {
+    method: "DELETE",
+  });
+};
+
+/**
+ * Create an email/password account in the Auth emulator
+ * @returns The new user's uid
+ */
+export const createAuthUser = async (email: string, password: string): Promise<string> => {
+  const data = await request(`http://${authHost}/identitytoolkit.googleapis.com/v1/accounts:signUp?key=${API_KEY}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, password, returnSecureToken: true }),
+  });
+  return data.localId;
+};
+
+/**
+ * Write a users/{uid} profile, bypassing the security rules
+ */
+export const setUserProfile = async (uid: string, profile: Record<string, string | boolean>) => {
+  const fields = Object.fromEntries(
+    Object.entries(profile).map(([key, value]) => [
+      key,
+      typeof value === "boolean" ? { booleanValue: value } : { stringValue: value },
+    ])
+  );
+  await request(`http://${firestoreHost}/v1/projects/${PROJECT_ID}/databases/(default)/documents/users/${uid}`, {
+    method: "PATCH",
+    // "Bearer owner" is the emulator's admin token
+    headers: { "Content-Type": "application/json", Authorization: "Bearer owner" },
+    body: JSON.stringify({ fields }),
+  });
+};
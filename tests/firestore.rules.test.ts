@@ -0,0 +1,441 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+
+/**
+ * Firestore security rules, checked per role against the Firestore emulator
+ * Run with `npm run test:emulators`; skipped when the emulator isn't running.
+ */
+
+const LOCKED_DATE = "2024-01-15"; // monthLocks/2024-01 is locked
+const OPEN_DATE = "2024-02-10";
+// Today in India (UTC+5:30), which the rules use for attendance dates
+const TODAY = new Date(Date.now() + 330 * 60 * 1000).toISOString().slice(0, 10);
+
+const USERS: Record<string, Record<string, string>> = {
+  owner: { role: "owner", name: "Owner" },
+  supervisor: { role: "supervisor", name: "Supervisor" },
+  accountant: { role: "accountant", name: "Accountant" },
+  worker: { role: "field-worker", name: "Ramesh", employeeId: "emp1" },
+};
+
+let testEnv: RulesTestEnvironment;
+
+const as = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+
+const seed = (path: string, data: Record<string, unknown>) =>
+  testEnv.withSecurityRulesDisabled(async (context) => {
+    await context.firestore().doc(path).set(data);
+  });
+
+const attendance = (employeeId: string, date: string, extra: Record<string, unknown> = {}) => ({
+  employeeId,
+  employeeName: employeeId,
+  date,
+  status: "present",
+  checkIn: "09:00",
+  checkOut: "18:00",
+  ...extra,
+});
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)("firestore.rules", () => {
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: "demo-safay",
+      firestore: { rules: readFileSync(resolve(__dirname, "../firestore.rules"), "utf8") },
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    for (const [uid, profile] of Object.entries(USERS)) {
+      await seed(`users/${uid}`, { ...profile, email: `${uid}@example.com`, active: true });
+    }
+    await seed("monthLocks/2024-01", { month: "2024-01", locked: true, lockedBy: "Owner", history: [] });
+  });
+
+  describe("users and roles", () => {
+    it("lets users read their own profile only", async () => {
+      await assertSucceeds(as("supervisor").doc("users/supervisor").get());
+      await assertFails(as("supervisor").doc("users/owner").get());
+      await assertSucceeds(as("owner").doc("users/supervisor").get());
+    });
+
+    it("lets only the owner change roles", async () => {
+      await assertFails(as("supervisor").doc("users/supervisor").update({ role: "owner" }));
+      await assertSucceeds(as("owner").doc("users/supervisor").update({ role: "accountant" }));
+    });
+
+    it("gives signed-in users without a profile nothing", async () => {
+      await assertFails(as("stranger").doc("employees/emp1").get());
+      await assertFails(testEnv.unauthenticatedContext().firestore().doc("employees/emp1").get());
+    });
+
+    it("treats a deactivated owner as having no role", async () => {
+      await seed("users/former", { role: "owner", name: "Former", active: false });
+      await assertFails(as("former").doc("employees/emp1").get());
+    });
+  });
+
+  describe("employees", () => {
+    it("lets only the owner delete an employee", async () => {
+      await seed("employees/emp1", { name: "Ramesh" });
+      await assertFails(as("supervisor").doc("employees/emp1").delete());
+      await assertFails(as("accountant").doc("employees/emp1").delete());
+      await assertSucceeds(as("owner").doc("employees/emp1").delete());
+    });
+
+    it("leaves pay to the owner", async () => {
+      const wageHistory = [{ effectiveFrom: "", dailyWage: 500 }];
+      await seed("employees/emp1", { name: "Ramesh", dailyWage: 500, wageHistory });
+      const ref = (uid: string) => as(uid).doc("employees/emp1");
+
+      await assertSucceeds(ref("supervisor").update({ address: "Surat" }));
+      await assertFails(ref("supervisor").update({ dailyWage: 900 }));
+      const raise = { effectiveFrom: OPEN_DATE, dailyWage: 900 };
+      await assertFails(ref("supervisor").update({ wageHistory: [...wageHistory, raise] }));
+      await assertSucceeds(ref("owner").update({ dailyWage: 900 }));
+    });
+
+    it("lets supervisors add a worker at a starting wage only", async () => {
+      const worker = { name: "Suresh", dailyWage: 600 };
+      await assertSucceeds(
+        as("supervisor").doc("employees/emp2").set({ ...worker, wageHistory: [{ effectiveFrom: "", dailyWage: 600 }] })
+      );
+      await assertFails(
+        as("supervisor").doc("employees/emp3").set({
+          ...worker,
+          wageHistory: [
+            { effectiveFrom: "", dailyWage: 600 },
+            { effectiveFrom: OPEN_DATE, dailyWage: 1200 },
+          ],
+        })
+      );
+    });
+
+    it("lets field workers read but not change employees", async () => {
+      await seed("employees/emp1", { name: "Ramesh" });
+      await assertSucceeds(as("worker").doc("employees/emp1").get());
+      await assertFails(as("worker").doc("employees/emp1").update({ dailyWage: 1000 }));
+    });
+  });
+
+  describe("attendance", () => {
+    it("lets the office create records under the per-worker-per-day id only", async () => {
+      await assertSucceeds(as("supervisor").doc(`attendance/emp1_${OPEN_DATE}`).set(attendance("emp1", OPEN_DATE)));
+      await assertFails(as("supervisor").doc("attendance/random-id").set(attendance("emp2", OPEN_DATE)));
+      await assertFails(as("accountant").doc(`attendance/emp2_${OPEN_DATE}`).set(attendance("emp2", OPEN_DATE)));
+    });
+
+    it("keeps the correction history for the owner", async () => {
+      await seed(`attendance/emp1_${TODAY}`, attendance("emp1", TODAY));
+      const ref = (uid: string) => as(uid).doc(`attendance/emp1_${TODAY}`);
+
+      await assertSucceeds(ref("supervisor").update({ checkOut: "19:00" }));
+      await assertFails(ref("supervisor").update({ corrections: [{ reason: "made up" }] }));
+      await assertSucceeds(ref("owner").update({ corrections: [{ reason: "approved" }] }));
+      await assertFails(ref("supervisor").delete());
+    });
+
+    it("sends supervisors' changes to past days through a correction", async () => {
+      await seed(`attendance/emp1_${OPEN_DATE}`, attendance("emp1", OPEN_DATE));
+      const ref = (uid: string) => as(uid).doc(`attendance/emp1_${OPEN_DATE}`);
+
+      await assertFails(ref("supervisor").update({ status: "absent", checkIn: "", checkOut: "" }));
+      await assertFails(ref("supervisor").update({ checkOut: "21:00" }));
+      await assertFails(ref("supervisor").update({ date: TODAY }));
+      await assertSucceeds(ref("owner").update({ checkOut: "19:00" }));
+    });
+
+    it("lets supervisors decide a worker's pending check-in from a past day", async () => {
+      const pending = attendance("emp1", OPEN_DATE, { selfCheckInStatus: "pending" });
+      const ref = as("supervisor").doc(`attendance/emp1_${OPEN_DATE}`);
+
+      await seed(`attendance/emp1_${OPEN_DATE}`, pending);
+      await assertFails(ref.update({ selfCheckInStatus: "approved", checkOut: "21:00" }));
+      await assertSucceeds(
+        ref.update({ selfCheckInStatus: "approved", workHours: 9, selfCheckInDecidedBy: "Supervisor" })
+      );
+
+      await seed(`attendance/emp1_${OPEN_DATE}`, pending);
+      await assertSucceeds(ref.update({ selfCheckInStatus: "rejected", status: "absent", checkIn: "", checkOut: "" }));
+    });
+  });
+
+  describe("field worker self check-in", () => {
+    const checkIn = (employeeId: string, extra: Record<string, unknown> = {}) => ({
+      employeeId,
+      employeeName: "Ramesh",
+      date: OPEN_DATE,
+      status: "present",
+      checkIn: "09:05",
+      selfCheckInStatus: "pending",
+      checkInPhotoUrl: "https://res.cloudinary.com/demo/image/upload/selfie.jpg",
+      checkInLocation: { latitude: 21.17, longitude: 72.83, accuracy: 12 },
+      notes: "Self check-in",
+      ...extra,
+    });
+    const ownRef = () => as("worker").doc(`attendance/emp1_${OPEN_DATE}`);
+
+    it("lets a worker check themselves in, pending approval", async () => {
+      await assertSucceeds(ownRef().set(checkIn("emp1")));
+      await assertSucceeds(ownRef().get());
+    });
+
+    it("doesn't let a worker check in someone else or approve themselves", async () => {
+      await assertFails(as("worker").doc(`attendance/emp2_${OPEN_DATE}`).set(checkIn("emp2")));
+      await assertFails(ownRef().set(checkIn("emp1", { selfCheckInStatus: "approved" })));
+      await assertFails(ownRef().set(checkIn("emp1", { status: "half-day" })));
+    });
+
+    it("doesn't let a worker set their own hours, check-out or overtime rate when checking in", async () => {
+      await assertFails(ownRef().set(checkIn("emp1", { checkOut: "21:00" })));
+      await assertFails(ownRef().set(checkIn("emp1", { workHours: 12, overtimeHours: 4 })));
+      await assertFails(ownRef().set(checkIn("emp1", { shiftHours: 4, overtimeRate: 3 })));
+      await assertFails(ownRef().set(checkIn("emp1", { approvedBy: "Owner" })));
+    });
+
+    it("lets a worker check in through a transaction that first reads their missing record", async () => {
+      const db = as("worker");
+      await assertSucceeds(
+        db.runTransaction(async (transaction) => {
+          const ref = db.doc(`attendance/emp1_${OPEN_DATE}`);
+          if ((await transaction.get(ref)).exists) throw new Error("already marked");
+          transaction.set(ref, checkIn("emp1"));
+        })
+      );
+      await assertFails(as("worker").doc(`attendance/emp2_${OPEN_DATE}`).get());
+    });
+
+    it("doesn't let a worker read other workers' attendance", async () => {
+      await seed(`attendance/emp2_${OPEN_DATE}`, attendance("emp2", OPEN_DATE));
+      await assertFails(as("worker").doc(`attendance/emp2_${OPEN_DATE}`).get());
+    });
+
+    it("lets a worker add their check-out but not change the rest", async () => {
+      await seed(`attendance/emp1_${OPEN_DATE}`, checkIn("emp1"));
+      await assertFails(ownRef().update({ status: "present", checkIn: "07:00" }));
+      await assertSucceeds(
+        ownRef().update({
+          checkOut: "18:30",
+          checkOutPhotoUrl: "https://res.cloudinary.com/demo/image/upload/out.jpg",
+          checkOutLocation: { latitude: 21.17, longitude: 72.83, accuracy: 8 },
+          selfCheckInStatus: "pending",
+          updatedAt: new Date(),
+        })
+      );
+    });
+
+    it("doesn't let a worker set their own hours when checking out, or check out twice", async () => {
+      await seed(`attendance/emp1_${OPEN_DATE}`, checkIn("emp1"));
+      await assertFails(
+        ownRef().update({ checkOut: "18:30", workHours: 14, overtimeHours: 5, selfCheckInStatus: "pending" })
+      );
+
+      await seed(`attendance/emp1_${OPEN_DATE}`, checkIn("emp1", { checkOut: "18:30" }));
+      await assertFails(ownRef().update({ checkOut: "23:30", selfCheckInStatus: "pending" }));
+    });
+
+    it("doesn't let a worker change a rejected or office-marked day", async () => {
+      await seed(`attendance/emp1_${OPEN_DATE}`, checkIn("emp1", { selfCheckInStatus: "rejected", status: "absent" }));
+      await assertFails(ownRef().update({ checkOut: "18:30", selfCheckInStatus: "pending" }));
+
+      await seed(`attendance/emp1_${OPEN_DATE}`, attendance("emp1", OPEN_DATE, { checkOut: "" }));
+      await assertFails(ownRef().update({ checkOut: "18:30", selfCheckInStatus: "pending" }));
+    });
+  });
+
+  describe("month locks", () => {
+    const event = (action: string, extra: Record<string, unknown> = {}) => ({
+      action,
+      by: "Owner",
+      at: new Date("2024-02-05T10:00:00Z"),
+      ...extra,
+    });
+    const lock = (month: string, by: string) => ({
+      month,
+      locked: true,
+      lockedBy: by,
+      lockedAt: new Date(),
+      history: [event("lock", { by })],
+      updatedAt: new Date(),
+    });
+
+    it("lets the owner and accountant lock a month", async () => {
+      await assertSucceeds(as("accountant").doc("monthLocks/2024-02").set(lock("2024-02", "Accountant")));
+      await assertFails(as("supervisor").doc("monthLocks/2024-03").set(lock("2024-03", "Supervisor")));
+    });
+
+    it("requires a new lock to start its history and carry only lock fields", async () => {
+      await assertFails(as("owner").doc("monthLocks/2024-02").set({ ...lock("2024-02", "Owner"), history: [] }));
+      await assertFails(
+        as("owner").doc("monthLocks/2024-02").set({ ...lock("2024-02", "Owner"), reopenReason: "x" })
+      );
+      await assertFails(as("owner").doc("monthLocks/2024-02").set(lock("2024-03", "Owner")));
+    });
+
+    it("lets only the owner reopen, with a reason that is logged", async () => {
+      const reopen = {
+        locked: false,
+        reopenReason: "Wrong wage",
+        history: [event("reopen", { reason: "Wrong wage" })],
+      };
+      await assertFails(as("accountant").doc("monthLocks/2024-01").update(reopen));
+      await assertFails(as("owner").doc("monthLocks/2024-01").update({ locked: false, history: [event("reopen")] }));
+      await assertFails(as("owner").doc("monthLocks/2024-01").update({ locked: false, reopenReason: "Wrong wage" }));
+      await assertFails(
+        as("owner")
+          .doc("monthLocks/2024-01")
+          .update({ ...reopen, history: [event("reopen", { reason: "Something else" })] })
+      );
+      await assertSucceeds(as("owner").doc("monthLocks/2024-01").update(reopen));
+      // ...and it can be locked again, adding to the same history
+      await assertSucceeds(
+        as("accountant")
+          .doc("monthLocks/2024-01")
+          .update({ locked: true, lockedBy: "Accountant", history: [...reopen.history, event("lock")] })
+      );
+    });
+
+    it("never lets the lock history be rewritten", async () => {
+      const history = [event("lock"), event("reopen", { reason: "Wrong wage" }), event("lock")];
+      await seed("monthLocks/2024-02", {
+        month: "2024-02",
+        locked: true,
+        lockedBy: "Owner",
+        reopenReason: "Wrong wage",
+        history,
+      });
+      const ref = (uid: string) => as(uid).doc("monthLocks/2024-02");
+
+      // Changing other fields while staying locked
+      await assertFails(ref("accountant").update({ lockedBy: "Accountant" }));
+      await assertFails(
+        ref("owner").update({ reopenReason: "Nothing happened", history: [...history, event("lock")] })
+      );
+      // Dropping, replacing or reordering events
+      await assertFails(ref("owner").update({ history: [event("lock")] }));
+      await assertFails(ref("accountant").update({ history: [...history.slice(1), event("lock"), event("lock")] }));
+      await assertFails(
+        ref("owner").update({
+          locked: false,
+          reopenReason: "Again",
+          history: [event("lock"), event("lock"), event("lock"), event("reopen", { reason: "Again" })],
+        })
+      );
+      // Reopening keeps the earlier events
+      await assertSucceeds(
+        ref("owner").update({
+          locked: false,
+          reopenReason: "Again",
+          history: [...history, event("reopen", { reason: "Again" })],
+        })
+      );
+      await assertFails(ref("owner").delete());
+    });
+
+    it("refuses attendance writes in a locked month, even from the owner", async () => {
+      await assertFails(as("owner").doc(`attendance/emp1_${LOCKED_DATE}`).set(attendance("emp1", LOCKED_DATE)));
+
+      await seed(`attendance/emp1_${LOCKED_DATE}`, attendance("emp1", LOCKED_DATE));
+      await assertFails(as("owner").doc(`attendance/emp1_${LOCKED_DATE}`).update({ status: "absent" }));
+      await assertFails(as("owner").doc(`attendance/emp1_${LOCKED_DATE}`).delete());
+      // ...or moving a record into it
+      await seed(`attendance/emp1_${OPEN_DATE}`, attendance("emp1", OPEN_DATE));
+      await assertFails(as("owner").doc(`attendance/emp1_${OPEN_DATE}`).update({ date: LOCKED_DATE }));
+    });
+
+    it("refuses upad advances and edits in a locked month", async () => {
+      const upad = { employeeId: "emp1", amount: 500, type: "advance", date: LOCKED_DATE };
+      await assertFails(as("accountant").doc("upads/u1").set(upad));
+      await assertSucceeds(as("accountant").doc("upads/u2").set({ ...upad, date: OPEN_DATE }));
+
+      await seed("upads/u3", upad);
+      await assertFails(as("owner").doc("upads/u3").update({ amount: 300, voided: true }));
+    });
+  });
+
+  describe("invoices", () => {
+    const invoice = (sequence: number) => ({
+      invoiceNumber: `SM/2024-25/${String(sequence).padStart(4, "0")}`,
+      financialYear: "2024-25",
+      sequence,
+      total: 1000,
+    });
+    const issue = (uid: string, id: string, lastNumber: number, sequence = lastNumber) => {
+      const db = as(uid);
+      const batch = db.batch();
+      batch.set(db.doc("counters/invoices-2024-25"), { lastNumber, lastInvoiceId: id, updatedAt: new Date() });
+      batch.set(db.doc(`invoices/${id}`), invoice(sequence));
+      return batch.commit();
+    };
+
+    it("issues numbers one after another, each with its counter", async () => {
+      await assertSucceeds(issue("accountant", "i1", 1));
+      await assertSucceeds(issue("owner", "i2", 2));
+      await assertFails(as("accountant").doc("invoices/i3").set(invoice(3)));
+      await assertFails(issue("supervisor", "i3", 3));
+    });
+
+    it("doesn't let a number be skipped, reused or reset", async () => {
+      await seed("counters/invoices-2024-25", { lastNumber: 5, lastInvoiceId: "i5" });
+      await assertFails(issue("owner", "i7", 7));
+      await assertFails(issue("owner", "i5b", 5));
+      await assertFails(issue("owner", "i6", 6, 5));
+      await assertFails(as("owner").doc("counters/invoices-2024-25").update({ lastNumber: 0 }));
+      await assertFails(as("owner").doc("counters/invoices-2024-25").delete());
+      await assertSucceeds(issue("owner", "i6", 6));
+    });
+  });
+
+  describe("upads", () => {
+    it("lets only the owner and accountant record advances, and nobody delete them", async () => {
+      const upad = { employeeId: "emp1", amount: 500, type: "advance", date: OPEN_DATE };
+      await assertFails(as("supervisor").doc("upads/u1").set(upad));
+      await assertSucceeds(as("owner").doc("upads/u1").set(upad));
+      await assertFails(as("owner").doc("upads/u1").delete());
+    });
+
+    it("allows a deduction in a locked month only alongside the month's new payroll run", async () => {
+      const deduction = {
+        employeeId: "emp1",
+        amount: 500,
+        type: "deduction",
+        date: "2024-01-31",
+        payrollMonth: "2024-01",
+      };
+      const finalize = (uid: string, upad: Record<string, unknown>) => {
+        const db = as(uid);
+        const batch = db.batch();
+        batch.set(db.doc("payrollRuns/2024-01"), { month: "2024-01", entries: [], totalNetPay: 0 });
+        batch.set(db.doc("upads/d1"), upad);
+        return batch.commit();
+      };
+
+      // Just adding the key isn't enough
+      await assertFails(as("owner").doc("upads/a1").set({ ...deduction, type: "advance" }));
+      await assertFails(as("accountant").doc("upads/d1").set(deduction));
+      await assertFails(finalize("accountant", { ...deduction, type: "advance" }));
+      await assertFails(finalize("accountant", { ...deduction, payrollMonth: "2024-02" }));
+      await assertSucceeds(finalize("accountant", deduction));
+
+      // Once the run exists, no more deductions can be added to the locked month
+      await assertFails(as("owner").doc("upads/d2").set(deduction));
+    });
+
+    it("freezes payroll deductions", async () => {
+      await seed("upads/d1", { employeeId: "emp1", amount: 500, type: "deduction", date: OPEN_DATE, payrollMonth: "2024-02" });
+      await assertFails(as("owner").doc("upads/d1").update({ amount: 100 }));
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { defineConfig, mergeConfig } from "vitest/config";
+import viteConfig from "./vite.config";
+
+// Suites that need the Firebase emulators are skipped unless they are running,
+// e.g. through `npm run test:emulators` (firebase emulators:exec sets the *_EMULATOR_HOST variables)
+export default defineConfig((env) =>
+  mergeConfig(viteConfig(env), {
+    test: {
+      include: ["src/**/*.test.{ts,tsx}", "api/**/*.test.ts", "tests/**/*.test.ts"],
+      environment: "node",
+      env: {
+        VITE_FIREBASE_API_KEY: "demo-api-key",
+        VITE_FIREBASE_PROJECT_ID: "demo-safay",
+        VITE_FIREBASE_AUTH_DOMAIN: "demo-safay.firebaseapp.com",
+        // Never talk to the real project from tests
+        VITE_USE_FIREBASE_EMULATORS: "true",
+        VITE_FIREBASE_AUTH_EMULATOR_URL: `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST || "127.0.0.1:9099"}`,
+        VITE_FIRESTORE_EMULATOR_HOST: process.env.FIRESTORE_EMULATOR_HOST || "127.0.0.1:8081",
+      },
+    },
+  })
+);